@@ -0,0 +1,48 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+/// @title AverixDisperse
+/// @notice Sends ETH and ERC-20 transfers to many recipients in one transaction, used by the agent's
+///         atomic batchMixedTransfer mode. If any leg fails the whole batch reverts.
+/// @dev Stateless and ownerless: one deployment per chain serves every wallet. Token legs are pulled
+///      from the caller with transferFrom, so the caller approves this contract first.
+contract AverixDisperse {
+    function disperse(
+        address[] calldata recipients,
+        uint256[] calldata values,
+        address[] calldata tokens,
+        address[] calldata tokenRecipients,
+        uint256[] calldata tokenValues
+    ) external payable {
+        require(recipients.length == values.length, "ETH recipients and values differ in length");
+        require(
+            tokens.length == tokenRecipients.length && tokens.length == tokenValues.length,
+            "Token legs differ in length"
+        );
+
+        uint256 total;
+        for (uint256 i = 0; i < values.length; i++) {
+            total += values[i];
+        }
+        require(total == msg.value, "ETH sent does not match the transfers");
+
+        for (uint256 i = 0; i < recipients.length; i++) {
+            (bool sent, ) = recipients[i].call{value: values[i]}("");
+            require(sent, "ETH transfer failed");
+        }
+        for (uint256 i = 0; i < tokens.length; i++) {
+            _transferFrom(tokens[i], msg.sender, tokenRecipients[i], tokenValues[i]);
+        }
+    }
+
+    // Works with tokens that return nothing; bubbles up the token's own revert reason
+    function _transferFrom(address token, address from, address to, uint256 value) private {
+        (bool success, bytes memory data) = token.call(abi.encodeWithSelector(0x23b872dd, from, to, value));
+        if (!success) {
+            assembly {
+                revert(add(data, 32), mload(data))
+            }
+        }
+        require(data.length == 0 || abi.decode(data, (bool)), "Token transfer failed");
+    }
+}
@@ -0,0 +1,147 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+import "./Ownable.sol";
+
+interface IERC721Receiver {
+    function onERC721Received(address operator, address from, uint256 tokenId, bytes calldata data)
+        external
+        returns (bytes4);
+}
+
+/// @title AverixNft
+/// @notice ERC-721 collection deployed by the agent's createNftCollection tool. The owner mints
+///         sequential token ids starting at 1; tokenURI is baseURI followed by the id.
+/// @dev maxSupply_ of 0 means the collection is unlimited.
+contract AverixNft is Ownable {
+    string public name;
+    string public symbol;
+    string public baseURI;
+    uint256 public immutable maxSupply;
+    uint256 public totalSupply;
+
+    mapping(uint256 => address) private _owners;
+    mapping(address => uint256) private _balances;
+    mapping(uint256 => address) private _tokenApprovals;
+    mapping(address => mapping(address => bool)) private _operatorApprovals;
+
+    event Transfer(address indexed from, address indexed to, uint256 indexed tokenId);
+    event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId);
+    event ApprovalForAll(address indexed owner, address indexed operator, bool approved);
+
+    constructor(string memory name_, string memory symbol_, string memory baseURI_, uint256 maxSupply_) {
+        name = name_;
+        symbol = symbol_;
+        baseURI = baseURI_;
+        maxSupply = maxSupply_;
+    }
+
+    function supportsInterface(bytes4 interfaceId) public pure returns (bool) {
+        return
+            interfaceId == 0x01ffc9a7 || // ERC-165
+            interfaceId == 0x80ac58cd || // ERC-721
+            interfaceId == 0x5b5e139f; // ERC-721 metadata
+    }
+
+    function balanceOf(address account) public view returns (uint256) {
+        require(account != address(0), "Invalid owner address");
+        return _balances[account];
+    }
+
+    function ownerOf(uint256 tokenId) public view returns (address) {
+        address tokenOwner = _owners[tokenId];
+        require(tokenOwner != address(0), "Token does not exist");
+        return tokenOwner;
+    }
+
+    function tokenURI(uint256 tokenId) public view returns (string memory) {
+        ownerOf(tokenId);
+        return bytes(baseURI).length > 0 ? string.concat(baseURI, _toString(tokenId)) : "";
+    }
+
+    /// @notice Token ids held by an account, for wallets and the agent's getNfts tool.
+    function tokensOfOwner(address account) public view returns (uint256[] memory) {
+        uint256[] memory ids = new uint256[](_balances[account]);
+        uint256 found;
+        for (uint256 tokenId = 1; tokenId <= totalSupply && found < ids.length; tokenId++) {
+            if (_owners[tokenId] == account) {
+                ids[found++] = tokenId;
+            }
+        }
+        return ids;
+    }
+
+    function mint(address to) public onlyOwner returns (uint256) {
+        require(to != address(0), "Invalid recipient address");
+        require(maxSupply == 0 || totalSupply < maxSupply, "Max supply reached");
+        uint256 tokenId = ++totalSupply;
+        _owners[tokenId] = to;
+        _balances[to] += 1;
+        emit Transfer(address(0), to, tokenId);
+        return tokenId;
+    }
+
+    function approve(address to, uint256 tokenId) public {
+        address tokenOwner = ownerOf(tokenId);
+        require(msg.sender == tokenOwner || _operatorApprovals[tokenOwner][msg.sender], "Not allowed to approve");
+        _tokenApprovals[tokenId] = to;
+        emit Approval(tokenOwner, to, tokenId);
+    }
+
+    function getApproved(uint256 tokenId) public view returns (address) {
+        ownerOf(tokenId);
+        return _tokenApprovals[tokenId];
+    }
+
+    function setApprovalForAll(address operator, bool approved) public {
+        require(operator != address(0), "Invalid operator address");
+        _operatorApprovals[msg.sender][operator] = approved;
+        emit ApprovalForAll(msg.sender, operator, approved);
+    }
+
+    function isApprovedForAll(address account, address operator) public view returns (bool) {
+        return _operatorApprovals[account][operator];
+    }
+
+    function transferFrom(address from, address to, uint256 tokenId) public {
+        address tokenOwner = ownerOf(tokenId);
+        require(tokenOwner == from, "Sender does not own the token");
+        require(to != address(0), "Invalid recipient address");
+        require(
+            msg.sender == from || _tokenApprovals[tokenId] == msg.sender || _operatorApprovals[from][msg.sender],
+            "Not allowed to transfer"
+        );
+        delete _tokenApprovals[tokenId];
+        _balances[from] -= 1;
+        _balances[to] += 1;
+        _owners[tokenId] = to;
+        emit Transfer(from, to, tokenId);
+    }
+
+    function safeTransferFrom(address from, address to, uint256 tokenId) public {
+        safeTransferFrom(from, to, tokenId, "");
+    }
+
+    function safeTransferFrom(address from, address to, uint256 tokenId, bytes memory data) public {
+        transferFrom(from, to, tokenId);
+        if (to.code.length > 0) {
+            require(
+                IERC721Receiver(to).onERC721Received(msg.sender, from, tokenId, data) ==
+                    IERC721Receiver.onERC721Received.selector,
+                "Recipient cannot receive NFTs"
+            );
+        }
+    }
+
+    function _toString(uint256 value) internal pure returns (string memory) {
+        if (value == 0) return "0";
+        uint256 digits;
+        for (uint256 temp = value; temp != 0; temp /= 10) digits++;
+        bytes memory buffer = new bytes(digits);
+        while (value != 0) {
+            buffer[--digits] = bytes1(uint8(48 + (value % 10)));
+            value /= 10;
+        }
+        return string(buffer);
+    }
+}
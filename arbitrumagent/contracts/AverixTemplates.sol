@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+import "./AverixToken.sol";
+import "./Ownable.sol";
+
+/// @title AverixMintableToken
+/// @notice Burnable ERC-20 whose owner can mint new tokens.
+contract AverixMintableToken is AverixToken, Ownable {
+    constructor(string memory name_, string memory symbol_, uint8 decimals_, uint256 initialSupply_)
+        AverixToken(name_, symbol_, decimals_, initialSupply_)
+    {}
+
+    function mint(address to, uint256 value) public virtual onlyOwner returns (bool) {
+        _mint(to, value);
+        return true;
+    }
+}
+
+/// @title AverixCappedToken
+/// @notice Mintable ERC-20 whose total supply can never exceed cap.
+/// @dev cap_ is in base units, like initialSupply_. Burning frees room under the cap.
+contract AverixCappedToken is AverixMintableToken {
+    uint256 public immutable cap;
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_, uint256 initialSupply_, uint256 cap_)
+        AverixMintableToken(name_, symbol_, decimals_, initialSupply_)
+    {
+        require(initialSupply_ <= cap_, "Initial supply exceeds cap");
+        cap = cap_;
+    }
+
+    function mint(address to, uint256 value) public override onlyOwner returns (bool) {
+        require(totalSupply + value <= cap, "Cap exceeded");
+        return super.mint(to, value);
+    }
+}
+
+/// @title AverixPausableToken
+/// @notice Burnable ERC-20 whose owner can pause and resume all transfers.
+contract AverixPausableToken is AverixToken, Ownable {
+    bool public paused;
+
+    event Paused(address account);
+    event Unpaused(address account);
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_, uint256 initialSupply_)
+        AverixToken(name_, symbol_, decimals_, initialSupply_)
+    {}
+
+    function pause() public onlyOwner {
+        require(!paused, "Token is already paused");
+        paused = true;
+        emit Paused(msg.sender);
+    }
+
+    function unpause() public onlyOwner {
+        require(paused, "Token is not paused");
+        paused = false;
+        emit Unpaused(msg.sender);
+    }
+
+    function _transfer(address from, address to, uint256 value) internal override {
+        require(!paused, "Token transfers are paused");
+        super._transfer(from, to, value);
+    }
+}
+
+/// @title AverixTaxToken
+/// @notice Burnable ERC-20 that sends a share of every transfer to a treasury address.
+/// @dev taxBps_ is in basis points (100 = 1%) and capped at 10%. Transfers from or to the
+///      treasury are not taxed.
+contract AverixTaxToken is AverixToken, Ownable {
+    uint16 public constant MAX_TAX_BPS = 1000;
+
+    uint16 public taxBps;
+    address public treasury;
+
+    event TreasuryChanged(address indexed previousTreasury, address indexed newTreasury);
+
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        uint8 decimals_,
+        uint256 initialSupply_,
+        uint16 taxBps_,
+        address treasury_
+    ) AverixToken(name_, symbol_, decimals_, initialSupply_) {
+        require(taxBps_ <= MAX_TAX_BPS, "Tax too high");
+        require(treasury_ != address(0), "Invalid treasury address");
+        taxBps = taxBps_;
+        treasury = treasury_;
+    }
+
+    function setTreasury(address newTreasury) public onlyOwner {
+        require(newTreasury != address(0), "Invalid treasury address");
+        emit TreasuryChanged(treasury, newTreasury);
+        treasury = newTreasury;
+    }
+
+    function _transfer(address from, address to, uint256 value) internal override {
+        uint256 tax = from == treasury || to == treasury ? 0 : (value * taxBps) / 10000;
+        if (tax > 0) {
+            super._transfer(from, treasury, tax);
+        }
+        super._transfer(from, to, value - tax);
+    }
+}
@@ -0,0 +1,71 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.26;
+
+/// @title AverixToken
+/// @notice Fixed-supply ERC-20 with burn, deployed by the agent's createToken tool.
+/// @dev initialSupply_ is in base units (already scaled by decimals_). The templates in
+///      AverixTemplates.sol extend it through _mint and _transfer.
+contract AverixToken {
+    string public name;
+    string public symbol;
+    uint8 public decimals;
+    uint256 public totalSupply;
+
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+    event Burn(address indexed burner, uint256 value);
+
+    constructor(string memory name_, string memory symbol_, uint8 decimals_, uint256 initialSupply_) {
+        name = name_;
+        symbol = symbol_;
+        decimals = decimals_;
+        _mint(msg.sender, initialSupply_);
+    }
+
+    function transfer(address to, uint256 value) public returns (bool) {
+        _transfer(msg.sender, to, value);
+        return true;
+    }
+
+    function approve(address spender, uint256 value) public returns (bool) {
+        require(spender != address(0), "Invalid spender address");
+        allowance[msg.sender][spender] = value;
+        emit Approval(msg.sender, spender, value);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 value) public returns (bool) {
+        require(allowance[from][msg.sender] >= value, "Insufficient allowance");
+        allowance[from][msg.sender] -= value;
+        _transfer(from, to, value);
+        return true;
+    }
+
+    function burn(uint256 value) public returns (bool) {
+        require(balanceOf[msg.sender] >= value, "Insufficient balance to burn");
+        balanceOf[msg.sender] -= value;
+        totalSupply -= value;
+        emit Burn(msg.sender, value);
+        emit Transfer(msg.sender, address(0), value);
+        return true;
+    }
+
+    function _mint(address to, uint256 value) internal {
+        require(to != address(0), "Invalid recipient address");
+        totalSupply += value;
+        balanceOf[to] += value;
+        emit Transfer(address(0), to, value);
+    }
+
+    function _transfer(address from, address to, uint256 value) internal virtual {
+        require(from != address(0), "Invalid sender address");
+        require(to != address(0), "Invalid recipient address");
+        require(balanceOf[from] >= value, "Insufficient balance");
+        balanceOf[from] -= value;
+        balanceOf[to] += value;
+        emit Transfer(from, to, value);
+    }
+}
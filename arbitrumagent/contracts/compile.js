@@ -0,0 +1,52 @@
+// Compiles every contracts/*.sol file into a JSON artifact (abi, bytecode, compiler settings and
+// the sources it was built from, for explorer verification) that the agent imports. Run with `npm run compile:contracts` after editing a contract.
+const fs = require("fs");
+const path = require("path");
+const solc = require("solc");
+
+const OPTIMIZER = { enabled: true, runs: 200 };
+
+const sources = {};
+for (const file of fs.readdirSync(__dirname).filter((name) => name.endsWith(".sol"))) {
+  sources[file] = { content: fs.readFileSync(path.join(__dirname, file), "utf8") };
+}
+
+const output = JSON.parse(
+  solc.compile(
+    JSON.stringify({
+      language: "Solidity",
+      sources,
+      settings: {
+        optimizer: OPTIMIZER,
+        outputSelection: { "*": { "*": ["abi", "metadata", "evm.bytecode.object"] } },
+      },
+    })
+  )
+);
+
+const errors = (output.errors || []).filter((error) => error.severity === "error");
+if (errors.length > 0) {
+  errors.forEach((error) => console.error(error.formattedMessage));
+  process.exit(1);
+}
+
+for (const [file, contracts] of Object.entries(output.contracts)) {
+  for (const [contractName, contract] of Object.entries(contracts)) {
+    // Abstract base contracts (e.g. Ownable) have no bytecode to deploy
+    if (!contract.evm.bytecode.object) continue;
+    const metadata = JSON.parse(contract.metadata);
+    const artifact = {
+      contractName,
+      sourceFile: file,
+      compilerVersion: `v${solc.version().replace(/\.Emscripten\.clang$/, "")}`,
+      optimizer: OPTIMIZER,
+      evmVersion: metadata.settings.evmVersion,
+      abi: contract.abi,
+      bytecode: `0x${contract.evm.bytecode.object}`,
+      // Only the files this contract imports, so verification gets the same metadata hash
+      sources: Object.fromEntries(Object.keys(metadata.sources).map((name) => [name, sources[name]])),
+    };
+    fs.writeFileSync(path.join(__dirname, `${contractName}.json`), `${JSON.stringify(artifact, null, 2)}\n`);
+    console.log(`Compiled ${contractName} (${file})`);
+  }
+}
@@ -0,0 +1,149 @@
+import { ethers } from "ethers";
+
+// Accepts a JSON ABI, a compiler artifact with an "abi" field, a JSON array of human-readable
+// signatures, or human-readable signatures separated by newlines or semicolons
+export function parseAbi(input: string): ethers.Interface {
+  const text = input.trim();
+  let fragments: ethers.InterfaceAbi;
+  if (text.startsWith("[") || text.startsWith("{")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`ABI is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const abi = Array.isArray(parsed) ? parsed : (parsed as { abi?: unknown }).abi;
+    if (!Array.isArray(abi)) throw new Error("ABI JSON must be an array or an artifact with an abi field");
+    fragments = abi;
+  } else {
+    fragments = text
+      .split(/[\n;]/)
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+      .map((line) => (/^(function|event|error|constructor|fallback|receive)\b/.test(line) ? line : `function ${line}`));
+  }
+  const iface = new ethers.Interface(fragments);
+  if (iface.fragments.filter((fragment) => fragment.type === "function").length === 0) {
+    throw new Error("ABI has no functions");
+  }
+  return iface;
+}
+
+// Function by name or full signature; overloaded names must use the signature
+export function findFunction(iface: ethers.Interface, name: string): ethers.FunctionFragment | string {
+  let fragment: ethers.FunctionFragment | null;
+  try {
+    fragment = iface.getFunction(name.trim());
+  } catch {
+    const overloads = iface.fragments
+      .filter((candidate): candidate is ethers.FunctionFragment => candidate.type === "function")
+      .filter((candidate) => candidate.name === name.trim())
+      .map((candidate) => candidate.format());
+    return `${name} is overloaded; use one of: ${overloads.join(", ")}`;
+  }
+  if (!fragment) {
+    return `Function ${name} not found. Available functions:\n${listFunctions(iface).join("\n")}`;
+  }
+  return fragment;
+}
+
+export function listFunctions(iface: ethers.Interface): string[] {
+  return iface.fragments
+    .filter((fragment): fragment is ethers.FunctionFragment => fragment.type === "function")
+    .map((fragment) => fragment.format("full").replace(/^function /, ""));
+}
+
+// Convert one LLM-supplied value into what ethers expects for the parameter, with a readable error otherwise
+function coerceArgument(param: ethers.ParamType, value: unknown, position = "argument"): unknown {
+  const label = `${param.name || position} (${param.type})`;
+  if (param.isArray() || param.isTuple()) {
+    let items = value;
+    if (typeof items === "string") {
+      try {
+        items = JSON.parse(items);
+      } catch {
+        throw new Error(`${label} must be a JSON array`);
+      }
+    }
+    if (param.isArray()) {
+      if (!Array.isArray(items)) throw new Error(`${label} must be an array`);
+      if (param.arrayLength >= 0 && items.length !== param.arrayLength) {
+        throw new Error(`${label} needs exactly ${param.arrayLength} items`);
+      }
+      return items.map((item) => coerceArgument(param.arrayChildren, item));
+    }
+    const components = param.components;
+    if (Array.isArray(items)) {
+      if (items.length !== components.length) throw new Error(`${label} needs ${components.length} fields`);
+      return components.map((component, index) => coerceArgument(component, items[index]));
+    }
+    if (typeof items !== "object" || items === null) throw new Error(`${label} must be an array or object`);
+    return components.map((component) => coerceArgument(component, (items as Record<string, unknown>)[component.name]));
+  }
+
+  const text = String(value).trim();
+  if (param.baseType === "address") {
+    if (!ethers.isAddress(text)) throw new Error(`${label} must be an address, got ${text}`);
+    return ethers.getAddress(text);
+  }
+  if (param.baseType === "bool") {
+    if (value === true || text === "true") return true;
+    if (value === false || text === "false") return false;
+    throw new Error(`${label} must be true or false, got ${text}`);
+  }
+  if (/^u?int/.test(param.baseType)) {
+    if (!/^-?\d+$/.test(text)) throw new Error(`${label} must be a whole number in base units, got ${text}`);
+    return BigInt(text);
+  }
+  if (param.baseType.startsWith("bytes")) {
+    if (!ethers.isHexString(text)) throw new Error(`${label} must be 0x-prefixed hex, got ${text}`);
+    const size = Number(param.baseType.slice(5));
+    if (size > 0 && ethers.dataLength(text) !== size) throw new Error(`${label} must be ${size} bytes`);
+    return text;
+  }
+  return text;
+}
+
+// Validate the argument count and each value against the function inputs
+export function coerceArguments(fragment: ethers.FunctionFragment, args: unknown[] = []): unknown[] {
+  if (args.length !== fragment.inputs.length) {
+    throw new Error(`${fragment.format()} takes ${fragment.inputs.length} arguments, got ${args.length}`);
+  }
+  return fragment.inputs.map((param, index) => coerceArgument(param, args[index], `argument ${index + 1}`));
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === "bigint") return value.toString();
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(", ")}]`;
+  return String(value);
+}
+
+export function formatArguments(values: unknown[]): string {
+  return values.map(formatValue).join(", ");
+}
+
+// Decoded return values, one per line with the output name and type
+export function formatResult(fragment: ethers.FunctionFragment, result: ethers.Result): string {
+  if (fragment.outputs.length === 0) return "(no return value)";
+  return fragment.outputs
+    .map((output, index) => `${output.name || `#${index}`} (${output.type}): ${formatValue(result[index])}`)
+    .join("\n");
+}
+
+// Revert reason from a failed call or estimate: require message, panic code or custom error from the ABI
+export function describeRevert(iface: ethers.Interface, error: unknown): string {
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    if (error.revert) {
+      const { name, args } = error.revert;
+      if (name === "Error") return String(args[0]);
+      return `${name}(${args.map(formatValue).join(", ")})`;
+    }
+    if (error.data && error.data !== "0x") {
+      const custom = iface.parseError(error.data);
+      if (custom) return `${custom.name}(${custom.args.map(formatValue).join(", ")})`;
+    }
+    return error.reason ?? "execution reverted without a reason";
+  }
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS")) return "insufficient funds for gas and value";
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,360 @@
+import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  StateGraph,
+  END,
+  MemorySaver,
+  BaseCheckpointSaver,
+  LangGraphRunnableConfig,
+  messagesStateReducer,
+  interrupt,
+  Command,
+} from "@langchain/langgraph";
+import {
+  HumanMessage,
+  AIMessage,
+  BaseMessage,
+  SystemMessage,
+  ToolMessage,
+  RemoveMessage,
+  trimMessages,
+  getBufferString,
+} from "@langchain/core/messages";
+import { ToolCall } from "@langchain/core/messages/tool";
+import { StructuredTool } from "@langchain/core/tools";
+import { ToolNode } from "@langchain/langgraph/prebuilt";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  CHECKPOINT_FILE,
+  CHECKPOINTS_PER_THREAD,
+  HISTORY_MAX_TOKENS,
+  HISTORY_POLICY,
+  OPENAI_API_KEY,
+  SESSION_TTL_MS,
+  log,
+} from "./config";
+import { BlockchainTools } from "./blockchainTools";
+import { describeFailure } from "./errors";
+import { simulatedTool } from "./simulation";
+import { ConfirmableTool, createTools, PendingAction } from "./tools";
+
+// Initialize OpenAI model
+export function createChatModel(): BaseChatModel {
+  return new ChatOpenAI({
+    model: "gpt-4o-mini",
+    apiKey: OPENAI_API_KEY,
+    temperature: 0,
+  });
+}
+
+// Many checkpoints are written per graph step; they reach the file together after this delay
+const FLUSH_DELAY_MS = 1000;
+
+// Forget the checkpoints and pending writes of the matching threads, e.g. all threads of an expired session
+export function deleteThreads(checkpointer: MemorySaver, matches: (threadId: string) => boolean): void {
+  for (const threadId of Object.keys(checkpointer.storage)) {
+    if (matches(threadId)) delete checkpointer.storage[threadId];
+  }
+  for (const key of Object.keys(checkpointer.writes)) {
+    if (matches((JSON.parse(key) as string[])[0])) delete checkpointer.writes[key];
+  }
+  if (checkpointer instanceof FileCheckpointSaver) checkpointer.forget(matches);
+}
+
+// Checkpointer that mirrors MemorySaver's storage into a JSON file so threads survive restarts
+export class FileCheckpointSaver extends MemorySaver {
+  // Last write per thread; threads idle for longer than maxIdleMs are dropped when the file is loaded
+  private touched: Record<string, number> = {};
+  private flushTimer?: NodeJS.Timeout;
+  private flushing: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, maxIdleMs = Infinity) {
+    super();
+    if (fs.existsSync(filePath)) {
+      const saved = JSON.parse(fs.readFileSync(filePath, "utf8"), (_, value) =>
+        value && typeof value === "object" && "__bytes" in value ? new Uint8Array(Buffer.from(value.__bytes, "base64")) : value
+      );
+      this.storage = saved.storage ?? {};
+      this.writes = saved.writes ?? {};
+      this.touched = saved.touched ?? {};
+      // Their sessions expired while the server was down, so nobody can resume them
+      const cutoff = Date.now() - maxIdleMs;
+      for (const threadId of Object.keys(this.storage)) {
+        this.touched[threadId] ??= Date.now();
+        if (this.touched[threadId] < cutoff) deleteThreads(this, (id) => id === threadId);
+      }
+      log.info(`Loaded ${Object.keys(this.storage).length} conversation threads from ${filePath}`);
+    }
+  }
+
+  async put(...args: Parameters<MemorySaver["put"]>): ReturnType<MemorySaver["put"]> {
+    const result = await super.put(...args);
+    const threadId = result.configurable?.thread_id as string;
+    const namespace = (result.configurable?.checkpoint_ns as string) ?? "";
+    this.prune(threadId, namespace);
+    this.touched[threadId] = Date.now();
+    this.scheduleFlush();
+    return result;
+  }
+
+  async putWrites(...args: Parameters<MemorySaver["putWrites"]>): Promise<void> {
+    await super.putWrites(...args);
+    this.scheduleFlush();
+  }
+
+  // Called by deleteThreads once the threads are gone from storage
+  forget(matches: (threadId: string) => boolean): void {
+    for (const threadId of Object.keys(this.touched)) {
+      if (matches(threadId)) delete this.touched[threadId];
+    }
+    this.scheduleFlush();
+  }
+
+  private flush(): void {
+    this.flushTimer = undefined;
+    // One write at a time, so an older snapshot never lands after a newer one
+    this.flushing = this.flushing
+      .then(() => this.write())
+      .catch((error) => {
+        log.error("Saving checkpoints failed:", error);
+      });
+  }
+
+  // Only the latest checkpoints of a thread are needed to resume it
+  private prune(threadId: string, namespace: string): void {
+    const checkpoints = this.storage[threadId]?.[namespace];
+    if (!checkpoints) return;
+    const stale = Object.keys(checkpoints)
+      .sort((a, b) => b.localeCompare(a))
+      .slice(CHECKPOINTS_PER_THREAD);
+    for (const checkpointId of stale) {
+      delete checkpoints[checkpointId];
+      delete this.writes[JSON.stringify([threadId, namespace, checkpointId])];
+    }
+  }
+
+  private scheduleFlush(): void {
+    this.flushTimer ??= setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+  }
+
+  private async write(): Promise<void> {
+    const data = JSON.stringify({ storage: this.storage, writes: this.writes, touched: this.touched }, (_, value) =>
+      value instanceof Uint8Array ? { __bytes: Buffer.from(value).toString("base64") } : value
+    );
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(`${this.filePath}.tmp`, data);
+    await fs.promises.rename(`${this.filePath}.tmp`, this.filePath);
+  }
+}
+
+let sharedCheckpointer: MemorySaver | undefined;
+
+// Checkpointer shared by all sessions, created (and loaded from CHECKPOINT_FILE) on first use
+export function getCheckpointer(): MemorySaver {
+  sharedCheckpointer ??= CHECKPOINT_FILE ? new FileCheckpointSaver(CHECKPOINT_FILE, SESSION_TTL_MS) : new MemorySaver();
+  return sharedCheckpointer;
+}
+
+// Define state
+export interface AgentState {
+  messages: BaseMessage[];
+  summary: string;
+  // Previews of the calls awaiting confirmation, kept in state because the confirm node re-runs on resume
+  pendingActions: PendingAction[];
+}
+
+// Rough token estimate (~4 characters per token), good enough for budgeting history
+function countTokens(messages: BaseMessage[]): number {
+  return messages.reduce((total, message) => total + Math.ceil(JSON.stringify(message.content).length / 4), 0);
+}
+
+// Most recent messages that fit in HISTORY_MAX_TOKENS, always starting on a user turn
+async function recentHistory(messages: BaseMessage[]): Promise<BaseMessage[]> {
+  const trimmed = await trimMessages(messages, {
+    maxTokens: HISTORY_MAX_TOKENS,
+    strategy: "last",
+    tokenCounter: countTokens,
+    startOn: "human",
+  });
+  if (trimmed.length > 0) return trimmed;
+  // The current turn alone is over budget; keep it whole rather than sending nothing
+  const lastHuman = messages.map((message) => message._getType()).lastIndexOf("human");
+  return messages.slice(Math.max(lastHuman, 0));
+}
+
+function shouldSummarize(state: AgentState): string {
+  return HISTORY_POLICY === "summarize" && countTokens(state.messages) > HISTORY_MAX_TOKENS ? "summarize" : "agent";
+}
+
+// Fold messages that no longer fit the budget into a running summary and drop them from state
+async function summarizeConversation(state: AgentState, model: BaseChatModel): Promise<Partial<AgentState>> {
+  const recent = await recentHistory(state.messages);
+  const older = state.messages.slice(0, state.messages.length - recent.length);
+  if (older.length === 0) return {};
+
+  const response = await model.invoke([
+    new SystemMessage(
+      "Summarize this conversation between a user and an Arbitrum wallet assistant. Keep addresses, token symbols, amounts and transaction hashes verbatim."
+    ),
+    new HumanMessage(
+      `${state.summary ? `Summary so far:\n${state.summary}\n\n` : ""}New messages:\n${getBufferString(older)}`
+    ),
+  ]);
+  log.info(`Summarized ${older.length} messages`);
+  return {
+    summary: typeof response.content === "string" ? response.content : JSON.stringify(response.content),
+    messages: older.map((message) => new RemoveMessage({ id: message.id! })),
+  };
+}
+
+// Model and checkpointer can be swapped, e.g. for a scripted model against a local devnode
+export interface AgentOptions {
+  model?: BaseChatModel;
+  checkpointer?: BaseCheckpointSaver;
+}
+
+// Build the tool set and compiled graph for one session's BlockchainTools
+export function createAgent(blockchainTools: BlockchainTools, options: AgentOptions = {}) {
+  const tools = createTools(blockchainTools);
+  const model = options.model ?? createChatModel();
+  if (!model.bindTools) throw new Error("The chat model does not support tool calling");
+
+  // Named apart from the "tools" node below so its start is not announced twice
+  const toolNode = new ToolNode(tools, { name: "executeTools" });
+  const modelWithTools = model.bindTools(tools);
+  const confirmableTools = new Map<string, ConfirmableTool>();
+  const simulatedTools = new Map<string, StructuredTool>();
+  for (const tool of tools) {
+    if (!(tool instanceof ConfirmableTool)) continue;
+    confirmableTools.set(tool.name, tool);
+    simulatedTools.set(tool.name, simulatedTool(blockchainTools, tool));
+  }
+
+  // Write calls that only get simulated, because the model asked for it or the dashboard is in simulation mode
+  function isSimulated(call: ToolCall): boolean {
+    return confirmableTools.has(call.name) && (blockchainTools.isSimulationMode() || call.args.simulate === true);
+  }
+
+  function shouldContinue(state: AgentState): string {
+    const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+    const toolCalls = lastMessage.tool_calls ?? [];
+    if (toolCalls.length === 0) return END;
+    return toolCalls.some((call) => confirmableTools.has(call.name) && !isSimulated(call)) ? "preview" : "tools";
+  }
+
+  // Dry runs go one at a time (each discards the requests it queued), the rest through the ToolNode
+  async function runTools(state: AgentState, config: LangGraphRunnableConfig): Promise<Partial<AgentState>> {
+    const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+    const toolCalls = lastMessage.tool_calls ?? [];
+    // Approved calls keep the mode they were previewed under, even if the dashboard toggle changed meanwhile
+    const approved = new Map(state.pendingActions.map((action) => [action.toolCallId, action]));
+    const simulated = (call: ToolCall) => approved.get(call.id!)?.simulationMode ?? isSimulated(call);
+    const messages: BaseMessage[] = [];
+    for (const call of toolCalls.filter(simulated)) {
+      try {
+        messages.push(await simulatedTools.get(call.name)!.invoke({ ...call, type: "tool_call" }, config));
+      } catch (error) {
+        const content = `Error: ${describeFailure(error)}`;
+        messages.push(new ToolMessage({ tool_call_id: call.id!, name: call.name, content }));
+      }
+    }
+    const realCalls = toolCalls.filter((call) => !simulated(call));
+    if (realCalls.length > 0) {
+      const result = await toolNode.invoke({ messages: [new AIMessage({ content: "", tool_calls: realCalls })] }, config);
+      messages.push(...result.messages);
+    }
+    return { messages, pendingActions: [] };
+  }
+
+  // Preview every state-changing call once; its RPC reads are not repeated when the graph resumes
+  async function previewActions(state: AgentState): Promise<Partial<AgentState>> {
+    const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+    const pendingActions: PendingAction[] = [];
+    for (const call of lastMessage.tool_calls ?? []) {
+      const tool = confirmableTools.get(call.name);
+      if (tool && !isSimulated(call)) {
+        pendingActions.push({
+          toolCallId: call.id!,
+          tool: call.name,
+          network: blockchainTools.getNetwork().name,
+          simulationMode: blockchainTools.isSimulationMode(),
+          ...(await tool.preview(call.args)),
+        });
+      }
+    }
+    return { pendingActions };
+  }
+
+  // Pause the graph with the stored previews until the user approves or cancels
+  function confirmActions(state: AgentState) {
+    const lastMessage = state.messages[state.messages.length - 1] as AIMessage;
+    const toolCalls = lastMessage.tool_calls ?? [];
+    const { pendingActions } = state;
+
+    const decision = interrupt<PendingAction[], { approved: boolean }>(pendingActions);
+    // The approved previews stay in the state until the tools node has run them
+    if (decision.approved) return new Command({ goto: "tools" });
+
+    log.info(`User cancelled ${pendingActions.map((action) => action.tool).join(", ")}`);
+    return new Command({
+      goto: "agent",
+      update: {
+        pendingActions: [],
+        messages: toolCalls.map(
+          (call) =>
+            new ToolMessage({ tool_call_id: call.id!, name: call.name, content: "The user cancelled this action." })
+        ),
+      },
+    });
+  }
+
+  // Agent logic
+  async function callAgent(state: AgentState): Promise<Partial<AgentState>> {
+    const network = blockchainTools.getNetwork();
+    const systemMessage = new SystemMessage(
+      `You are an AI assistant that helps users interact with Arbitrum. This session is on ${network.name} (chain ID ${network.chainId}, ${network.testnet ? "testnet" : "mainnet"}); use switchNetwork when the user asks for another network. Use the provided tools to assist the user. The user's wallet is connected in their browser: transfers, deployments and signatures are prepared as requests that the user approves in their wallet, so never ask for a private key. When a transaction fails, relay the plain-language explanation and suggested next step from the tool result rather than raw error codes.${
+        blockchainTools.isSimulationMode()
+          ? " Simulation mode is on: write tools are only simulated and nothing reaches the wallet, so present their results as a dry run."
+          : ""
+      }`
+    );
+    const history = await recentHistory(state.messages);
+    const summaryMessages = state.summary
+      ? [new SystemMessage(`Summary of the earlier conversation:\n${state.summary}`)]
+      : [];
+    const messagesWithSystem = [systemMessage, ...summaryMessages, ...history];
+    const response = await modelWithTools.invoke(messagesWithSystem);
+    return { messages: [response] };
+  }
+
+  // Define workflow
+  const workflow = new StateGraph<AgentState>({
+    channels: {
+      messages: {
+        reducer: messagesStateReducer,
+        default: () => [],
+      },
+      summary: {
+        reducer: (x?: string, y?: string) => y ?? x ?? "",
+        default: () => "",
+      },
+      pendingActions: {
+        reducer: (x: PendingAction[], y?: PendingAction[]) => y ?? x,
+        default: () => [],
+      },
+    },
+  })
+    .addNode("summarize", (state: AgentState) => summarizeConversation(state, model))
+    .addNode("agent", callAgent)
+    .addNode("preview", previewActions)
+    .addNode("confirm", confirmActions, { ends: ["tools", "agent"] })
+    .addNode("tools", runTools)
+    .addConditionalEdges("__start__", shouldSummarize, ["summarize", "agent"])
+    .addEdge("summarize", "agent")
+    .addEdge("preview", "confirm")
+    .addEdge("tools", "agent")
+    .addConditionalEdges("agent", shouldContinue, ["preview", "tools", END]);
+
+  return workflow.compile({ checkpointer: options.checkpointer ?? getCheckpointer() });
+}
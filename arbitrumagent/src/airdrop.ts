@@ -0,0 +1,264 @@
+import { randomUUID } from "crypto";
+import { ethers } from "ethers";
+import { BlockchainTools } from "./blockchainTools";
+import { describeFailure } from "./errors";
+import { AirdropRecord, AirdropRow, ERC20_ABI, TokenRecord } from "./tokens";
+
+// Every row becomes its own wallet signature, so larger lists should be split into several files
+export const AIRDROP_MAX_ROWS = 500;
+
+export type AirdropFormat = "csv" | "json";
+
+// Row as read from the file, before validation
+type AirdropInput = Pick<AirdropRow, "row" | "type" | "to" | "amount" | "token">;
+
+const COLUMNS = ["type", "to", "amount", "token"];
+
+// Split one CSV line on commas, honouring double-quoted fields
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted && char === '"' && line[i + 1] === '"') {
+      cell += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === "," && !quoted) {
+      cells.push(cell);
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells.map((value) => value.trim());
+}
+
+// type,to,amount,token columns; a header row may reorder them or leave out type and token
+function parseCsv(content: string): AirdropInput[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line.length > 0 && !line.startsWith("#"));
+  let columns = COLUMNS;
+  if (lines.length > 0) {
+    const header = splitCsvLine(lines[0].line).map((cell) => cell.toLowerCase());
+    if (header.includes("to") && header.includes("amount")) {
+      columns = header;
+      lines.shift();
+    }
+  }
+  return lines.map(({ line, number }) => {
+    const cells = splitCsvLine(line);
+    const value = (column: string) => (columns.includes(column) ? cells[columns.indexOf(column)] ?? "" : "");
+    return { row: number, type: value("type"), to: value("to"), amount: value("amount"), token: value("token") || undefined };
+  });
+}
+
+// An array of { type, to, amount, token } objects
+function parseJson(content: string): AirdropInput[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`The file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(parsed)) throw new Error("The JSON file must hold an array of { type, to, amount, token } objects");
+  return parsed.map((item, index) => {
+    const fields = typeof item === "object" && item !== null ? (item as Record<string, unknown>) : {};
+    const value = (column: string) => (fields[column] === undefined || fields[column] === null ? "" : String(fields[column]).trim());
+    return { row: index + 1, type: value("type"), to: value("to"), amount: value("amount"), token: value("token") || undefined };
+  });
+}
+
+export function parseAirdropFile(content: string, format: AirdropFormat): AirdropInput[] {
+  const rows = format === "json" ? parseJson(content) : parseCsv(content);
+  if (rows.length === 0) throw new Error("The file has no rows");
+  if (rows.length > AIRDROP_MAX_ROWS) {
+    throw new Error(`The file has ${rows.length} rows; split it into files of at most ${AIRDROP_MAX_ROWS}`);
+  }
+  return rows;
+}
+
+// Why a row cannot be sent, if it cannot; canonicalizes the token symbol on the way
+function checkRow(row: AirdropRow, findToken: (symbol: string) => TokenRecord | undefined): string | undefined {
+  if (row.type !== "ETH" && row.type !== "TOKEN") return `Unknown type ${row.type}; use ETH or TOKEN`;
+  if (!row.to) return "Missing recipient address";
+  // Mixed-case addresses carry an EIP-55 checksum; a mismatch usually means a typo
+  const lowercase = row.to.toLowerCase();
+  if (/^0x[0-9a-f]{40}$/.test(lowercase) && !ethers.isAddress(row.to)) {
+    return `Address checksum does not match (expected ${ethers.getAddress(lowercase)})`;
+  }
+  if (!ethers.isAddress(row.to)) return `Invalid address ${row.to}`;
+  if (ethers.getAddress(row.to) === ethers.ZeroAddress) return "Cannot send to the zero address";
+
+  let decimals = 18;
+  if (row.type === "TOKEN") {
+    if (!row.token) return "Missing token for a TOKEN row";
+    const token = findToken(row.token);
+    if (!token) return `Token ${row.token} not found; create it with createToken or add it with importToken first`;
+    row.token = token.symbol;
+    decimals = token.decimals;
+  }
+  if (!/^\d+(\.\d+)?$/.test(row.amount) || Number(row.amount) === 0) return `Invalid amount ${row.amount || "(empty)"}`;
+  try {
+    ethers.parseUnits(row.amount, decimals);
+  } catch {
+    return `Amount ${row.amount} has more than ${decimals} decimals`;
+  }
+  return undefined;
+}
+
+// Rows that cannot be sent (bad address or checksum, unknown token, duplicate recipient) are marked invalid
+export function validateAirdropRows(
+  inputs: AirdropInput[],
+  findToken: (symbol: string) => TokenRecord | undefined
+): AirdropRow[] {
+  const seen = new Map<string, number>();
+  return inputs.map((input) => {
+    const type = (input.type || (input.token ? "TOKEN" : "ETH")).toUpperCase();
+    const row: AirdropRow = { ...input, type, token: type === "ETH" ? undefined : input.token, status: "pending" };
+    const error = checkRow(row, findToken);
+    if (error) return { ...row, status: "invalid", error };
+
+    row.to = ethers.getAddress(row.to);
+    const asset = row.token ?? "ETH";
+    const key = `${asset}:${row.to}`;
+    const first = seen.get(key);
+    if (first !== undefined) {
+      return { ...row, status: "invalid", error: `Duplicate recipient: row ${first} already sends ${asset} to this address` };
+    }
+    seen.set(key, row.row);
+    return row;
+  });
+}
+
+// Parse and validate an uploaded file and save it for the connected account
+export function importAirdrop(
+  tools: BlockchainTools,
+  content: string,
+  format: AirdropFormat,
+  fileName: string
+): AirdropRecord {
+  const account = tools.getAccount();
+  if (!account) throw new Error("No wallet connected");
+  const now = new Date().toISOString();
+  const record: AirdropRecord = {
+    id: randomUUID().slice(0, 8),
+    owner: account,
+    chainId: tools.getNetwork().chainId,
+    fileName,
+    rows: validateAirdropRows(parseAirdropFile(content, format), (symbol) => tools.findToken(symbol)),
+    createdAt: now,
+    updatedAt: now,
+  };
+  tools.saveAirdrop(record);
+  return record;
+}
+
+// Sum of the rows per asset ("ETH" or token symbol), in base units
+export function airdropTotals(tools: BlockchainTools, rows: AirdropRow[]): Map<string, bigint> {
+  const totals = new Map<string, bigint>();
+  for (const row of rows) {
+    const asset = row.token ?? "ETH";
+    const decimals = row.token ? tools.findToken(row.token)?.decimals ?? 18 : 18;
+    totals.set(asset, (totals.get(asset) ?? 0n) + ethers.parseUnits(row.amount, decimals));
+  }
+  return totals;
+}
+
+export function formatAirdropTotals(tools: BlockchainTools, rows: AirdropRow[]): string {
+  return [...airdropTotals(tools, rows)]
+    .map(([asset, total]) => {
+      const decimals = asset === "ETH" ? 18 : tools.findToken(asset)?.decimals ?? 18;
+      return `${ethers.formatUnits(total, decimals)} ${asset}`;
+    })
+    .join(", ");
+}
+
+// One message per asset the wallet holds too little of; ETH also covers the estimated network fees
+export async function checkAirdropBalance(tools: BlockchainTools, rows: AirdropRow[]): Promise<string[]> {
+  const account = tools.getAccount();
+  if (!account) return ["No wallet connected"];
+  const provider = tools.getProvider();
+  const problems: string[] = [];
+
+  // Fee of the first row of each asset, times the number of rows sending it
+  let fees = 0n;
+  const counts = new Map<string, { row: AirdropRow; count: bigint }>();
+  for (const row of rows) {
+    const entry = counts.get(row.token ?? "ETH") ?? { row, count: 0n };
+    entry.count++;
+    counts.set(row.token ?? "ETH", entry);
+  }
+  for (const { row, count } of counts.values()) {
+    try {
+      const { fee } = await tools.estimateCost(tools.buildTransfer(row.to, row.amount, row.token ? tools.findToken(row.token) : undefined));
+      fees += fee * count;
+    } catch {
+      // Reverts when the balance is already too low, which the check below reports
+    }
+  }
+
+  for (const [asset, total] of airdropTotals(tools, rows)) {
+    if (asset === "ETH") continue;
+    const token = tools.findToken(asset);
+    if (!token) {
+      // Rows are checked against the token list on import; the token may be gone since, e.g. on another network
+      problems.push(`Unknown token ${asset}: import it with importToken before sending`);
+      continue;
+    }
+    let balance: bigint;
+    try {
+      balance = await new ethers.Contract(token.address, ERC20_ABI, provider).balanceOf(account);
+    } catch (error) {
+      problems.push(`Could not check the ${asset} balance: ${describeFailure(error)}`);
+      continue;
+    }
+    if (balance < total) {
+      problems.push(
+        `Needs ${ethers.formatUnits(total, token.decimals)} ${asset} but the wallet holds ${ethers.formatUnits(balance, token.decimals)} ${asset}`
+      );
+    }
+  }
+  const ethNeeded = (airdropTotals(tools, rows).get("ETH") ?? 0n) + fees;
+  let ethBalance: bigint;
+  try {
+    ethBalance = await provider.getBalance(account);
+  } catch (error) {
+    problems.push(`Could not check the ETH balance: ${describeFailure(error)}`);
+    return problems;
+  }
+  if (ethBalance < ethNeeded) {
+    problems.push(
+      `Needs ${ethers.formatEther(ethNeeded)} ETH including about ${ethers.formatEther(fees)} ETH in network fees, but the wallet holds ${ethers.formatEther(ethBalance)} ETH`
+    );
+  }
+  return problems;
+}
+
+const STATUS_ORDER: AirdropRow["status"][] = ["confirmed", "sent", "queued", "pending", "failed", "unknown", "invalid"];
+
+// e.g. "holders.csv: 20 confirmed, 80 pending, 2 invalid (102 rows)"
+export function describeAirdropProgress(record: AirdropRecord): string {
+  const counts = STATUS_ORDER.map((status) => [status, record.rows.filter((row) => row.status === status).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+  return `${record.fileName}: ${counts.join(", ")} (${record.rows.length} rows)`;
+}
+
+// Per-row result report, downloadable from the dashboard
+export function formatAirdropReport(record: AirdropRecord): string {
+  const escape = (cell = "") => {
+    // Rows come from the uploaded file; keep spreadsheets from running a cell like "=HYPERLINK(...)" as a formula
+    const value = /^[=+\-@]/.test(cell) ? `'${cell}` : cell;
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  };
+  const lines = record.rows.map((row) =>
+    [String(row.row), row.type, row.to, row.amount, row.token, row.status, row.txHash, row.error].map(escape).join(",")
+  );
+  return [["row", "type", "to", "amount", "token", "status", "txHash", "error"].join(","), ...lines].join("\n") + "\n";
+}
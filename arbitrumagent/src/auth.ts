@@ -0,0 +1,37 @@
+import { randomUUID } from "crypto";
+import { ethers } from "ethers";
+
+// A challenge has to be signed within this time
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// One-time message a wallet signs to prove the session may act for it
+export interface WalletChallenge {
+  address: string;
+  message: string;
+  expiresAt: number;
+}
+
+export function createChallenge(address: string): WalletChallenge {
+  const issuedAt = new Date();
+  return {
+    address,
+    message: [
+      `Sign in to Averix with ${address}.`,
+      "This proves you own the wallet. It sends no transaction and costs no gas.",
+      `Nonce: ${randomUUID()}`,
+      `Issued at: ${issuedAt.toISOString()}`,
+    ].join("\n\n"),
+    expiresAt: issuedAt.getTime() + CHALLENGE_TTL_MS,
+  };
+}
+
+// Whether the challenge was signed by its wallet before it expired
+export function verifyChallenge(challenge: WalletChallenge, signature: string): boolean {
+  if (Date.now() > challenge.expiresAt) return false;
+  try {
+    return ethers.verifyMessage(challenge.message, signature) === challenge.address;
+  } catch {
+    // Not a signature at all
+    return false;
+  }
+}
@@ -0,0 +1,658 @@
+import { randomUUID } from "crypto";
+import { ethers } from "ethers";
+import { log } from "./config";
+import { defaultFeePolicy, FeePolicy, FeeSpeed, formatGwei, getBaseFee, quoteFees } from "./fees";
+import { createHistorySource, HistorySource } from "./history";
+import { getDefaultNetwork, NetworkConfig } from "./networks";
+import { getNonceManager, isNonceError, NonceManager } from "./nonces";
+import { getPendingTracker, PendingTransactionTracker, SettledHandler, TrackedTransaction } from "./pendingTransactions";
+import { getTemplate } from "./templates";
+import {
+  AirdropRecord,
+  AirdropRow,
+  ContractRecord,
+  ERC20_ABI,
+  ERC721_ABI,
+  getTokenRegistry,
+  NftCollectionRecord,
+  TokenRecord,
+  TokenRegistry,
+} from "./tokens";
+import {
+  buildVerificationRequest,
+  createVerificationClient,
+  VerificationClient,
+  VerificationStatus,
+  verifyContract,
+} from "./verification";
+
+// Unsigned request prepared by a tool and handed to the user's browser wallet for signing
+export interface SigningRequest {
+  id: string;
+  kind:
+    | "transferTokens"
+    | "createToken"
+    | "batchMixedTransfer"
+    | "signMessage"
+    | "approveToken"
+    | "revokeAllowance"
+    | "transferFromToken"
+    | "burnToken"
+    | "mintToken"
+    | "pauseToken"
+    | "transferOwnership"
+    | "createNftCollection"
+    | "mintNft"
+    | "transferNft"
+    | "writeContract"
+    | "deployDisperse"
+    | "airdropTransfer"
+    | "cancelTransaction";
+  description: string;
+  transaction?: {
+    from: string;
+    to?: string;
+    data?: string;
+    value?: string;
+    chainId: number;
+    // Reserved right before the wallet signs (see nonces.ts); replacements reuse the nonce of the transaction they replace
+    nonce?: number;
+    // Set from the session's fee policy when the request is handed to the wallet (see fees.ts)
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+  };
+  // Fee policy applied to the transaction; amounts in wei
+  fee?: { speed: FeeSpeed; baseFee: string; maxFeePerGas: string; capped: boolean; gas?: string; maxCost?: string };
+  // Waiting for the base fee to drop to the policy's waitBelow before it goes to the wallet
+  held?: boolean;
+  message?: string;
+  token?: { name: string; symbol: string; address?: string; template?: string; verify?: boolean };
+  // Airdrop row this transfer sends (see airdrop.ts)
+  airdrop?: { id: string; row: number };
+  // Pending transaction this one speeds up or cancels (see pendingTransactions.ts)
+  replaces?: { hash: string; action: "speedUp" | "cancel" };
+}
+
+// Live allowance the connected account has granted a spender on one of its tokens
+export interface TokenAllowance {
+  symbol: string;
+  tokenAddress: string;
+  spender: string;
+  amount: string;
+  unlimited: boolean;
+}
+
+// Live allowances; partial when the Approval search did not cover the whole chain (see ApprovalScan)
+export interface AllowanceScan {
+  allowances: TokenAllowance[];
+  partial: boolean;
+  fromBlock?: number;
+}
+
+// Blockchain tools (one instance per session, see SessionStore)
+// Requests handed out and not reported on yet, across all sessions: request ID -> wallet. Another tab of the same
+// wallet can tell them apart from requests whose tab or session is gone.
+const awaitingWallet = new Map<string, string>();
+
+export class BlockchainTools {
+  private network: NetworkConfig;
+  private provider: ethers.JsonRpcProvider;
+  // Address of the user's Privy wallet; keys never leave the browser
+  private account: string | null = null;
+  private requests = new Map<string, SigningRequest>();
+  private queued: SigningRequest[] = [];
+  // Requests waiting for lower gas, released by releaseHeldRequests
+  private held: SigningRequest[] = [];
+  private feePolicy: FeePolicy = defaultFeePolicy();
+  private history: HistorySource;
+  private verifier: VerificationClient | undefined;
+  // Token addresses with a verification still being polled
+  private verifying = new Set<string>();
+  // Dashboard toggle: every write tool call becomes a dry run (see simulation.ts)
+  private simulationMode = false;
+  // Broadcast transactions of this session the background watcher has not settled yet
+  private watching = 0;
+
+  constructor(
+    network: NetworkConfig = getDefaultNetwork(),
+    private registry: TokenRegistry = getTokenRegistry(),
+    private tracker: PendingTransactionTracker = getPendingTracker(),
+    private nonces: NonceManager = getNonceManager()
+  ) {
+    this.network = network;
+    // No response cache: the pending-transaction tracker re-reads a receipt right after a nonce count
+    this.provider = new ethers.JsonRpcProvider(this.network.rpcUrl, this.network.chainId, { staticNetwork: true, cacheTimeout: -1 });
+    this.history = createHistorySource(this.network, this.provider);
+    this.verifier = createVerificationClient(this.network);
+  }
+
+  getNetwork(): NetworkConfig {
+    return this.network;
+  }
+
+  // Requests already handed to the wallet are bound to the old chain, so switching waits for them
+  setNetwork(network: NetworkConfig): void {
+    if (this.requests.size > 0) {
+      throw new Error("Finish or reject the pending wallet requests before switching networks");
+    }
+    // Their follow-up (token registration, airdrop rows) reads the old chain through this session
+    if (this.watching > 0) {
+      throw new Error("Wait until the broadcast transactions are confirmed (see getTransactionStatus) before switching networks");
+    }
+    this.network = network;
+    this.provider.destroy();
+    this.provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true, cacheTimeout: -1 });
+    this.history = createHistorySource(network, this.provider);
+    this.verifier = createVerificationClient(network);
+    log.info(`Session switched to ${network.name} (${network.chainId})`);
+  }
+
+  // Explorer URL for a tx or address, or the bare value on networks without an explorer
+  explorerLink(kind: "tx" | "address", value: string): string {
+    return this.network.explorerUrl ? `${this.network.explorerUrl}/${kind}/${value}` : value;
+  }
+
+  getProvider(): ethers.JsonRpcProvider {
+    return this.provider;
+  }
+
+  getHistorySource(): HistorySource {
+    return this.history;
+  }
+
+  getVerificationClient(): VerificationClient | undefined {
+    return this.verifier;
+  }
+
+  setVerificationClient(client: VerificationClient | undefined): void {
+    this.verifier = client;
+  }
+
+  isVerifying(address: string): boolean {
+    return this.verifying.has(address.toLowerCase());
+  }
+
+  isSimulationMode(): boolean {
+    return this.simulationMode;
+  }
+
+  setSimulationMode(enabled: boolean): void {
+    if (this.simulationMode === enabled) return;
+    this.simulationMode = enabled;
+    log.info(`Simulation mode ${enabled ? "on" : "off"}`);
+  }
+
+  getFeePolicy(): FeePolicy {
+    return this.feePolicy;
+  }
+
+  setFeePolicy(policy: FeePolicy): void {
+    this.feePolicy = policy;
+    log.info(`Fee policy set to ${policy.speed}`);
+  }
+
+  getAccount(): string | null {
+    return this.account;
+  }
+
+  setAccount(address: string): void {
+    if (this.account === address) return;
+    this.account = address;
+    log.info(`Account set to address: ${address}`);
+  }
+
+  clearAccount(): void {
+    this.account = null;
+    for (const id of this.requests.keys()) awaitingWallet.delete(id);
+    this.requests.clear();
+    this.queued = [];
+    this.held = [];
+    log.info("Account cleared from session");
+  }
+
+  // Registry tokens belong to the connected account on the session's network
+  getTokens(): TokenRecord[] {
+    return this.account ? this.registry.list(this.account, this.network.chainId) : [];
+  }
+
+  findToken(symbol: string): TokenRecord | undefined {
+    return this.account ? this.registry.find(this.account, this.network.chainId, symbol) : undefined;
+  }
+
+  getTokenAddress(symbol: string): string | undefined {
+    return this.findToken(symbol)?.address;
+  }
+
+  getCollections(): NftCollectionRecord[] {
+    return this.account ? this.registry.listCollections(this.account, this.network.chainId) : [];
+  }
+
+  findCollection(symbol: string): NftCollectionRecord | undefined {
+    return this.account ? this.registry.findCollection(this.account, this.network.chainId, symbol) : undefined;
+  }
+
+  getContracts(): ContractRecord[] {
+    return this.account ? this.registry.listContracts(this.account, this.network.chainId) : [];
+  }
+
+  findContract(query: string): ContractRecord | undefined {
+    return this.account ? this.registry.findContract(this.account, this.network.chainId, query) : undefined;
+  }
+
+  // Store a contract and its ABI for the connected account; there must be code at the address
+  async registerContract(name: string, address: string, iface: ethers.Interface): Promise<ContractRecord> {
+    if (!this.account) throw new Error("No wallet connected");
+    const code = await this.provider.getCode(address);
+    if (code === "0x") throw new Error(`No contract deployed at ${address} on ${this.network.name}`);
+    const record: ContractRecord = {
+      owner: this.account,
+      chainId: this.network.chainId,
+      address: ethers.getAddress(address),
+      name,
+      abi: iface.format(),
+      addedAt: new Date().toISOString(),
+    };
+    this.registry.saveContract(record);
+    return record;
+  }
+
+  getAirdrops(): AirdropRecord[] {
+    return this.account ? this.registry.listAirdrops(this.account, this.network.chainId) : [];
+  }
+
+  findAirdrop(id: string): AirdropRecord | undefined {
+    return this.account ? this.registry.findAirdrop(this.account, this.network.chainId, id.trim()) : undefined;
+  }
+
+  saveAirdrop(record: AirdropRecord): void {
+    this.registry.saveAirdrop({ ...record, updatedAt: new Date().toISOString() });
+  }
+
+  // Record what happened to one row once the wallet reported back
+  updateAirdropRow(id: string, row: number, changes: Partial<AirdropRow>): AirdropRecord | undefined {
+    const record = this.findAirdrop(id);
+    if (!record) return undefined;
+    const updated = { ...record, rows: record.rows.map((entry) => (entry.row === row ? { ...entry, ...changes } : entry)) };
+    this.saveAirdrop(updated);
+    return updated;
+  }
+
+  // Address of a shared helper contract on the session's network, if it was deployed and still has code
+  async getDeployment(contract: string): Promise<string | undefined> {
+    const record = this.registry.findDeployment(this.network.chainId, contract);
+    if (!record) return undefined;
+    // Local devnodes are often reset, leaving a stale address behind
+    const code = await this.provider.getCode(record.address);
+    return code === "0x" ? undefined : record.address;
+  }
+
+  registerDeployment(contract: string, address: string, origin: { deployer?: string; deployTx?: string } = {}): void {
+    this.registry.saveDeployment({
+      chainId: this.network.chainId,
+      contract,
+      address: ethers.getAddress(address),
+      ...origin,
+      addedAt: new Date().toISOString(),
+    });
+    log.info(`${contract} deployed on ${this.network.name} at ${address}`);
+  }
+
+  // Read name/symbol/decimals on-chain and store the token for the given owner
+  async registerToken(
+    owner: string,
+    address: string,
+    origin: { template?: string; deployer?: string; deployTx?: string } = {}
+  ): Promise<TokenRecord> {
+    const contract = new ethers.Contract(address, ERC20_ABI, this.provider);
+    const [name, symbol, decimals, totalSupply] = await Promise.all([
+      contract.name(),
+      contract.symbol(),
+      contract.decimals(),
+      contract.totalSupply(),
+    ]);
+    const record: TokenRecord = {
+      owner,
+      chainId: this.network.chainId,
+      address: ethers.getAddress(address),
+      name,
+      symbol,
+      decimals: Number(decimals),
+      initialSupply: totalSupply.toString(),
+      ...origin,
+      addedAt: new Date().toISOString(),
+    };
+    this.registry.save(record);
+    return record;
+  }
+
+  // Submit a template token's source to the explorer and poll until it answers; the result is saved on the record.
+  // Constructor arguments are recovered from the deployment transaction, so this also works after a restart.
+  async verifyToken(token: TokenRecord): Promise<VerificationStatus> {
+    const client = this.verifier;
+    if (!client) throw new Error(`${this.network.name} has no contract verification API`);
+    const template = token.template ? getTemplate(token.template) : undefined;
+    const deployTx = token.deployTx;
+    if (!template || !deployTx) throw new Error(`${token.symbol} was not deployed by Averix, so its source is unknown`);
+
+    const key = token.address.toLowerCase();
+    const save = (status: VerificationStatus) =>
+      this.registry.save({ ...token, verification: { ...status, updatedAt: new Date().toISOString() } });
+    this.verifying.add(key);
+    try {
+      save({ state: "pending", message: "Submitted to the explorer" });
+      const deployment = await this.provider.getTransaction(deployTx);
+      if (!deployment) throw new Error(`Deployment transaction ${deployTx} not found`);
+      const status = await verifyContract(client, buildVerificationRequest(template.artifact, token.address, deployment.data));
+      save(status);
+      log.info(`Verification of ${token.symbol} at ${token.address}: ${status.state} (${status.message})`);
+      return status;
+    } catch (error) {
+      save({ state: "failed", message: error instanceof Error ? error.message : String(error) });
+      throw error;
+    } finally {
+      this.verifying.delete(key);
+    }
+  }
+
+  // Read the collection settings on-chain and store it for the given owner
+  async registerCollection(
+    owner: string,
+    address: string,
+    origin: { deployer?: string; deployTx?: string } = {}
+  ): Promise<NftCollectionRecord> {
+    const contract = new ethers.Contract(address, ERC721_ABI, this.provider);
+    const [name, symbol, baseURI, maxSupply] = await Promise.all([
+      contract.name(),
+      contract.symbol(),
+      contract.baseURI(),
+      contract.maxSupply(),
+    ]);
+    const record: NftCollectionRecord = {
+      owner,
+      chainId: this.network.chainId,
+      address: ethers.getAddress(address),
+      name,
+      symbol,
+      baseURI,
+      maxSupply: maxSupply.toString(),
+      ...origin,
+      addedAt: new Date().toISOString(),
+    };
+    this.registry.saveCollection(record);
+    return record;
+  }
+
+  // Token ids minted by the receipt, read from the collection's Transfer events
+  describeNftMint(collectionAddress: string, receipt: ethers.TransactionReceipt): string {
+    const collection = this.getCollections().find(
+      (record) => record.address.toLowerCase() === collectionAddress.toLowerCase()
+    );
+    const contract = new ethers.Contract(collectionAddress, ERC721_ABI, this.provider);
+    const minted: string[] = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== collectionAddress.toLowerCase()) continue;
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "Transfer" && parsed.args.from === ethers.ZeroAddress) {
+        minted.push(`#${parsed.args.tokenId} to ${parsed.args.to}`);
+      }
+    }
+    return `Minted ${collection?.symbol ?? collectionAddress} ${minted.join(", ")}`;
+  }
+
+  // Burned amount from the receipt's Burn events, plus the supply and burner balance once it is mined
+  async describeBurn(tokenAddress: string, receipt: ethers.TransactionReceipt): Promise<string> {
+    const token = this.getTokens().find((record) => record.address.toLowerCase() === tokenAddress.toLowerCase());
+    const decimals = token?.decimals ?? 0;
+    const symbol = token?.symbol ?? tokenAddress;
+    const contract = new ethers.Contract(tokenAddress, ERC20_ABI, this.provider);
+    let burned = 0n;
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== tokenAddress.toLowerCase()) continue;
+      const parsed = contract.interface.parseLog(log);
+      if (parsed?.name === "Burn") burned += parsed.args.value as bigint;
+    }
+    // Read at the receipt's block so later transfers do not skew the numbers
+    const blockTag = receipt.blockNumber;
+    const [totalSupply, balance]: [bigint, bigint] = await Promise.all([
+      contract.totalSupply({ blockTag }),
+      contract.balanceOf(receipt.from, { blockTag }),
+    ]);
+    return `Burned ${ethers.formatUnits(burned, decimals)} ${symbol}. New total supply: ${ethers.formatUnits(totalSupply, decimals)} ${symbol}, your balance: ${ethers.formatUnits(balance, decimals)} ${symbol}`;
+  }
+
+  // Spenders come from past Approval events; only allowances that are still non-zero are returned
+  async getAllowances(): Promise<AllowanceScan> {
+    const account = this.account;
+    const tokens = this.getTokens();
+    if (!account || tokens.length === 0) return { allowances: [], partial: false };
+
+    const { approvals, partial, fromBlock } = await this.history.getApprovals(
+      account,
+      tokens.map((token) => token.address)
+    );
+    const allowances: TokenAllowance[] = [];
+    for (const { token: tokenAddress, spender } of approvals) {
+      const token = tokens.find((record) => record.address.toLowerCase() === tokenAddress.toLowerCase());
+      if (!token) continue;
+      const contract = new ethers.Contract(token.address, ERC20_ABI, this.provider);
+      const allowance: bigint = await contract.allowance(account, spender);
+      if (allowance === 0n) continue;
+      allowances.push({
+        symbol: token.symbol,
+        tokenAddress: token.address,
+        spender,
+        amount: ethers.formatUnits(allowance, token.decimals),
+        unlimited: allowance === ethers.MaxUint256,
+      });
+    }
+    return { allowances, partial, fromBlock };
+  }
+
+  // Build a transaction request from the session account on the session's network
+  buildTransaction(fields: { to?: string; data?: string; value?: bigint }): NonNullable<SigningRequest["transaction"]> {
+    if (!this.account) throw new Error("No wallet connected");
+    return {
+      from: this.account,
+      to: fields.to,
+      data: fields.data,
+      value: fields.value !== undefined ? ethers.toQuantity(fields.value) : undefined,
+      chainId: this.network.chainId,
+    };
+  }
+
+  // Plain ETH transfer, or an ERC-20 transfer of a registry token; the amount is in whole units
+  buildTransfer(to: string, amount: string, token?: TokenRecord): NonNullable<SigningRequest["transaction"]> {
+    if (!token) return this.buildTransaction({ to, value: ethers.parseEther(amount) });
+    return this.buildTransaction({
+      to: token.address,
+      data: new ethers.Interface(ERC20_ABI).encodeFunctionData("transfer", [to, ethers.parseUnits(amount, token.decimals)]),
+    });
+  }
+
+  // Gas units and worst-case fee (in wei) under the session's fee policy for a transaction from the session account
+  async estimateCost(transaction: NonNullable<SigningRequest["transaction"]>): Promise<{ gas: bigint; fee: bigint }> {
+    const [gas, quote] = await Promise.all([this.provider.estimateGas(transaction), quoteFees(this.provider, this.feePolicy)]);
+    return { gas, fee: gas * quote.maxFeePerGas };
+  }
+
+  // Fill in the fee fields from the policy; the gas estimate is skipped when the call cannot run yet (e.g. before an approval).
+  // Replacements arrive with fees already set by their tool.
+  private async applyFeePolicy(request: SigningRequest): Promise<void> {
+    const transaction = request.transaction;
+    if (!transaction) return;
+    if (!request.fee) {
+      const quote = await quoteFees(this.provider, this.feePolicy);
+      transaction.maxFeePerGas = ethers.toQuantity(quote.maxFeePerGas);
+      transaction.maxPriorityFeePerGas = ethers.toQuantity(quote.maxPriorityFeePerGas);
+      request.fee = {
+        speed: quote.speed,
+        baseFee: quote.baseFee.toString(),
+        maxFeePerGas: quote.maxFeePerGas.toString(),
+        capped: quote.capped,
+      };
+    }
+    const gas = await this.provider.estimateGas(transaction).catch(() => undefined);
+    if (gas !== undefined) {
+      request.fee.gas = gas.toString();
+      request.fee.maxCost = (gas * BigInt(request.fee.maxFeePerGas)).toString();
+    }
+  }
+
+  // Transactions get their fees now, unless the policy waits for lower gas; then they are held back.
+  // Replacements are never held: they exist to get a stuck nonce through.
+  async queueRequest(request: Omit<SigningRequest, "id">): Promise<SigningRequest> {
+    const queued: SigningRequest = { ...request, id: randomUUID() };
+    const waitBelow = this.feePolicy.waitBelow;
+    if (
+      queued.transaction &&
+      !queued.replaces &&
+      waitBelow !== undefined &&
+      (await getBaseFee(this.provider)) > waitBelow
+    ) {
+      queued.held = true;
+    } else {
+      await this.applyFeePolicy(queued);
+    }
+    this.requests.set(queued.id, queued);
+    if (this.account) awaitingWallet.set(queued.id, this.account);
+    this.queued.push(queued);
+    return queued;
+  }
+
+  // Which fee a queued request got, for the tool's output
+  describeFee(request: SigningRequest): string {
+    if (request.held) {
+      return `Held until the base fee drops to ${formatGwei(this.feePolicy.waitBelow ?? 0n)}; it goes to the wallet then.`;
+    }
+    const fee = request.fee;
+    if (!fee) return "";
+    const cost = fee.maxCost ? `, at most ${ethers.formatEther(fee.maxCost)} ETH for ${fee.gas} gas` : "";
+    return `Fee: ${fee.speed}${fee.capped ? " (lowered to the session cap)" : ""}, max ${formatGwei(BigInt(fee.maxFeePerGas))} per gas at a base fee of ${formatGwei(BigInt(fee.baseFee))}${cost}.`;
+  }
+
+  // Requests prepared since the last call, to be returned to the browser; held ones stay behind
+  takeQueuedRequests(): SigningRequest[] {
+    const queued = this.queued;
+    this.queued = [];
+    this.held.push(...queued.filter((request) => request.held));
+    return queued.filter((request) => !request.held);
+  }
+
+  heldCount(): number {
+    return this.held.length;
+  }
+
+  // Held requests, once the base fee is low enough (or waiting was turned off), with fees applied
+  async releaseHeldRequests(): Promise<SigningRequest[]> {
+    if (this.held.length === 0) return [];
+    const waitBelow = this.feePolicy.waitBelow;
+    if (waitBelow !== undefined && (await getBaseFee(this.provider)) > waitBelow) return [];
+    // Throws (and keeps them held) while the session cap is below the base fee
+    await quoteFees(this.provider, this.feePolicy);
+    const released = this.held;
+    this.held = [];
+    for (const request of released) {
+      request.held = false;
+      await this.applyFeePolicy(request);
+    }
+    log.info(`Released ${released.length} held requests`);
+    return released;
+  }
+
+  queuedCount(): number {
+    return this.queued.length;
+  }
+
+  // Drop the requests queued after the first `from`, e.g. the ones a simulated call prepared
+  discardQueuedRequests(from: number): SigningRequest[] {
+    const discarded = this.queued.splice(from);
+    for (const request of discarded) {
+      this.requests.delete(request.id);
+      awaitingWallet.delete(request.id);
+    }
+    return discarded;
+  }
+
+  // Nonce for a request the wallet is about to sign, reserved so overlapping requests on the wallet never share one
+  async reserveNonce(id: string): Promise<number> {
+    const transaction = this.requests.get(id)?.transaction;
+    if (!transaction) throw new Error("Unknown transaction request");
+    if (transaction.nonce === undefined) {
+      transaction.nonce = await this.nonces.reserve(this.provider, transaction.from, transaction.chainId);
+      log.info(`Reserved nonce ${transaction.nonce} of ${transaction.from} for request ${id}`);
+    }
+    return transaction.nonce;
+  }
+
+  // The wallet's report on a request with a reserved nonce: broadcast, or an error that frees the nonce again.
+  // A nonce error means someone else used it, so the next reservation reads the chain afresh.
+  settleNonce(request: SigningRequest, error?: string): void {
+    const transaction = request.transaction;
+    // Replacements reuse a nonce that was settled with the original
+    if (!transaction || transaction.nonce === undefined || request.replaces) return;
+    if (error !== undefined && !isNonceError(error)) {
+      this.nonces.release(transaction.from, transaction.chainId, transaction.nonce);
+      return;
+    }
+    this.nonces.confirm(transaction.from, transaction.chainId, transaction.nonce);
+    if (error !== undefined) this.nonces.resync(transaction.from, transaction.chainId);
+  }
+
+  // Start following a transaction the wallet broadcast for one of this session's requests
+  async trackTransaction(request: SigningRequest, hash: string): Promise<TrackedTransaction> {
+    const tracked = await this.tracker.track(this.provider, request, hash, request.replaces?.hash);
+    log.info(`Tracking transaction ${hash} (nonce ${tracked.nonce ?? "unknown"}) for request ${request.id}`);
+    return tracked;
+  }
+
+  // Hand a broadcast transaction to the background watcher; onSettled runs once it is confirmed, failed, replaced or
+  // dropped
+  watchTransaction(tracked: TrackedTransaction, onSettled: SettledHandler): void {
+    this.watching++;
+    // Counted until onSettled is done, since it reads the chain through this session (and may watch again)
+    this.tracker.watch(this.network, tracked, (settled) => onSettled(settled).finally(() => this.watching--));
+  }
+
+  // Tracked transaction of the account by hash or by the ID of the request it was sent for, refreshed
+  async getTransactionStatus(id: string): Promise<TrackedTransaction | undefined> {
+    if (!this.account) return undefined;
+    const tracked =
+      this.tracker.find(this.account, this.network.chainId, id) ??
+      this.tracker.list(this.account, this.network.chainId).find((entry) => entry.request.id === id);
+    return tracked && this.tracker.refresh(this.provider, tracked);
+  }
+
+  refreshTransaction(tracked: TrackedTransaction): Promise<TrackedTransaction> {
+    return this.tracker.refresh(this.provider, tracked);
+  }
+
+  findTrackedTransaction(hash: string): TrackedTransaction | undefined {
+    if (!this.account) return undefined;
+    return this.tracker.find(this.account, this.network.chainId, hash);
+  }
+
+  // The account's tracked transactions on this network, refreshed, newest first
+  async getTrackedTransactions(): Promise<TrackedTransaction[]> {
+    if (!this.account) return [];
+    const tracked = this.tracker.list(this.account, this.network.chainId);
+    for (const entry of tracked) await this.tracker.refresh(this.provider, entry);
+    return tracked.reverse();
+  }
+
+  // Whether a request was handed out and the wallet has not reported on it yet
+  isPendingRequest(id: string): boolean {
+    return this.requests.has(id);
+  }
+
+  // Whether the connected wallet still has this request open in any session, e.g. in another tab
+  isAwaitingWallet(id: string): boolean {
+    return this.account !== null && awaitingWallet.get(id) === this.account;
+  }
+
+  completeRequest(id: string): SigningRequest | undefined {
+    const request = this.requests.get(id);
+    this.requests.delete(id);
+    awaitingWallet.delete(id);
+    return request;
+  }
+}
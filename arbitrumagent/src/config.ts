@@ -0,0 +1,32 @@
+import * as dotenv from "dotenv";
+import { Logger } from "tslog";
+
+dotenv.config();
+
+// Environment variables
+export const OPENAI_API_KEY = process.env.OPENAI_API_KEY || "";
+export const COINGECKO_API_KEY = process.env.COINGECKO_API_KEY || "";
+export const DEXSCREENER_API_KEY = process.env.DEXSCREENER_API_KEY || "";
+export const DEFAULT_NETWORK = process.env.DEFAULT_NETWORK || "arbitrum-sepolia";
+export const SESSION_TTL_MS = Number(process.env.SESSION_TTL_MINUTES || 30) * 60 * 1000;
+export const SESSION_HEADER = "x-session-id";
+export const SESSION_COOKIE = "averix_session";
+export const CHECKPOINT_FILE = process.env.CHECKPOINT_FILE || "";
+export const CHECKPOINTS_PER_THREAD = Number(process.env.CHECKPOINTS_PER_THREAD || 20);
+export const HISTORY_POLICY = (process.env.HISTORY_POLICY || "trim") as "trim" | "summarize";
+export const HISTORY_MAX_TOKENS = Number(process.env.HISTORY_MAX_TOKENS || 3000);
+export const TOKEN_REGISTRY_FILE = process.env.TOKEN_REGISTRY_FILE || "./data/tokens.json";
+export const ARBISCAN_API_KEY = process.env.ARBISCAN_API_KEY || "";
+export const HISTORY_SOURCE = (process.env.HISTORY_SOURCE || (ARBISCAN_API_KEY ? "arbiscan" : "blocks")) as "arbiscan" | "blocks";
+export const HISTORY_SCAN_BLOCKS = Number(process.env.HISTORY_SCAN_BLOCKS || 2000);
+export const VERIFICATION_API_URL = process.env.VERIFICATION_API_URL || "";
+export const VERIFICATION_POLL_MS = Number(process.env.VERIFICATION_POLL_MS || 5000);
+export const FEE_SPEED = process.env.FEE_SPEED || "normal";
+export const MAX_FEE_GWEI = process.env.MAX_FEE_GWEI || "";
+export const TX_CONFIRMATIONS = Math.max(1, Number(process.env.TX_CONFIRMATIONS || 1));
+export const TX_POLL_MS = Number(process.env.TX_POLL_MS || 4000);
+export const TX_DROP_TIMEOUT_MS = Number(process.env.TX_DROP_TIMEOUT_MS || 30 * 60 * 1000);
+export const AIRDROP_CHUNK_SIZE = Number(process.env.AIRDROP_CHUNK_SIZE || 20);
+
+// Logger setup
+export const log = new Logger({ name: "ArbitrumAgent" });
@@ -0,0 +1,288 @@
+import { ethers } from "ethers";
+import { describeRevert } from "./abi";
+import { isNonceError } from "./nonces";
+
+export type FailureKind =
+  | "rejected"
+  | "insufficientFunds"
+  | "nonce"
+  | "underpriced"
+  | "gas"
+  | "reverted"
+  | "network"
+  | "unknown";
+
+// Why a transaction or call failed, in words the agent can relay to the user
+export interface FailureReason {
+  kind: FailureKind;
+  // Decoded reason as the wallet, node or contract reported it, e.g. a require message
+  reason: string;
+  explanation: string;
+  // What the user can do about it; empty when there is nothing to suggest
+  nextStep: string;
+}
+
+type Advice = Pick<FailureReason, "explanation" | "nextStep">;
+
+// Require messages of the Averix contracts, plus the custom errors of OpenZeppelin contracts users register
+const REVERT_REASONS: Record<string, Advice> = {
+  "Insufficient balance": {
+    explanation: "The sending account does not hold enough of the token",
+    nextStep: "Check the balance with getBalance and send a smaller amount.",
+  },
+  "Insufficient balance to burn": {
+    explanation: "The account holds fewer tokens than it tried to burn",
+    nextStep: "Check the balance with getBalance and burn at most that amount.",
+  },
+  "Insufficient allowance": {
+    explanation: "The spender is not approved for that many tokens",
+    nextStep: "Check it with getAllowance and raise it with approveToken first.",
+  },
+  "Invalid recipient address": {
+    explanation: "Tokens cannot be sent to the zero address",
+    nextStep: "Double-check the recipient address.",
+  },
+  "Invalid sender address": {
+    explanation: "The zero address cannot send tokens",
+    nextStep: "Double-check the owner address.",
+  },
+  "Invalid spender address": {
+    explanation: "The zero address cannot be approved as a spender",
+    nextStep: "Double-check the spender address.",
+  },
+  "Invalid owner address": {
+    explanation: "The zero address cannot own the contract or its tokens",
+    nextStep: "Double-check the address.",
+  },
+  "Invalid operator address": {
+    explanation: "The zero address cannot be approved as an operator",
+    nextStep: "Double-check the operator address.",
+  },
+  "Invalid treasury address": {
+    explanation: "The tax treasury cannot be the zero address",
+    nextStep: "Pass a real treasury address to createToken.",
+  },
+  "Caller is not the owner": {
+    explanation: "Only the contract owner may do this, and the connected wallet is not the owner",
+    nextStep: "Switch to the owner's wallet, or ask the owner to do it.",
+  },
+  "Cap exceeded": {
+    explanation: "Minting that much would go over the token's supply cap",
+    nextStep: "Check the room left with getTokenSupply and mint less.",
+  },
+  "Initial supply exceeds cap": {
+    explanation: "The initial supply is larger than the supply cap",
+    nextStep: "Lower the initial supply or raise the cap in createToken.",
+  },
+  "Max supply reached": {
+    explanation: "Every NFT of the collection has been minted",
+    nextStep: "Nothing more can be minted; create a new collection with createNftCollection.",
+  },
+  "Tax too high": {
+    explanation: "The transfer tax is above the tax template's 10% limit",
+    nextStep: "Pick a taxPercent of at most 10 in createToken.",
+  },
+  "Token transfers are paused": {
+    explanation: "The token's owner has paused all transfers",
+    nextStep: "The owner can resume them with pauseToken and action unpause.",
+  },
+  "Token is already paused": {
+    explanation: "The token is already paused",
+    nextStep: "Nothing to do; pauseToken with action unpause resumes transfers later.",
+  },
+  "Token is not paused": {
+    explanation: "The token is not paused, so there is nothing to unpause",
+    nextStep: "Nothing to do.",
+  },
+  "Token does not exist": {
+    explanation: "No NFT with that ID has been minted",
+    nextStep: "List the IDs the account holds with getNfts.",
+  },
+  "Sender does not own the token": {
+    explanation: "The NFT belongs to a different account",
+    nextStep: "List the NFTs the account holds with getNfts.",
+  },
+  "Not allowed to transfer": {
+    explanation: "The connected wallet neither owns the NFT nor is approved to move it",
+    nextStep: "Transfer it from the owner's wallet.",
+  },
+  "Not allowed to approve": {
+    explanation: "Only the NFT's owner or its operator can approve it",
+    nextStep: "Approve it from the owner's wallet.",
+  },
+  "Recipient cannot receive NFTs": {
+    explanation: "The recipient is a contract that does not accept NFTs",
+    nextStep: "Send it to a wallet address or an NFT-aware contract.",
+  },
+  "ETH sent does not match the transfers": {
+    explanation: "The ETH attached to the batch differs from the sum of its ETH transfers",
+    nextStep: "Prepare the batch again with batchMixedTransfer.",
+  },
+  "ETH recipients and values differ in length": {
+    explanation: "The batch has a different number of ETH recipients and amounts",
+    nextStep: "Prepare the batch again with batchMixedTransfer.",
+  },
+  "Token legs differ in length": {
+    explanation: "The batch has a different number of token recipients and amounts",
+    nextStep: "Prepare the batch again with batchMixedTransfer.",
+  },
+  "ETH transfer failed": {
+    explanation: "One of the ETH recipients is a contract that refused the payment",
+    nextStep: "Remove that recipient or send to a wallet address instead.",
+  },
+  "Token transfer failed": {
+    explanation: "The token refused one of the batch's transfers",
+    nextStep: "Check the balance and allowance of that token with getBalance and getAllowance.",
+  },
+  ERC20InsufficientBalance: {
+    explanation: "The sending account does not hold enough of the token",
+    nextStep: "Check the balance with getBalance and send a smaller amount.",
+  },
+  ERC20InsufficientAllowance: {
+    explanation: "The spender is not approved for that many tokens",
+    nextStep: "Raise the allowance with approveToken first.",
+  },
+  ERC20InvalidReceiver: {
+    explanation: "Tokens cannot be sent to that receiver",
+    nextStep: "Double-check the recipient address.",
+  },
+  ERC721NonexistentToken: {
+    explanation: "No NFT with that ID has been minted",
+    nextStep: "Double-check the token ID.",
+  },
+  OwnableUnauthorizedAccount: {
+    explanation: "Only the contract owner may do this, and the connected wallet is not the owner",
+    nextStep: "Switch to the owner's wallet, or ask the owner to do it.",
+  },
+  EnforcedPause: {
+    explanation: "The contract is paused",
+    nextStep: "Wait until its owner unpauses it.",
+  },
+  Panic: {
+    explanation: "The contract hit an internal error (overflow, division by zero or an index out of range)",
+    nextStep: "Check the amounts and IDs passed to it.",
+  },
+};
+
+const ADVICE: Record<Exclude<FailureKind, "reverted" | "unknown">, Advice> = {
+  rejected: {
+    explanation: "The request was rejected in the wallet, so nothing was sent",
+    nextStep: "Ask again if the user still wants it.",
+  },
+  insufficientFunds: {
+    explanation: "The wallet does not have enough ETH for the amount plus the gas fee",
+    nextStep: "Check the balance with getBalance, send less, or top up (getFaucetTokens on a testnet).",
+  },
+  nonce: {
+    explanation: "The nonce does not follow the wallet's last transaction: it is taken, or one before it is missing",
+    nextStep:
+      "Check getPendingTransactions; speed up or cancel a stuck one, otherwise retry and a fresh nonce is picked.",
+  },
+  underpriced: {
+    explanation: "The fee offered is below what the network or a pending transaction with the same nonce requires",
+    nextStep: "Retry with a faster speed or a higher cap via setFeePolicy; speedUpTransaction bumps a stuck one.",
+  },
+  gas: {
+    explanation: "The gas limit was too low for the transaction",
+    nextStep: "Retry it; if it keeps failing, simulate it first to see whether it reverts.",
+  },
+  network: {
+    explanation: "The network node could not be reached or did not answer in time",
+    nextStep: "Wait a moment and try again.",
+  },
+};
+
+const REJECTED = /user (rejected|denied|cancel+ed|closed)|rejected by (the )?user|request rejected/i;
+const REVERTED = /reverted(?: with reason(?: string)?)?[:\s]*['"]?([^'"\n]*)/i;
+const UNDERPRICED =
+  /underpriced|max fee per gas less than block base fee|fee cap .*(lower|less) than .*base fee|gas price too low/i;
+const INSUFFICIENT_FUNDS = /insufficient funds|(not|n't) have enough funds|exceeds the balance of the account/i;
+const OUT_OF_GAS = /out of gas|intrinsic gas too low|gas required exceeds allowance|requires at least \d+ gas/i;
+const NETWORK =
+  /timeout|timed out|failed to fetch|fetch failed|network error|econnrefused|econnreset|rate limit|too many requests/i;
+const MAX_REASON_LENGTH = 200;
+// Require messages and panics decode without an ABI
+const EMPTY_INTERFACE = new ethers.Interface([]);
+
+// Innermost readable message: the node's JSON-RPC error, ethers' short message or the wallet's text without any JSON
+function messageOf(error: unknown): string {
+  if (ethers.isError(error, "UNKNOWN_ERROR") && typeof error.error?.message === "string") return error.error.message;
+  if (error instanceof Error && "shortMessage" in error && typeof error.shortMessage === "string") {
+    return error.shortMessage;
+  }
+  const text = error instanceof Error ? error.message : String(error);
+  const message = /"message"\s*:\s*"((?:[^"\\]|\\.)*)"/.exec(text)?.[1] ?? text;
+  return message.length > MAX_REASON_LENGTH ? `${message.slice(0, MAX_REASON_LENGTH)}…` : message;
+}
+
+function reverted(reason: string): FailureReason {
+  const advice = REVERT_REASONS[reason] ?? REVERT_REASONS[reason.split("(")[0]];
+  if (advice) return { kind: "reverted", reason, ...advice };
+  return {
+    kind: "reverted",
+    reason,
+    explanation: "The contract rejected the transaction",
+    nextStep: "Check the amounts and addresses; simulating it first shows the revert without paying gas.",
+  };
+}
+
+const classified = (kind: keyof typeof ADVICE, reason: string): FailureReason => ({ kind, reason, ...ADVICE[kind] });
+
+// Sort an error from ethers, the node or the wallet into a known failure with an explanation and a next step; the
+// interface of the called contract decodes its custom errors
+export function classifyError(error: unknown, iface?: ethers.Interface): FailureReason {
+  if (ethers.isError(error, "CALL_EXCEPTION")) return reverted(describeRevert(iface ?? EMPTY_INTERFACE, error));
+  const message = messageOf(error);
+  if (ethers.isError(error, "ACTION_REJECTED") || REJECTED.test(message)) return classified("rejected", message);
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS") || INSUFFICIENT_FUNDS.test(message)) {
+    return classified("insufficientFunds", message);
+  }
+  if (ethers.isError(error, "REPLACEMENT_UNDERPRICED") || UNDERPRICED.test(message)) {
+    return classified("underpriced", message);
+  }
+  if (ethers.isError(error, "NONCE_EXPIRED") || isNonceError(message) || /\bnonce\b/i.test(message)) {
+    return classified("nonce", message);
+  }
+  if (OUT_OF_GAS.test(message)) return classified("gas", message);
+  const revert = REVERTED.exec(message);
+  if (revert) return reverted(revert[1].trim().replace(/\.$/, "") || "execution reverted without a reason");
+  if (ethers.isError(error, "NETWORK_ERROR") || ethers.isError(error, "TIMEOUT") || NETWORK.test(message)) {
+    return classified("network", message);
+  }
+  return { kind: "unknown", reason: message, explanation: message, nextStep: "" };
+}
+
+// One line for tool output: explanation, the raw reason and the next step, without a closing period so callers can
+// go on; unknown errors pass through as they are
+export function formatFailure({ reason, explanation, nextStep }: FailureReason): string {
+  const detail = explanation === reason ? explanation : `${explanation} (${reason})`;
+  return nextStep ? `${detail}. ${nextStep.replace(/\.$/, "")}` : detail;
+}
+
+export const describeFailure = (error: unknown, iface?: ethers.Interface) => formatFailure(classifyError(error, iface));
+
+// Why a mined transaction reverted: replayed against the state before its block to recover the revert reason
+export async function diagnoseRevert(
+  provider: ethers.Provider,
+  receipt: ethers.TransactionReceipt,
+  iface?: ethers.Interface
+): Promise<FailureReason> {
+  const transaction = await provider.getTransaction(receipt.hash);
+  if (!transaction) return reverted("execution reverted without a reason");
+  if (receipt.gasUsed >= transaction.gasLimit) return classified("gas", `out of gas (${receipt.gasUsed} gas used)`);
+  try {
+    await provider.call({
+      from: transaction.from,
+      to: transaction.to,
+      data: transaction.data,
+      value: transaction.value,
+      gasLimit: transaction.gasLimit,
+      blockTag: receipt.blockNumber - 1,
+    });
+  } catch (error) {
+    const failure = classifyError(error, iface);
+    if (failure.kind === "reverted") return failure;
+  }
+  // Passes on replay: an earlier transaction in the same block changed what it depended on
+  return reverted("execution reverted without a reason");
+}
@@ -0,0 +1,102 @@
+import { ethers } from "ethers";
+import { FEE_SPEED, MAX_FEE_GWEI } from "./config";
+
+export const FEE_SPEEDS = ["slow", "normal", "fast"] as const;
+export type FeeSpeed = (typeof FEE_SPEEDS)[number];
+
+// maxFeePerGas is a share of the current base fee plus a share of the node's suggested tip. Arbitrum charges the
+// base fee and ignores tips, so there the speed mostly decides how much base fee growth a transaction survives.
+const FEE_PRESETS: Record<FeeSpeed, { baseFeePercent: bigint; tipPercent: bigint; description: string }> = {
+  slow: {
+    baseFeePercent: 110n,
+    tipPercent: 0n,
+    description: "at most 10% above the current base fee and no tip; may wait if fees rise",
+  },
+  normal: {
+    baseFeePercent: 200n,
+    tipPercent: 100n,
+    description: "up to twice the current base fee plus the suggested tip",
+  },
+  fast: {
+    baseFeePercent: 300n,
+    tipPercent: 200n,
+    description: "up to three times the current base fee plus twice the suggested tip",
+  },
+};
+
+// Per-session fee settings (see setFeePolicy)
+export interface FeePolicy {
+  speed: FeeSpeed;
+  // Cap on maxFeePerGas, in wei
+  maxFeePerGas?: bigint;
+  // Hold requests back until the base fee is at or below this, in wei
+  waitBelow?: bigint;
+}
+
+// Fee fields worked out for one transaction
+export interface FeeQuote {
+  speed: FeeSpeed;
+  baseFee: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  // The session cap lowered maxFeePerGas below the preset
+  capped: boolean;
+}
+
+export const formatGwei = (wei: bigint) => `${ethers.formatUnits(wei, "gwei")} gwei`;
+
+export function parseGwei(value: string): bigint {
+  if (!/^\d+(\.\d+)?$/.test(value.trim())) throw new Error(`Invalid gas price ${value}; use a number of gwei like 0.1`);
+  return ethers.parseUnits(value.trim(), "gwei");
+}
+
+// FEE_SPEED and MAX_FEE_GWEI from the environment
+export function defaultFeePolicy(): FeePolicy {
+  const speed = (FEE_SPEEDS as readonly string[]).includes(FEE_SPEED) ? (FEE_SPEED as FeeSpeed) : "normal";
+  return { speed, maxFeePerGas: MAX_FEE_GWEI ? parseGwei(MAX_FEE_GWEI) : undefined };
+}
+
+export async function getBaseFee(provider: ethers.Provider): Promise<bigint> {
+  const block = await provider.getBlock("latest");
+  return block?.baseFeePerGas ?? (await provider.getFeeData()).gasPrice ?? 0n;
+}
+
+export async function quoteFees(provider: ethers.Provider, policy: FeePolicy): Promise<FeeQuote> {
+  const [baseFee, feeData] = await Promise.all([getBaseFee(provider), provider.getFeeData()]);
+  const preset = FEE_PRESETS[policy.speed];
+  let maxPriorityFeePerGas = ((feeData.maxPriorityFeePerGas ?? 0n) * preset.tipPercent) / 100n;
+  let maxFeePerGas = (baseFee * preset.baseFeePercent) / 100n + maxPriorityFeePerGas;
+  const cap = policy.maxFeePerGas;
+  const capped = cap !== undefined && maxFeePerGas > cap;
+  if (capped) {
+    if (cap < baseFee) {
+      throw new Error(
+        `The base fee is ${formatGwei(baseFee)}, above the session's max fee cap of ${formatGwei(cap)}. Raise the cap with setFeePolicy or hold transactions until gas drops with waitBelowGwei.`
+      );
+    }
+    maxFeePerGas = cap;
+    if (maxPriorityFeePerGas > cap - baseFee) maxPriorityFeePerGas = cap - baseFee;
+  }
+  return { speed: policy.speed, baseFee, maxFeePerGas, maxPriorityFeePerGas, capped };
+}
+
+// e.g. "normal (up to twice the current base fee plus the suggested tip), max fee cap 0.5 gwei, no waiting"
+export function describeFeePolicy(policy: FeePolicy): string {
+  return [
+    `${policy.speed} (${FEE_PRESETS[policy.speed].description})`,
+    policy.maxFeePerGas !== undefined ? `max fee cap ${formatGwei(policy.maxFeePerGas)}` : "no max fee cap",
+    policy.waitBelow !== undefined ? `transactions wait until the base fee is at most ${formatGwei(policy.waitBelow)}` : "no waiting",
+  ].join(", ");
+}
+
+// Fees for a transaction that replaces a pending one at the same nonce. Nodes only accept a replacement that raises
+// both fees (geth by at least 10%), so it gets 12.5% more than the original or the current quote, whichever is higher.
+export function replacementFees(
+  original: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint },
+  quote: FeeQuote
+): { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } {
+  const bump = (wei: bigint) => wei + wei / 8n + 1n;
+  const max = (a: bigint, b: bigint) => (a > b ? a : b);
+  const maxPriorityFeePerGas = max(bump(original.maxPriorityFeePerGas), quote.maxPriorityFeePerGas);
+  return { maxFeePerGas: max(max(bump(original.maxFeePerGas), quote.maxFeePerGas), maxPriorityFeePerGas), maxPriorityFeePerGas };
+}
@@ -0,0 +1,158 @@
+import { ethers } from "ethers";
+import axios from "axios";
+import { COINGECKO_API_KEY, log } from "./config";
+import { TOKEN_TEMPLATES } from "./templates";
+import { ERC20_ABI } from "./tokens";
+
+// ArbOS precompiles; they only exist on Arbitrum chains, and NodeInterface only for eth_call and estimateGas
+const ARB_GAS_INFO_ADDRESS = "0x000000000000000000000000000000000000006C";
+const NODE_INTERFACE_ADDRESS = "0x00000000000000000000000000000000000000C8";
+const arbGasInfo = new ethers.Interface([
+  "function getPricesInWei() view returns (uint256 perL2Tx, uint256 perL1CalldataByte, uint256 perStorageAllocation, uint256 perArbGasBase, uint256 perArbGasCongestion, uint256 perArbGasTotal)",
+  "function getL1BaseFeeEstimate() view returns (uint256)",
+]);
+const nodeInterface = new ethers.Interface([
+  "function gasEstimateComponents(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimate, uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)",
+  "function gasEstimateL1Component(address to, bool contractCreation, bytes data) payable returns (uint64 gasEstimateForL1, uint256 baseFee, uint256 l1BaseFeeEstimate)",
+]);
+
+// Sender (without a connected wallet) and receiver of the sample transactions below; estimates do not depend on who it is
+const SAMPLE_ACCOUNT = "0x000000000000000000000000000000000000dEaD";
+// Execution an ERC-20 transfer adds on top of a plain call: two balance writes (one to a new holder) and the event
+const ERC20_TRANSFER_EXECUTION_GAS = 30000n;
+
+type GasTransaction = { from?: string; to?: string | null; data?: string };
+
+export interface FeeBreakdown {
+  // eth_gasPrice, what wallets pay per gas unit
+  gasPrice: bigint;
+  // From ArbGasInfo; unset on chains without the ArbOS precompiles (e.g. a local devnode)
+  l2BaseFee?: bigint;
+  l2MinimumBaseFee?: bigint;
+  l1BaseFeeEstimate?: bigint;
+  // L1 data price of one calldata byte, in wei
+  l1CalldataPricePerByte?: bigint;
+}
+
+export interface SampleCost {
+  label: string;
+  gas: bigint;
+  // Part of gas that pays for posting the calldata to L1; unset without NodeInterface
+  l1Gas?: bigint;
+  fee: bigint;
+  // Execution gas is a typical figure rather than an estimate of this exact transaction
+  approximate: boolean;
+}
+
+// Gas units the L1 data posting adds to a transaction, or undefined on chains without NodeInterface
+export async function estimateL1Component(
+  provider: ethers.Provider,
+  transaction: GasTransaction
+): Promise<{ gas: bigint; baseFee: bigint } | undefined> {
+  try {
+    const data = nodeInterface.encodeFunctionData("gasEstimateL1Component", [
+      transaction.to ?? ethers.ZeroAddress,
+      !transaction.to,
+      transaction.data ?? "0x",
+    ]);
+    const result = await provider.call({ from: transaction.from, to: NODE_INTERFACE_ADDRESS, data });
+    const decoded = nodeInterface.decodeFunctionResult("gasEstimateL1Component", result);
+    return { gas: decoded.gasEstimateForL1 as bigint, baseFee: decoded.baseFee as bigint };
+  } catch {
+    return undefined;
+  }
+}
+
+// Total gas, its L1 part and the L2 base fee for a transaction, or undefined on chains without NodeInterface
+export async function estimateGasComponents(
+  provider: ethers.Provider,
+  transaction: GasTransaction
+): Promise<{ gas: bigint; l1Gas: bigint; baseFee: bigint } | undefined> {
+  try {
+    const data = nodeInterface.encodeFunctionData("gasEstimateComponents", [
+      transaction.to ?? ethers.ZeroAddress,
+      !transaction.to,
+      transaction.data ?? "0x",
+    ]);
+    const result = await provider.call({ from: transaction.from, to: NODE_INTERFACE_ADDRESS, data });
+    const decoded = nodeInterface.decodeFunctionResult("gasEstimateComponents", result);
+    return {
+      gas: decoded.gasEstimate as bigint,
+      l1Gas: decoded.gasEstimateForL1 as bigint,
+      baseFee: decoded.baseFee as bigint,
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+export async function getFeeBreakdown(provider: ethers.Provider): Promise<FeeBreakdown> {
+  const feeData = await provider.getFeeData();
+  const breakdown: FeeBreakdown = { gasPrice: feeData.gasPrice ?? 0n };
+  try {
+    const [prices, l1BaseFee] = await Promise.all([
+      provider.call({ to: ARB_GAS_INFO_ADDRESS, data: arbGasInfo.encodeFunctionData("getPricesInWei") }),
+      provider.call({ to: ARB_GAS_INFO_ADDRESS, data: arbGasInfo.encodeFunctionData("getL1BaseFeeEstimate") }),
+    ]);
+    const decoded = arbGasInfo.decodeFunctionResult("getPricesInWei", prices);
+    breakdown.l2BaseFee = decoded.perArbGasTotal as bigint;
+    breakdown.l2MinimumBaseFee = decoded.perArbGasBase as bigint;
+    breakdown.l1CalldataPricePerByte = decoded.perL1CalldataByte as bigint;
+    breakdown.l1BaseFeeEstimate = arbGasInfo.decodeFunctionResult("getL1BaseFeeEstimate", l1BaseFee)[0] as bigint;
+  } catch {
+    // Not an Arbitrum chain; only the plain gas price is available
+  }
+  return breakdown;
+}
+
+async function estimateSample(
+  provider: ethers.Provider,
+  gasPrice: bigint,
+  label: string,
+  transaction: GasTransaction,
+  extraGas = 0n
+): Promise<SampleCost> {
+  const components = await estimateGasComponents(provider, transaction);
+  if (components) {
+    const gas = components.gas + extraGas;
+    return { label, gas, l1Gas: components.l1Gas, fee: gas * components.baseFee, approximate: extraGas > 0n };
+  }
+  const gas = (await provider.estimateGas(transaction)) + extraGas;
+  return { label, gas, fee: gas * gasPrice, approximate: extraGas > 0n };
+}
+
+// What a plain ETH transfer, an ERC-20 transfer and a fixed-supply token deployment cost right now
+export async function estimateSampleCosts(
+  provider: ethers.Provider,
+  gasPrice: bigint,
+  from = SAMPLE_ACCOUNT
+): Promise<SampleCost[]> {
+  const token = TOKEN_TEMPLATES.fixed.artifact;
+  const deployment = await new ethers.ContractFactory(token.abi, token.bytecode).getDeployTransaction(
+    "Sample Token",
+    "SMPL",
+    18,
+    ethers.parseUnits("1000000", 18)
+  );
+  // The transfer is sent to a plain address so no token is needed; its execution is added as a typical figure
+  const transfer = new ethers.Interface(ERC20_ABI).encodeFunctionData("transfer", [SAMPLE_ACCOUNT, 1n]);
+  return Promise.all([
+    estimateSample(provider, gasPrice, "ETH transfer", { from, to: SAMPLE_ACCOUNT }),
+    estimateSample(provider, gasPrice, "ERC-20 transfer", { from, to: SAMPLE_ACCOUNT, data: transfer }, ERC20_TRANSFER_EXECUTION_GAS),
+    estimateSample(provider, gasPrice, "Token deployment", { from, data: deployment.data }),
+  ]);
+}
+
+// Current ETH price in USD from CoinGecko, or undefined when it cannot be fetched
+export async function fetchEthUsdPrice(): Promise<number | undefined> {
+  try {
+    const response = await axios.get<{ ethereum?: { usd: number } }>(
+      "https://api.coingecko.com/api/v3/simple/price?ids=ethereum&vs_currencies=usd",
+      { headers: { "x-cg-api-key": COINGECKO_API_KEY }, timeout: 5000 }
+    );
+    return response.data.ethereum?.usd;
+  } catch (error) {
+    log.error("ETH price fetch error:", error);
+    return undefined;
+  }
+}
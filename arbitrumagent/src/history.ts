@@ -0,0 +1,330 @@
+import axios from "axios";
+import { ethers } from "ethers";
+import { ARBISCAN_API_KEY, HISTORY_SCAN_BLOCKS, HISTORY_SOURCE } from "./config";
+import { NetworkConfig } from "./networks";
+import { ERC20_ABI } from "./tokens";
+
+// One decoded row of wallet history: a native transfer or an ERC-20 Transfer event
+export interface HistoryEntry {
+  hash: string;
+  blockNumber: number;
+  timestamp: number;
+  direction: "in" | "out" | "self";
+  counterparty: string;
+  token: string;
+  tokenAddress?: string;
+  amount: string;
+}
+
+// Blocks a history page was built from, when the source could only look at part of the chain
+export interface HistoryWindow {
+  fromBlock: number;
+  toBlock: number;
+  fromTime: number;
+  toTime: number;
+}
+
+// One page of history; without a window it is drawn from the whole chain
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  window?: HistoryWindow;
+}
+
+// Token spender the owner approved at some point; the current allowance must be read on-chain
+export interface ApprovalEntry {
+  token: string;
+  spender: string;
+}
+
+// Approvals found; partial when the search stopped before covering the whole chain (fromBlock is then the
+// oldest block searched, if the source knows it)
+export interface ApprovalScan {
+  approvals: ApprovalEntry[];
+  partial: boolean;
+  fromBlock?: number;
+}
+
+// Where wallet history comes from; newest entries first, pages start at 1
+export interface HistorySource {
+  getHistory(address: string, page: number, pageSize: number): Promise<HistoryPage>;
+  getApprovals(owner: string, tokens: string[]): Promise<ApprovalScan>;
+}
+
+const APPROVAL_TOPIC = ethers.id("Approval(address,address,uint256)");
+
+// One entry per token/spender pair, keeping the first seen
+const uniqueApprovals = (entries: ApprovalEntry[]) => {
+  const seen = new Set<string>();
+  return entries.filter((entry) => {
+    const key = `${entry.token.toLowerCase()}:${entry.spender.toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const historyDirection = (address: string, from: string, to: string) => {
+  const self = address.toLowerCase();
+  if (from.toLowerCase() === self && to.toLowerCase() === self) return "self";
+  return from.toLowerCase() === self ? "out" : "in";
+};
+
+// Newest first; within a block, keep the order the source returned
+const sortHistory = (entries: HistoryEntry[]) => entries.sort((a, b) => b.blockNumber - a.blockNumber);
+
+// Arbiscan-compatible account API (txlist + tokentx), also works with Etherscan-style explorers
+export class ArbiscanHistorySource implements HistorySource {
+  constructor(private apiUrl: string, private apiKey: string) {}
+
+  private async query(params: Record<string, string | number>) {
+    const { data } = await axios.get<{ status: string; message: string; result: Record<string, string>[] | string }>(this.apiUrl, {
+      params: { ...params, apikey: this.apiKey || undefined },
+      timeout: 15000,
+    });
+    // status "0" with "No transactions found" / "No records found" is an empty result, not an error
+    if (data.status !== "1") {
+      if (Array.isArray(data.result)) return [];
+      throw new Error(`Explorer API error: ${data.result || data.message}`);
+    }
+    return data.result as Record<string, string>[];
+  }
+
+  async getHistory(address: string, page: number, pageSize: number): Promise<HistoryPage> {
+    // Both lists are sorted desc, so the first page*pageSize of each covers the merged page
+    const limit = page * pageSize;
+    const account = { module: "account", address, page: 1, offset: limit, sort: "desc" };
+    const [native, tokens] = await Promise.all([
+      this.query({ ...account, action: "txlist" }),
+      this.query({ ...account, action: "tokentx" }),
+    ]);
+
+    const entries: HistoryEntry[] = [];
+    for (const tx of native) {
+      if (tx.isError === "1" || BigInt(tx.value) === 0n) continue;
+      const direction = historyDirection(address, tx.from, tx.to);
+      entries.push({
+        hash: tx.hash,
+        blockNumber: Number(tx.blockNumber),
+        timestamp: Number(tx.timeStamp),
+        direction,
+        counterparty: direction === "in" ? tx.from : tx.to,
+        token: "ETH",
+        amount: ethers.formatEther(tx.value),
+      });
+    }
+    for (const tx of tokens) {
+      const direction = historyDirection(address, tx.from, tx.to);
+      entries.push({
+        hash: tx.hash,
+        blockNumber: Number(tx.blockNumber),
+        timestamp: Number(tx.timeStamp),
+        direction,
+        counterparty: direction === "in" ? tx.from : tx.to,
+        token: tx.tokenSymbol,
+        tokenAddress: tx.contractAddress,
+        amount: ethers.formatUnits(tx.value, Number(tx.tokenDecimal)),
+      });
+    }
+    return { entries: sortHistory(entries).slice((page - 1) * pageSize, limit) };
+  }
+
+  // Explorers return at most LOG_PAGE_SIZE logs per call, oldest first
+  private static LOG_PAGE_SIZE = 1000;
+  private static LOG_PAGES = 10;
+
+  async getApprovals(owner: string, tokens: string[]): Promise<ApprovalScan> {
+    let partial = false;
+    const logs = await Promise.all(
+      tokens.map(async (token) => {
+        const found: Record<string, string>[] = [];
+        for (let page = 1; page <= ArbiscanHistorySource.LOG_PAGES; page++) {
+          const result = await this.query({
+            module: "logs",
+            action: "getLogs",
+            address: token,
+            fromBlock: 0,
+            toBlock: "latest",
+            topic0: APPROVAL_TOPIC,
+            topic1: ethers.zeroPadValue(owner, 32),
+            topic0_1_opr: "and",
+            page,
+            offset: ArbiscanHistorySource.LOG_PAGE_SIZE,
+          });
+          found.push(...result);
+          if (result.length < ArbiscanHistorySource.LOG_PAGE_SIZE) return found;
+        }
+        // Every page was full, so newer approvals may be missing
+        partial = true;
+        return found;
+      })
+    );
+    const approvals = uniqueApprovals(
+      logs.flat().map((log) => ({
+        token: ethers.getAddress(log.address),
+        spender: ethers.getAddress(ethers.dataSlice((log.topics as unknown as string[])[2], 12)),
+      }))
+    );
+    return { approvals, partial };
+  }
+}
+
+// Local indexer: scans the last scanBlocks blocks over RPC, for devnodes or chains without an explorer API.
+// Arbitrum makes several blocks a second, so the window is minutes to hours; pages report it.
+export class BlockScanHistorySource implements HistorySource {
+  private static TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+  private static LOG_CHUNK = 1000;
+  // Blocks fetched together; the provider sends each group as one JSON-RPC batch
+  private static BLOCK_BATCH = 50;
+  private static APPROVAL_LOG_REQUESTS = 200;
+  private tokenInfo = new Map<string, { symbol: string; decimals: number }>();
+  private timestamps = new Map<number, number>();
+
+  constructor(private provider: ethers.JsonRpcProvider, private scanBlocks: number) {}
+
+  private async getToken(address: string) {
+    const key = address.toLowerCase();
+    let info = this.tokenInfo.get(key);
+    if (!info) {
+      const contract = new ethers.Contract(address, ERC20_ABI, this.provider);
+      try {
+        const [symbol, decimals] = await Promise.all([contract.symbol(), contract.decimals()]);
+        info = { symbol, decimals: Number(decimals) };
+      } catch {
+        // ERC-721 and non-standard tokens share the Transfer signature; show raw values
+        info = { symbol: address, decimals: 0 };
+      }
+      this.tokenInfo.set(key, info);
+    }
+    return info;
+  }
+
+  private async getTimestamp(blockNumber: number) {
+    if (!this.timestamps.has(blockNumber)) {
+      const block = await this.provider.getBlock(blockNumber);
+      this.timestamps.set(blockNumber, block?.timestamp ?? 0);
+    }
+    return this.timestamps.get(blockNumber)!;
+  }
+
+  private async scanNative(address: string, fromBlock: number, toBlock: number) {
+    const blocks: ethers.Block[] = [];
+    for (let end = toBlock; end >= fromBlock; end -= BlockScanHistorySource.BLOCK_BATCH) {
+      const numbers: number[] = [];
+      for (let number = end; number >= Math.max(end - BlockScanHistorySource.BLOCK_BATCH + 1, fromBlock); number--) {
+        numbers.push(number);
+      }
+      const batch = await Promise.all(numbers.map((number) => this.provider.getBlock(number, true)));
+      blocks.push(...batch.filter((block): block is ethers.Block => block !== null));
+    }
+
+    const entries: HistoryEntry[] = [];
+    for (const block of blocks) {
+      const number = block.number;
+      this.timestamps.set(number, block.timestamp);
+      for (const tx of block.prefetchedTransactions) {
+        if (tx.value === 0n || !tx.to) continue;
+        if (tx.from.toLowerCase() !== address.toLowerCase() && tx.to.toLowerCase() !== address.toLowerCase()) continue;
+        const direction = historyDirection(address, tx.from, tx.to);
+        entries.push({
+          hash: tx.hash,
+          blockNumber: number,
+          timestamp: block.timestamp,
+          direction,
+          counterparty: direction === "in" ? tx.from : tx.to,
+          token: "ETH",
+          amount: ethers.formatEther(tx.value),
+        });
+      }
+    }
+    return entries;
+  }
+
+  private async scanTokens(address: string, fromBlock: number, toBlock: number) {
+    const padded = ethers.zeroPadValue(address, 32);
+    const logs: ethers.Log[] = [];
+    for (let start = fromBlock; start <= toBlock; start += BlockScanHistorySource.LOG_CHUNK) {
+      const end = Math.min(start + BlockScanHistorySource.LOG_CHUNK - 1, toBlock);
+      const [sent, received] = await Promise.all([
+        this.provider.getLogs({ fromBlock: start, toBlock: end, topics: [BlockScanHistorySource.TRANSFER_TOPIC, padded] }),
+        this.provider.getLogs({ fromBlock: start, toBlock: end, topics: [BlockScanHistorySource.TRANSFER_TOPIC, null, padded] }),
+      ]);
+      // Self-transfers match both filters
+      const seen = new Set(sent.map((log) => `${log.transactionHash}:${log.index}`));
+      logs.push(...sent, ...received.filter((log) => !seen.has(`${log.transactionHash}:${log.index}`)));
+    }
+
+    const entries: HistoryEntry[] = [];
+    for (const log of logs) {
+      if (log.topics.length !== 3) continue; // ERC-721 transfers index the token id as a fourth topic
+      const from = ethers.getAddress(ethers.dataSlice(log.topics[1], 12));
+      const to = ethers.getAddress(ethers.dataSlice(log.topics[2], 12));
+      const { symbol, decimals } = await this.getToken(log.address);
+      const direction = historyDirection(address, from, to);
+      entries.push({
+        hash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        timestamp: await this.getTimestamp(log.blockNumber),
+        direction,
+        counterparty: direction === "in" ? from : to,
+        token: symbol,
+        tokenAddress: log.address,
+        amount: ethers.formatUnits(BigInt(log.data), decimals),
+      });
+    }
+    return entries;
+  }
+
+  // Approvals may be years old, so the whole chain is searched, newest blocks first. Nodes cap the block range
+  // or the result size of one getLogs call, so a refused range is halved and that size kept for the rest.
+  // After APPROVAL_LOG_REQUESTS calls the scan stops and is reported as partial.
+  async getApprovals(owner: string, tokens: string[]): Promise<ApprovalScan> {
+    if (tokens.length === 0) return { approvals: [], partial: false };
+    const entries: ApprovalEntry[] = [];
+    let end = await this.provider.getBlockNumber();
+    let chunk = end + 1;
+    for (let requests = 0; end >= 0; requests++) {
+      if (requests === BlockScanHistorySource.APPROVAL_LOG_REQUESTS) {
+        return { approvals: uniqueApprovals(entries), partial: true, fromBlock: end + 1 };
+      }
+      const start = Math.max(end - chunk + 1, 0);
+      let logs: ethers.Log[];
+      try {
+        logs = await this.provider.getLogs({
+          address: tokens,
+          fromBlock: start,
+          toBlock: end,
+          topics: [APPROVAL_TOPIC, ethers.zeroPadValue(owner, 32)],
+        });
+      } catch (error) {
+        if (start === end) throw error;
+        chunk = Math.ceil((end - start + 1) / 2);
+        continue;
+      }
+      for (const log of logs) {
+        entries.push({ token: log.address, spender: ethers.getAddress(ethers.dataSlice(log.topics[2], 12)) });
+      }
+      end = start - 1;
+    }
+    return { approvals: uniqueApprovals(entries), partial: false };
+  }
+
+  async getHistory(address: string, page: number, pageSize: number): Promise<HistoryPage> {
+    const toBlock = await this.provider.getBlockNumber();
+    const fromBlock = Math.max(toBlock - this.scanBlocks + 1, 0);
+    const [native, tokens] = await Promise.all([
+      this.scanNative(address, fromBlock, toBlock),
+      this.scanTokens(address, fromBlock, toBlock),
+    ]);
+    const entries = sortHistory([...native, ...tokens]).slice((page - 1) * pageSize, page * pageSize);
+    // Short chains (a fresh devnode) are scanned from genesis, which is the whole history
+    if (fromBlock === 0) return { entries };
+    const [fromTime, toTime] = await Promise.all([this.getTimestamp(fromBlock), this.getTimestamp(toBlock)]);
+    return { entries, window: { fromBlock, toBlock, fromTime, toTime } };
+  }
+}
+
+// Networks without an explorer API (the local devnode) always use the block scanner
+export const createHistorySource = (network: NetworkConfig, provider: ethers.JsonRpcProvider): HistorySource =>
+  HISTORY_SOURCE === "arbiscan" && network.explorerApiUrl
+    ? new ArbiscanHistorySource(network.explorerApiUrl, ARBISCAN_API_KEY)
+    : new BlockScanHistorySource(provider, HISTORY_SCAN_BLOCKS);
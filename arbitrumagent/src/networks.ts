@@ -0,0 +1,78 @@
+import { DEFAULT_NETWORK } from "./config";
+
+// Chains the agent can work on; each session picks one (see switchNetwork)
+export interface NetworkConfig {
+  key: string;
+  name: string;
+  chainId: number;
+  rpcUrl: string;
+  explorerUrl?: string;
+  explorerApiUrl?: string;
+  nativeSymbol: string;
+  faucetUrl?: string;
+  testnet: boolean;
+}
+
+export const NETWORKS: Record<string, NetworkConfig> = {
+  "arbitrum-one": {
+    key: "arbitrum-one",
+    name: "Arbitrum One",
+    chainId: 42161,
+    rpcUrl: process.env.ARBITRUM_ONE_RPC_URL || "https://arb1.arbitrum.io/rpc",
+    explorerUrl: "https://arbiscan.io",
+    explorerApiUrl: "https://api.arbiscan.io/api",
+    nativeSymbol: "ETH",
+    testnet: false,
+  },
+  "arbitrum-sepolia": {
+    key: "arbitrum-sepolia",
+    name: "Arbitrum Sepolia",
+    chainId: 421614,
+    rpcUrl: process.env.ARBITRUM_RPC_URL || "https://sepolia-rollup.arbitrum.io/rpc",
+    explorerUrl: "https://sepolia.arbiscan.io",
+    explorerApiUrl: "https://api-sepolia.arbiscan.io/api",
+    nativeSymbol: "ETH",
+    faucetUrl: "https://faucet.triangleplatform.com/arbitrum/sepolia",
+    testnet: true,
+  },
+  "arbitrum-nova": {
+    key: "arbitrum-nova",
+    name: "Arbitrum Nova",
+    chainId: 42170,
+    rpcUrl: process.env.ARBITRUM_NOVA_RPC_URL || "https://nova.arbitrum.io/rpc",
+    explorerUrl: "https://nova.arbiscan.io",
+    explorerApiUrl: "https://api-nova.arbiscan.io/api",
+    nativeSymbol: "ETH",
+    testnet: false,
+  },
+  // Nitro devnode (or anvil with LOCAL_CHAIN_ID=31337); no explorer or faucet, accounts come prefunded
+  local: {
+    key: "local",
+    name: "Local devnode",
+    chainId: Number(process.env.LOCAL_CHAIN_ID || 412346),
+    rpcUrl: process.env.LOCAL_RPC_URL || "http://127.0.0.1:8547",
+    nativeSymbol: "ETH",
+    testnet: true,
+  },
+};
+
+// Accepts a network key, a chain ID or a loose name like "sepolia" or "Arbitrum One"
+export const findNetwork = (query: string): NetworkConfig | undefined => {
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, "-");
+  return Object.values(NETWORKS).find(
+    (network) =>
+      network.key === normalized ||
+      network.key === `arbitrum-${normalized}` ||
+      String(network.chainId) === normalized ||
+      network.name.toLowerCase().replace(/\s+/g, "-") === normalized
+  );
+};
+
+// Network new sessions start on (DEFAULT_NETWORK)
+export function getDefaultNetwork(): NetworkConfig {
+  const network = NETWORKS[DEFAULT_NETWORK];
+  if (!network) {
+    throw new Error(`Unknown DEFAULT_NETWORK "${DEFAULT_NETWORK}". Use one of: ${Object.keys(NETWORKS).join(", ")}`);
+  }
+  return network;
+}
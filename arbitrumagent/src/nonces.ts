@@ -0,0 +1,107 @@
+import { ethers } from "ethers";
+import { log } from "./config";
+
+// A nonce handed to the wallet that was never reported back (tab closed mid-signing) is reused after this long
+const RESERVATION_TTL_MS = 10 * 60 * 1000;
+
+// Nonce bookkeeping of one wallet on one chain
+interface NonceState {
+  // First nonce never handed out; unset until read from the chain (again after a resync)
+  next?: number;
+  // Handed to the wallet and not reported yet, with the time they were handed out
+  reserved: Map<number, number>;
+  // Released below next (rejected or failed requests); reused before next so no gap is left behind
+  free: number[];
+  // Reservations run one at a time
+  queue: Promise<unknown>;
+}
+
+// Errors a wallet or node reports when a transaction's nonce was already used or is taken by a pending one
+const NONCE_ERROR = /nonce too low|nonce has already been used|replacement (transaction )?underpriced|already known|nonce too high/i;
+
+export const isNonceError = (message: string) => NONCE_ERROR.test(message);
+
+// Nonces for every transaction the wallets sign, shared by all sessions so two tabs (or a chat turn and released
+// held requests) on the same wallet never sign the same nonce
+export class NonceManager {
+  private states = new Map<string, NonceState>();
+
+  private state(address: string, chainId: number): NonceState {
+    const key = `${chainId}:${address.toLowerCase()}`;
+    let state = this.states.get(key);
+    if (!state) {
+      state = { reserved: new Map(), free: [], queue: Promise.resolve() };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  // Next nonce for a transaction the wallet is about to sign; never below the chain's pending count, so
+  // transactions sent from another app are picked up
+  reserve(provider: ethers.Provider, address: string, chainId: number): Promise<number> {
+    const state = this.state(address, chainId);
+    const reservation = state.queue.then(async () => {
+      const pending = await provider.getTransactionCount(address, "pending");
+      const expired = Date.now() - RESERVATION_TTL_MS;
+      for (const [nonce, reservedAt] of state.reserved) {
+        if (nonce < pending) {
+          state.reserved.delete(nonce);
+        } else if (reservedAt < expired) {
+          log.info(`Nonce ${nonce} of ${address} was never reported back; reusing it`);
+          this.releaseFrom(state, nonce);
+        }
+      }
+      // Gaps another transaction already filled are gone
+      state.free = state.free.filter((nonce) => nonce >= pending);
+      if (state.next === undefined || state.next < pending) state.next = pending;
+      let nonce = state.free.shift();
+      if (nonce === undefined) {
+        // After a resync, skip nonces other requests still have out with the wallet
+        while (state.reserved.has(state.next)) state.next++;
+        nonce = state.next++;
+      }
+      state.reserved.set(nonce, Date.now());
+      return nonce;
+    });
+    state.queue = reservation.catch(() => undefined);
+    return reservation;
+  }
+
+  // The wallet broadcast a transaction with this nonce
+  confirm(address: string, chainId: number, nonce: number): void {
+    this.state(address, chainId).reserved.delete(nonce);
+  }
+
+  // The wallet rejected or failed to send it: the nonce goes to the next transaction instead of leaving a gap
+  release(address: string, chainId: number, nonce: number): void {
+    this.releaseFrom(this.state(address, chainId), nonce);
+  }
+
+  // Forget what is known about the wallet's nonces, except the ones still out with the wallet; the next reservation
+  // starts from the chain again
+  resync(address: string, chainId: number): void {
+    const state = this.state(address, chainId);
+    state.next = undefined;
+    state.free = [];
+    log.info(`Nonces of ${address} on chain ${chainId} resynced from the chain`);
+  }
+
+  private releaseFrom(state: NonceState, nonce: number): void {
+    state.reserved.delete(nonce);
+    if (state.next === undefined || nonce >= state.next || state.free.includes(nonce)) return;
+    state.free.push(nonce);
+    state.free.sort((a, b) => a - b);
+    // Released nonces at the top just lower next
+    while (state.free.length > 0 && state.free[state.free.length - 1] === state.next - 1) {
+      state.free.pop();
+      state.next--;
+    }
+  }
+}
+
+let sharedNonceManager: NonceManager | undefined;
+
+export function getNonceManager(): NonceManager {
+  sharedNonceManager ??= new NonceManager();
+  return sharedNonceManager;
+}
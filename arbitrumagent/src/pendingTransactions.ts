@@ -0,0 +1,230 @@
+import { ethers } from "ethers";
+import { log, TX_CONFIRMATIONS, TX_DROP_TIMEOUT_MS, TX_POLL_MS } from "./config";
+import type { SigningRequest } from "./blockchainTools";
+import type { NetworkConfig } from "./networks";
+
+// Settled transactions stay listed this long for getTransactionStatus, then they are forgotten
+const SETTLED_TTL_MS = 60 * 60 * 1000;
+
+// Broadcast transaction of a wallet, followed until it has TX_CONFIRMATIONS confirmations or another transaction takes
+// its nonce
+export interface TrackedTransaction {
+  hash: string;
+  owner: string;
+  chainId: number;
+  // Unknown when the node never returned the transaction
+  nonce?: number;
+  // Fees the wallet actually signed, in wei (gasPrice for legacy transactions)
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  // Request the wallet signed; replacements copy its kind and details
+  request: SigningRequest;
+  // mined: in a block but not TX_CONFIRMATIONS deep yet; dropped: the node has not known it (or could not be asked)
+  // for TX_DROP_TIMEOUT_MS. confirmed, failed (reverted), replaced and dropped are final.
+  status: "pending" | "mined" | "confirmed" | "failed" | "replaced" | "dropped";
+  // Speed-up or cancellation: the transaction this one replaces
+  replaces?: string;
+  // Mined transaction that took the nonce; unset when it was sent outside Averix
+  replacedBy?: string;
+  blockNumber?: number;
+  blockHash?: string;
+  confirmations: number;
+  // Times a reorg moved the transaction to another block or back to the mempool
+  reorgs: number;
+  // What was done once it settled, e.g. the address of a deployed token
+  outcome?: string;
+  submittedAt: string;
+  // Last time the node returned the transaction or its receipt
+  seenAt?: string;
+  settledAt?: string;
+}
+
+// Called once a watched transaction is confirmed, failed, replaced or dropped
+export type SettledHandler = (tracked: TrackedTransaction) => Promise<void>;
+
+export const isSettled = (entry: TrackedTransaction) => entry.status !== "pending" && entry.status !== "mined";
+
+// Pending transactions per wallet and chain, shared by all sessions; kept in memory only
+export class PendingTransactionTracker {
+  private entries = new Map<string, TrackedTransaction>();
+  // Transactions the background watcher polls, with the provider of their chain and what to do once they settle
+  // checkedAt is the last refresh that reached the node
+  private watched = new Map<string, { provider: ethers.Provider; onSettled: SettledHandler; checkedAt: number }>();
+  private providers = new Map<number, ethers.JsonRpcProvider>();
+  private watcher?: NodeJS.Timeout;
+  private polling = false;
+
+  list(owner: string, chainId: number): TrackedTransaction[] {
+    return [...this.entries.values()].filter((entry) => entry.owner === owner && entry.chainId === chainId);
+  }
+
+  find(owner: string, chainId: number, hash: string): TrackedTransaction | undefined {
+    const entry = this.entries.get(hash.toLowerCase());
+    return entry && entry.owner === owner && entry.chainId === chainId ? entry : undefined;
+  }
+
+  // Record a hash the wallet reported; the node may need a moment before it returns the transaction
+  async track(
+    provider: ethers.Provider,
+    request: SigningRequest,
+    hash: string,
+    replaces?: string
+  ): Promise<TrackedTransaction> {
+    let transaction: ethers.TransactionResponse | null = null;
+    for (let attempt = 0; attempt < 5 && !transaction; attempt++) {
+      if (attempt > 0) await new Promise((resolve) => setTimeout(resolve, 1000));
+      transaction = await provider.getTransaction(hash).catch(() => null);
+    }
+    this.evict();
+    const entry: TrackedTransaction = {
+      hash,
+      owner: request.transaction!.from,
+      chainId: request.transaction!.chainId,
+      nonce: transaction?.nonce,
+      maxFeePerGas: (transaction?.maxFeePerGas ?? transaction?.gasPrice)?.toString(),
+      maxPriorityFeePerGas: (transaction?.maxPriorityFeePerGas ?? transaction?.gasPrice)?.toString(),
+      request,
+      status: "pending",
+      replaces,
+      confirmations: 0,
+      reorgs: 0,
+      submittedAt: new Date().toISOString(),
+      seenAt: transaction ? new Date().toISOString() : undefined,
+    };
+    this.entries.set(hash.toLowerCase(), entry);
+    return entry;
+  }
+
+  // Forget transactions that settled more than SETTLED_TTL_MS ago, so the map does not grow with every send
+  private evict(): void {
+    const cutoff = Date.now() - SETTLED_TTL_MS;
+    for (const [hash, entry] of this.entries) {
+      if (entry.settledAt && Date.parse(entry.settledAt) < cutoff && !this.watched.has(hash)) this.entries.delete(hash);
+    }
+  }
+
+  private settle(entry: TrackedTransaction, status: "replaced" | "dropped"): void {
+    entry.status = status;
+    entry.settledAt = new Date().toISOString();
+  }
+
+  // Record where a receipt puts the transaction; once mined, the transaction it speeds up or cancels is replaced
+  private async applyReceipt(entry: TrackedTransaction, receipt: ethers.TransactionReceipt): Promise<TrackedTransaction> {
+    if (entry.blockHash && entry.blockHash !== receipt.blockHash) {
+      entry.reorgs++;
+      log.info(`Transaction ${entry.hash} moved from block ${entry.blockNumber} to ${receipt.blockNumber} in a reorg`);
+    }
+    entry.seenAt = new Date().toISOString();
+    entry.blockNumber = receipt.blockNumber;
+    entry.blockHash = receipt.blockHash;
+    entry.confirmations = await receipt.confirmations();
+    entry.status = entry.confirmations < TX_CONFIRMATIONS ? "mined" : receipt.status === 1 ? "confirmed" : "failed";
+    if (isSettled(entry)) entry.settledAt = new Date().toISOString();
+    const replaced = entry.replaces ? this.entries.get(entry.replaces.toLowerCase()) : undefined;
+    if (replaced && !isSettled(replaced)) {
+      this.settle(replaced, "replaced");
+      replaced.replacedBy = entry.hash;
+      log.info(`Transaction ${replaced.hash} (nonce ${replaced.nonce}) was replaced by ${entry.hash}`);
+    }
+    return entry;
+  }
+
+  // Check the receipt and its depth, notice reorgs, find another transaction mined with the same nonce, or give up
+  // on one the node has not known for TX_DROP_TIMEOUT_MS (it never arrived, or it left the mempool)
+  async refresh(provider: ethers.Provider, entry: TrackedTransaction): Promise<TrackedTransaction> {
+    if (isSettled(entry)) return entry;
+    const receipt = await provider.getTransactionReceipt(entry.hash);
+    if (receipt) return this.applyReceipt(entry, receipt);
+    if (entry.status === "mined") {
+      entry.reorgs++;
+      log.info(`Transaction ${entry.hash} left block ${entry.blockNumber} in a reorg and is pending again`);
+      Object.assign(entry, { status: "pending", blockNumber: undefined, blockHash: undefined, confirmations: 0 });
+    }
+
+    const transaction = await provider.getTransaction(entry.hash);
+    if (transaction) {
+      entry.seenAt = new Date().toISOString();
+      // The node may only have picked it up after track() gave up asking
+      if (entry.nonce === undefined) {
+        entry.nonce = transaction.nonce;
+        entry.maxFeePerGas = (transaction.maxFeePerGas ?? transaction.gasPrice)?.toString();
+        entry.maxPriorityFeePerGas = (transaction.maxPriorityFeePerGas ?? transaction.gasPrice)?.toString();
+      }
+    }
+
+    if (entry.nonce !== undefined && (await provider.getTransactionCount(entry.owner, "latest")) > entry.nonce) {
+      const rivals = this.list(entry.owner, entry.chainId).filter(
+        (other) => other.nonce === entry.nonce && other.hash !== entry.hash
+      );
+      for (const rival of rivals) {
+        if (!(await provider.getTransactionReceipt(rival.hash))) continue;
+        entry.replacedBy = rival.hash;
+        break;
+      }
+      if (!entry.replacedBy) {
+        // Mined itself between the receipt lookup above and the nonce count
+        const ownReceipt = await provider.getTransactionReceipt(entry.hash);
+        if (ownReceipt) return this.applyReceipt(entry, ownReceipt);
+      }
+      this.settle(entry, "replaced");
+      log.info(`Transaction ${entry.hash} (nonce ${entry.nonce}) was replaced${entry.replacedBy ? ` by ${entry.replacedBy}` : ""}`);
+      return entry;
+    }
+
+    if (Date.now() - Date.parse(entry.seenAt ?? entry.submittedAt) > TX_DROP_TIMEOUT_MS) {
+      this.settle(entry, "dropped");
+      log.info(`Transaction ${entry.hash} was dropped: the node has not known it since ${entry.seenAt ?? entry.submittedAt}`);
+    }
+    return entry;
+  }
+
+  // Follow a transaction in the background until it settles. The watcher has its own provider per chain, so it
+  // keeps going when the session switches networks or expires.
+  watch(network: NetworkConfig, entry: TrackedTransaction, onSettled: SettledHandler): void {
+    let provider = this.providers.get(network.chainId);
+    if (!provider) {
+      provider = new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true, cacheTimeout: -1 });
+      this.providers.set(network.chainId, provider);
+    }
+    this.watched.set(entry.hash.toLowerCase(), { provider, onSettled, checkedAt: Date.now() });
+    this.watcher ??= setInterval(() => void this.poll(), TX_POLL_MS).unref();
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+    try {
+      this.evict();
+      // A snapshot: a handler may watch its transaction again, which waits for the next round
+      for (const [hash, watched] of [...this.watched]) {
+        const entry = this.entries.get(hash)!;
+        try {
+          await this.refresh(watched.provider, entry);
+          watched.checkedAt = Date.now();
+        } catch (error) {
+          // RPC hiccup; the next round tries again, until the node has been unreachable for TX_DROP_TIMEOUT_MS
+          log.error(`Checking transaction ${entry.hash} failed:`, error);
+          if (Date.now() - watched.checkedAt <= TX_DROP_TIMEOUT_MS) continue;
+          this.settle(entry, "dropped");
+          log.info(`Stopped watching transaction ${entry.hash}: its node has failed every check since ${new Date(watched.checkedAt).toISOString()}`);
+        }
+        if (!isSettled(entry)) continue;
+        this.watched.delete(hash);
+        await watched.onSettled(entry).catch((error) => log.error(`Processing transaction ${entry.hash} failed:`, error));
+      }
+      if (this.watched.size === 0) {
+        clearInterval(this.watcher);
+        this.watcher = undefined;
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+}
+
+let sharedTracker: PendingTransactionTracker | undefined;
+
+export function getPendingTracker(): PendingTransactionTracker {
+  sharedTracker ??= new PendingTransactionTracker();
+  return sharedTracker;
+}
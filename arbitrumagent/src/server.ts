@@ -0,0 +1,664 @@
+import express, { Express, Request, Response, RequestHandler } from "express";
+import bodyParser from "body-parser";
+import cors from "cors";
+import { randomUUID } from "crypto";
+import { ethers } from "ethers";
+import { Command } from "@langchain/langgraph";
+import { AIMessage, HumanMessage, ToolMessage } from "@langchain/core/messages";
+import { SESSION_COOKIE, SESSION_HEADER, SESSION_TTL_MS, TX_CONFIRMATIONS, log } from "./config";
+import { AgentState, createAgent, deleteThreads, getCheckpointer } from "./agent";
+import { createChallenge, verifyChallenge, WalletChallenge } from "./auth";
+import { AirdropFormat, checkAirdropBalance, describeAirdropProgress, formatAirdropReport, importAirdrop } from "./airdrop";
+import { BlockchainTools, SigningRequest } from "./blockchainTools";
+import { classifyError, describeFailure, diagnoseRevert, formatFailure } from "./errors";
+import { formatGwei } from "./fees";
+import { TrackedTransaction } from "./pendingTransactions";
+import { AirdropRecord } from "./tokens";
+import { PendingAction } from "./tools";
+
+// Per-browser session: its own connected account, pending requests and agent
+export interface Session {
+  id: string;
+  blockchainTools: BlockchainTools;
+  agent: ReturnType<typeof createAgent>;
+  lastActive: number;
+  // Sign-in message handed out and not yet signed; the session's account is only set from a signed one
+  challenge?: WalletChallenge;
+}
+
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(private ttlMs: number) {}
+
+  get(id: string): Session {
+    // Start sweeping idle sessions once the first one exists
+    this.sweeper ??= setInterval(() => this.sweep(), Math.min(this.ttlMs, 60 * 1000)).unref();
+    let session = this.sessions.get(id);
+    if (!session) {
+      const blockchainTools = new BlockchainTools();
+      session = { id, blockchainTools, agent: createAgent(blockchainTools), lastActive: Date.now() };
+      this.sessions.set(id, session);
+      log.info(`Session ${id} created`);
+    }
+    session.lastActive = Date.now();
+    return session;
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [id, session] of this.sessions) {
+      if (now - session.lastActive > this.ttlMs) {
+        session.blockchainTools.clearAccount();
+        this.sessions.delete(id);
+        deleteThreads(getCheckpointer(), (threadId) => threadId.startsWith(`${id}:`));
+        log.info(`Session ${id} expired`);
+      }
+    }
+  }
+}
+
+const sessions = new SessionStore(SESSION_TTL_MS);
+
+// Session ID from the X-Session-Id header, falling back to the session cookie
+function resolveSessionId(req: Request): string {
+  const fromHeader = req.get(SESSION_HEADER);
+  const fromCookie = (req.headers.cookie || "")
+    .split(";")
+    .map((part) => part.trim().split("="))
+    .find(([key]) => key === SESSION_COOKIE)?.[1];
+  const candidate = fromHeader || fromCookie;
+  return candidate && /^[A-Za-z0-9-]{8,128}$/.test(candidate) ? candidate : randomUUID();
+}
+
+// Resolve the caller's session and echo its ID back as header and cookie
+function attachSession(req: Request, res: Response): Session {
+  const session = sessions.get(resolveSessionId(req));
+  res.setHeader("X-Session-Id", session.id);
+  res.cookie(SESSION_COOKIE, session.id, {
+    httpOnly: true,
+    secure: true,
+    sameSite: "none",
+    maxAge: SESSION_TTL_MS,
+  });
+  return session;
+}
+
+function threadConfig(session: Session, threadId: string | undefined) {
+  // Threads are namespaced by session so one browser can never resume another's conversation
+  return { configurable: { thread_id: `${session.id}:${threadId || "default"}` } };
+}
+
+// A request that names a wallet must come from a session signed in with that wallet (see auth.ts); the body alone
+// proves nothing. Replies 401 and returns false otherwise, so the browser signs in and retries.
+function checkWallet(session: Session, walletAddress: string | undefined, res: Response): boolean {
+  if (!walletAddress) return true;
+  const account = session.blockchainTools.getAccount();
+  if (account === ethers.getAddress(walletAddress)) return true;
+  res.status(401).json({
+    error: account ? "The wallet address does not match the signed-in wallet" : "Sign in with your wallet first",
+    signInRequired: true,
+  });
+  return false;
+}
+
+// Error body of a failed handler; node and wallet errors are explained in plain language (see errors.ts)
+const internalError = (error: unknown) => `Internal server error: ${describeFailure(error)}`;
+
+// Actions the thread is paused on, waiting for the user's confirmation
+async function getPendingActions(session: Session, threadId: string | undefined): Promise<PendingAction[]> {
+  const snapshot = await session.agent.getState(threadConfig(session, threadId));
+  return snapshot.tasks.flatMap((task) => task.interrupts.flatMap((pending) => pending.value as PendingAction[]));
+}
+
+// Events streamed to the browser while a turn runs (Server-Sent Events)
+export type AgentEvent =
+  | { type: "token"; content: string }
+  | { type: "tool_start"; id: string; name: string; input: unknown }
+  | { type: "tool_end"; id: string; name: string; output: string }
+  | {
+      type: "transaction";
+      requestId: string;
+      hash: string;
+      status: "submitted" | "confirmed" | "failed";
+      blockNumber?: number;
+    }
+  | { type: "done"; result: AgentResult }
+  | { type: "error"; error: string };
+
+type EmitEvent = (event: AgentEvent) => void;
+
+export interface AgentResult {
+  response: unknown;
+  threadId: string;
+  requests: SigningRequest[];
+  // Requests waiting for lower gas; the browser polls GET /agent/requests for them
+  heldRequests: number;
+  pendingActions: PendingAction[];
+  network: { key: string; name: string; chainId: number };
+}
+
+// Run one turn (a new message, or a resume after confirmation) and collect what the browser must act on
+export async function runAgent(
+  session: Session,
+  threadId: string | undefined,
+  input: string | Command,
+  emit: EmitEvent
+): Promise<AgentResult> {
+  const config = threadConfig(session, threadId);
+  const events = session.agent.streamEvents(
+    typeof input === "string" ? { messages: [new HumanMessage(input)] } : input,
+    { ...config, version: "v2" }
+  );
+  for await (const event of events) {
+    if (event.event === "on_chat_model_stream" && event.metadata?.langgraph_node === "agent") {
+      const content = event.data.chunk?.content;
+      if (typeof content === "string" && content) emit({ type: "token", content });
+    } else if (event.event === "on_chain_start" && event.name === "tools") {
+      // Announce every call of the AI message the tools node is about to run
+      const { messages } = event.data.input as AgentState;
+      const toolCalls = (messages[messages.length - 1] as AIMessage).tool_calls ?? [];
+      for (const call of toolCalls) {
+        emit({ type: "tool_start", id: call.id!, name: call.name, input: call.args });
+      }
+    } else if (event.event === "on_tool_end" && event.data.output instanceof ToolMessage) {
+      const output = event.data.output;
+      emit({
+        type: "tool_end",
+        id: output.tool_call_id,
+        name: output.name ?? event.name,
+        output: typeof output.content === "string" ? output.content : JSON.stringify(output.content),
+      });
+    }
+  }
+
+  const pendingActions = await getPendingActions(session, threadId);
+  const network = session.blockchainTools.getNetwork();
+  const { messages } = (await session.agent.getState(config)).values as AgentState;
+  const lastMessage = messages[messages.length - 1];
+  const released = await session.blockchainTools.releaseHeldRequests().catch((error) => {
+    log.error("Releasing held requests failed:", error);
+    return [];
+  });
+  return {
+    response: pendingActions.length > 0 ? "Please confirm the following action before I proceed." : lastMessage.content,
+    threadId: threadId || "default",
+    requests: [...released, ...session.blockchainTools.takeQueuedRequests()],
+    heldRequests: session.blockchainTools.heldCount(),
+    pendingActions,
+    network: { key: network.key, name: network.name, chainId: network.chainId },
+  };
+}
+
+// Result for a report that must not start a turn: the queue and the network as they are, nothing new to confirm
+function reportWithoutTurn(session: Session, threadId: string | undefined, response: string): AgentResult {
+  const network = session.blockchainTools.getNetwork();
+  return {
+    response,
+    threadId: threadId || "default",
+    requests: session.blockchainTools.takeQueuedRequests(),
+    heldRequests: session.blockchainTools.heldCount(),
+    pendingActions: [],
+    network: { key: network.key, name: network.name, chainId: network.chainId },
+  };
+}
+
+// Reply as an SSE stream when the browser asks for one, otherwise as a single JSON body
+async function respond(
+  req: Request,
+  res: Response,
+  label: string,
+  run: (emit: EmitEvent) => Promise<AgentResult>
+): Promise<void> {
+  if (!(req.get("accept") || "").includes("text/event-stream")) {
+    try {
+      res.json(await run(() => undefined));
+    } catch (error) {
+      log.error(`${label} error:`, error);
+      res.status(500).json({ error: internalError(error) });
+    }
+    return;
+  }
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.flushHeaders();
+  const emit: EmitEvent = (event) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+  try {
+    emit({ type: "done", result: await run(emit) });
+  } catch (error) {
+    log.error(`${label} error:`, error);
+    emit({ type: "error", error: internalError(error) });
+  }
+  res.end();
+}
+
+// First sign-in step: a one-time message for the wallet to sign
+const challengeHandler: RequestHandler = (req: Request, res: Response): void => {
+  const { walletAddress } = req.body as { walletAddress?: string };
+  if (!walletAddress || !ethers.isAddress(walletAddress)) {
+    res.status(400).json({ error: "Invalid wallet address" });
+    return;
+  }
+  const session = attachSession(req, res);
+  session.challenge = createChallenge(ethers.getAddress(walletAddress));
+  res.json({ message: session.challenge.message });
+};
+
+// Second step: a valid signature of the challenge binds the session to its wallet
+const signInHandler: RequestHandler = (req: Request, res: Response): void => {
+  const { signature } = req.body as { signature?: string };
+  const session = attachSession(req, res);
+  const challenge = session.challenge;
+  // Each challenge is good for one attempt
+  session.challenge = undefined;
+  if (!challenge || typeof signature !== "string" || !verifyChallenge(challenge, signature)) {
+    res.status(401).json({ error: "The signature does not match the sign-in challenge; request a new one" });
+    return;
+  }
+  const tools = session.blockchainTools;
+  // Another wallet's prepared requests must not be signed by this one
+  if (tools.getAccount() && tools.getAccount() !== challenge.address) tools.clearAccount();
+  tools.setAccount(challenge.address);
+  log.info(`Session ${session.id} signed in as ${challenge.address}`);
+  res.json({ walletAddress: challenge.address });
+};
+
+// Define agentHandler
+const agentHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+  const { input, walletAddress, threadId, simulationMode } = req.body as {
+    input?: string;
+    walletAddress?: string;
+    threadId?: string;
+    // Dashboard toggle; write tools are only simulated while it is on
+    simulationMode?: boolean;
+  };
+  if (!input) {
+    res.status(400).json({ error: "Input is required" });
+    return;
+  }
+  if (walletAddress && !ethers.isAddress(walletAddress)) {
+    res.status(400).json({ error: "Invalid wallet address" });
+    return;
+  }
+
+  const session = attachSession(req, res);
+  if (!checkWallet(session, walletAddress, res)) return;
+
+  try {
+    if ((await getPendingActions(session, threadId)).length > 0) {
+      res.status(409).json({ error: "Please confirm or cancel the pending action first" });
+      return;
+    }
+  } catch (error) {
+    log.error("Agent handler error:", error);
+    res.status(500).json({ error: internalError(error) });
+    return;
+  }
+  // Only a message that starts a turn may flip the toggle, never one refused while an action waits
+  if (typeof simulationMode === "boolean") session.blockchainTools.setSimulationMode(simulationMode);
+  await respond(req, res, "Agent handler", (emit) => runAgent(session, threadId, input, emit));
+};
+
+// The user approved or cancelled the actions the thread is paused on
+const confirmHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+  const { approved, threadId } = req.body as { approved?: boolean; threadId?: string };
+  if (typeof approved !== "boolean") {
+    res.status(400).json({ error: "approved must be true or false" });
+    return;
+  }
+
+  const session = attachSession(req, res);
+  try {
+    if ((await getPendingActions(session, threadId)).length === 0) {
+      res.status(409).json({ error: "There is no pending action to confirm" });
+      return;
+    }
+  } catch (error) {
+    log.error("Confirm handler error:", error);
+    res.status(500).json({ error: internalError(error) });
+    return;
+  }
+  await respond(req, res, "Confirm handler", (emit) =>
+    runAgent(session, threadId, new Command({ resume: { approved } }), emit)
+  );
+};
+
+// Follow-up once a broadcast transaction settled: registrations, airdrop rows and a summary kept as its outcome
+async function processSettledTransaction(tools: BlockchainTools, tracked: TrackedTransaction): Promise<void> {
+  const request = tracked.request;
+  const notes: string[] = [];
+  if (tracked.status === "replaced") {
+    const replacement = tracked.replacedBy ? tools.findTrackedTransaction(tracked.replacedBy) : undefined;
+    notes.push(
+      replacement
+        ? `${replacement.request.replaces?.action === "cancel" ? "Cancelled" : "Sped up"} by ${tools.explorerLink("tx", replacement.hash)}`
+        : "Another transaction with the same nonce was mined instead"
+    );
+    // Speed-ups carry the row themselves; for anything else it was never sent
+    if (request.airdrop && replacement?.request.replaces?.action !== "speedUp") {
+      tools.updateAirdropRow(request.airdrop.id, request.airdrop.row, {
+        status: "failed",
+        error: replacement ? "Cancelled" : "Replaced by another transaction",
+      });
+    }
+    tracked.outcome = notes.join(". ");
+    return;
+  }
+  if (tracked.status === "dropped") {
+    tracked.outcome = "It was never mined; send it again if it is still needed";
+    if (request.airdrop) {
+      tools.updateAirdropRow(request.airdrop.id, request.airdrop.row, { status: "failed", error: "Dropped by the network" });
+    }
+    return;
+  }
+
+  const receipt = await tools.getProvider().getTransactionReceipt(tracked.hash);
+  if (!receipt) {
+    // The watcher saw it mined, but the receipt is gone (a reorg) or not on this node yet (a lagging RPC)
+    log.info(`No receipt for settled transaction ${tracked.hash}; watching it again`);
+    Object.assign(tracked, { status: "pending", blockNumber: undefined, blockHash: undefined, confirmations: 0, settledAt: undefined });
+    tools.watchTransaction(tracked, (settled) => processSettledTransaction(tools, settled));
+    return;
+  }
+  // Receipts carry no reason, so a revert is replayed to find out why; a registered contract's ABI decodes its
+  // custom errors
+  const contract = request.kind === "writeContract" && receipt.to ? tools.findContract(receipt.to) : undefined;
+  const failure =
+    receipt.status === 1
+      ? undefined
+      : await diagnoseRevert(tools.getProvider(), receipt, contract && new ethers.Interface(contract.abi));
+  notes.push(
+    failure
+      ? `Reverted in block ${receipt.blockNumber}: ${formatFailure(failure)}`
+      : `Confirmed in block ${receipt.blockNumber}`,
+    `Fee paid: ${ethers.formatEther(receipt.fee)} ETH (${receipt.gasUsed} gas at ${formatGwei(receipt.gasPrice)})`
+  );
+  if (receipt.status === 1 && receipt.contractAddress && request.kind === "createToken" && request.token) {
+    const record = await tools.registerToken(request.transaction!.from, receipt.contractAddress, {
+      template: request.token.template,
+      deployer: receipt.from,
+      deployTx: tracked.hash,
+    });
+    log.info(`Token ${request.token.name} (${request.token.symbol}) created at: ${receipt.contractAddress}`);
+    notes.push(`Token deployed at ${tools.explorerLink("address", receipt.contractAddress)}`);
+    if (request.token.verify && tools.getVerificationClient()) {
+      // Explorer verification takes a minute or more; verifyToken reports the result
+      tools.verifyToken(record).catch((verifyError) => log.error(`Verification of ${record.symbol} failed:`, verifyError));
+      notes.push("Source verification on the explorer has started");
+    } else if (request.token.verify) {
+      notes.push(`Source verification skipped: ${tools.getNetwork().name} has no verification API`);
+    }
+  }
+  if (receipt.status === 1 && receipt.contractAddress && request.kind === "createNftCollection" && request.token) {
+    await tools.registerCollection(request.transaction!.from, receipt.contractAddress, {
+      deployer: receipt.from,
+      deployTx: tracked.hash,
+    });
+    log.info(`NFT collection ${request.token.name} (${request.token.symbol}) created at: ${receipt.contractAddress}`);
+    notes.push(`Collection deployed at ${tools.explorerLink("address", receipt.contractAddress)}`);
+  }
+  if (receipt.status === 1 && receipt.contractAddress && request.kind === "deployDisperse") {
+    tools.registerDeployment("AverixDisperse", receipt.contractAddress, {
+      deployer: receipt.from,
+      deployTx: tracked.hash,
+    });
+    notes.push(`Batch contract deployed at ${tools.explorerLink("address", receipt.contractAddress)}`);
+  }
+  if (receipt.status === 1 && request.kind === "mintNft" && request.token?.address) {
+    notes.push(tools.describeNftMint(request.token.address, receipt));
+  }
+  if (receipt.status === 1 && request.kind === "burnToken" && request.token?.address) {
+    notes.push(await tools.describeBurn(request.token.address, receipt));
+  }
+  if (receipt.status === 1 && request.replaces?.action === "cancel") {
+    const cancelled = tools.findTrackedTransaction(request.replaces.hash);
+    notes.push(`Transaction ${request.replaces.hash} is cancelled`);
+    if (cancelled?.request.airdrop) {
+      const { id, row } = cancelled.request.airdrop;
+      tools.updateAirdropRow(id, row, { status: "failed", error: "Cancelled" });
+    }
+  }
+  if (request.airdrop) {
+    tools.updateAirdropRow(
+      request.airdrop.id,
+      request.airdrop.row,
+      failure ? { status: "failed", error: `Reverted: ${failure.reason}` } : { status: "confirmed" }
+    );
+  }
+  tracked.outcome = notes.join(". ");
+}
+
+// The browser reports back once the user's wallet signed (or rejected) a prepared request
+const signingResultHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+  const { hash, signature, error, threadId } = req.body as {
+    hash?: string;
+    signature?: string;
+    error?: string;
+    threadId?: string;
+  };
+  if (!hash && !signature && !error) {
+    res.status(400).json({ error: "One of hash, signature or error is required" });
+    return;
+  }
+  // Checked before the request is completed, so a malformed report leaves it pending for a correct one
+  if (hash && !ethers.isHexString(hash, 32)) {
+    res.status(400).json({ error: "Invalid transaction hash" });
+    return;
+  }
+  const session = attachSession(req, res);
+  const request = session.blockchainTools.completeRequest(req.params.id);
+  if (!request) {
+    res.status(404).json({ error: "Unknown signing request" });
+    return;
+  }
+
+  session.blockchainTools.settleNonce(request, error || undefined);
+
+  await respond(req, res, "Signing result handler", async (emit) => {
+    let outcome: string;
+    if (error) {
+      const failure = classifyError(error);
+      outcome = `was not completed: ${formatFailure(failure)}`;
+      // A rejected speed-up leaves the original transaction (and its row) pending
+      if (request.airdrop && !request.replaces) {
+        session.blockchainTools.updateAirdropRow(request.airdrop.id, request.airdrop.row, {
+          status: "failed",
+          error: failure.reason,
+        });
+      }
+    } else if (signature) {
+      outcome = `was signed. Signature: ${signature}`;
+    } else {
+      const txHash = hash!;
+      // Saved right away, so a restart cannot make the row look unsent
+      if (request.airdrop) {
+        session.blockchainTools.updateAirdropRow(request.airdrop.id, request.airdrop.row, { status: "sent", txHash });
+      }
+      // Confirmation is followed in the background, so this turn does not wait for a block
+      const tracked = await session.blockchainTools.trackTransaction(request, txHash);
+      session.blockchainTools.watchTransaction(tracked, (settled) => processSettledTransaction(session.blockchainTools, settled));
+      emit({ type: "transaction", requestId: request.id, hash: txHash, status: "submitted" });
+      outcome = `was signed and broadcast (tracking ID ${txHash}). Tx: ${session.blockchainTools.explorerLink("tx", txHash)}. Confirmation is tracked in the background; getTransactionStatus reports it`;
+    }
+    if (request.airdrop) {
+      const record = session.blockchainTools.findAirdrop(request.airdrop.id);
+      if (record) outcome += `. Airdrop ${record.id} progress: ${describeAirdropProgress(record)}`;
+    }
+
+    const report = `Request ${request.id} (${request.description}) ${outcome}`;
+    // A turn now would abandon the confirmation the thread is paused on (e.g. a held request released meanwhile),
+    // so the result is only recorded and reported; the paused action keeps its card in the browser
+    if ((await getPendingActions(session, threadId)).length > 0) return reportWithoutTurn(session, threadId, report);
+    return runAgent(session, threadId, `[Wallet] ${report}`, emit);
+  });
+};
+
+// The browser asks for a nonce right before the wallet signs a transaction, so overlapping requests on one wallet
+// (another tab, released held requests) are numbered in the order they are signed
+const nonceHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+  const session = attachSession(req, res);
+  if (!session.blockchainTools.isPendingRequest(req.params.id)) {
+    res.status(404).json({ error: "Unknown signing request" });
+    return;
+  }
+  try {
+    res.json({ nonce: await session.blockchainTools.reserveNonce(req.params.id) });
+  } catch (error) {
+    log.error("Nonce handler error:", error);
+    res.status(500).json({ error: internalError(error) });
+  }
+};
+
+// Polled by the dashboard's status badge until a broadcast transaction settles
+const transactionStatusHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+  const session = attachSession(req, res);
+  try {
+    const tracked = await session.blockchainTools.getTransactionStatus(req.params.id);
+    if (!tracked) {
+      res.status(404).json({ error: "Unknown transaction" });
+      return;
+    }
+    const { hash, status, confirmations, blockNumber, reorgs, replacedBy, outcome } = tracked;
+    res.json({
+      transaction: {
+        hash,
+        description: tracked.request.description,
+        status,
+        confirmations,
+        requiredConfirmations: TX_CONFIRMATIONS,
+        blockNumber,
+        reorgs,
+        replacedBy,
+        outcome,
+      },
+    });
+  } catch (error) {
+    log.error("Transaction status handler error:", error);
+    res.status(500).json({ error: internalError(error) });
+  }
+};
+
+// Polled by the browser while requests wait for lower gas; hands out the ones that may go to the wallet now
+const heldRequestsHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+  const session = attachSession(req, res);
+  try {
+    const requests = await session.blockchainTools.releaseHeldRequests();
+    res.json({ requests, heldRequests: session.blockchainTools.heldCount() });
+  } catch (error) {
+    log.error("Held requests handler error:", error);
+    res.status(500).json({ error: internalError(error) });
+  }
+};
+
+// Allowance overview for the dashboard; revoking goes through the agent so it is confirmed and signed
+const allowancesHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+  const session = attachSession(req, res);
+  if (!session.blockchainTools.getAccount()) {
+    res.json({ allowances: [], partial: false });
+    return;
+  }
+  try {
+    res.json(await session.blockchainTools.getAllowances());
+  } catch (error) {
+    log.error("Allowances handler error:", error);
+    res.status(500).json({ error: internalError(error) });
+  }
+};
+
+// Airdrop with the balance problems of the rows still to send, as shown in the dashboard preview
+async function airdropView(session: Session, record: AirdropRecord) {
+  const remaining = record.rows.filter((row) => row.status === "pending" || row.status === "failed");
+  return { ...record, problems: remaining.length > 0 ? await checkAirdropBalance(session.blockchainTools, remaining) : [] };
+}
+
+// Upload of a CSV or JSON airdrop file; the rows are validated and saved, sending goes through runAirdrop
+const importAirdropHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+  const { content, fileName, walletAddress } = req.body as { content?: string; fileName?: string; walletAddress?: string };
+  if (typeof content !== "string" || !content.trim()) {
+    res.status(400).json({ error: "content must hold the CSV or JSON file" });
+    return;
+  }
+  if (walletAddress && !ethers.isAddress(walletAddress)) {
+    res.status(400).json({ error: "Invalid wallet address" });
+    return;
+  }
+  const session = attachSession(req, res);
+  if (!checkWallet(session, walletAddress, res)) return;
+  if (!session.blockchainTools.getAccount()) {
+    res.status(400).json({ error: "Log in with your wallet before importing an airdrop" });
+    return;
+  }
+
+  const name = fileName?.trim() || "airdrop.csv";
+  const format: AirdropFormat = name.toLowerCase().endsWith(".json") || content.trim().startsWith("[") ? "json" : "csv";
+  let record: AirdropRecord;
+  try {
+    record = importAirdrop(session.blockchainTools, content, format, name);
+  } catch (error) {
+    res.status(400).json({ error: error instanceof Error ? error.message : String(error) });
+    return;
+  }
+  try {
+    log.info(`Airdrop ${record.id} imported: ${describeAirdropProgress(record)}`);
+    res.json({ airdrop: await airdropView(session, record) });
+  } catch (error) {
+    log.error("Import airdrop handler error:", error);
+    res.status(500).json({ error: internalError(error) });
+  }
+};
+
+const airdropHandler: RequestHandler = async (req: Request, res: Response): Promise<void> => {
+  const session = attachSession(req, res);
+  const record = session.blockchainTools.findAirdrop(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: "Unknown airdrop" });
+    return;
+  }
+  try {
+    res.json({ airdrop: await airdropView(session, record) });
+  } catch (error) {
+    log.error("Airdrop handler error:", error);
+    res.status(500).json({ error: internalError(error) });
+  }
+};
+
+// Per-row results as a CSV download
+const airdropReportHandler: RequestHandler = (req: Request, res: Response): void => {
+  const session = attachSession(req, res);
+  const record = session.blockchainTools.findAirdrop(req.params.id);
+  if (!record) {
+    res.status(404).json({ error: "Unknown airdrop" });
+    return;
+  }
+  res.setHeader("Content-Type", "text/csv");
+  res.setHeader("Content-Disposition", `attachment; filename="airdrop-${record.id}-report.csv"`);
+  res.send(formatAirdropReport(record));
+};
+
+// Express app with CORS and the agent routes; the entry point decides where it listens
+export function createServer(): Express {
+  const app = express();
+  app.use(cors({ origin: "https://averix-ai.vercel.app", credentials: true, exposedHeaders: ["X-Session-Id"] }));
+  app.use(bodyParser.json());
+  app.get("/", (req: Request, res: Response) => {
+    res.json({ message: "Welcome to Arbitrum AI Agent! Use POST /agent to interact with the agent." });
+  });
+  app.post("/agent/auth/challenge", challengeHandler);
+  app.post("/agent/auth", signInHandler);
+  app.post("/agent", agentHandler);
+  app.post("/agent/confirm", confirmHandler);
+  app.get("/agent/requests", heldRequestsHandler);
+  app.post("/agent/requests/:id", signingResultHandler);
+  app.post("/agent/requests/:id/nonce", nonceHandler);
+  app.get("/agent/transactions/:id", transactionStatusHandler);
+  app.get("/agent/allowances", allowancesHandler);
+  app.post("/agent/airdrops", importAirdropHandler);
+  app.get("/agent/airdrops/:id", airdropHandler);
+  app.get("/agent/airdrops/:id/report", airdropReportHandler);
+  return app;
+}
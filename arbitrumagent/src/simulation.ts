@@ -0,0 +1,276 @@
+import { ethers } from "ethers";
+import { DynamicStructuredTool, StructuredTool } from "@langchain/core/tools";
+import AverixDisperse from "../contracts/AverixDisperse.json";
+import { BlockchainTools, SigningRequest } from "./blockchainTools";
+import { classifyError, FailureReason, formatFailure } from "./errors";
+import { estimateL1Component } from "./gas";
+import { ERC20_ABI } from "./tokens";
+
+// ERC-20 calls whose balance effect can be read from the calldata, including the template tokens' mint
+const transferInterface = new ethers.Interface([...ERC20_ABI, "function mint(address to, uint256 value)"]);
+const disperseInterface = new ethers.Interface(AverixDisperse.abi);
+const TRANSFER_TOPIC = ethers.id("Transfer(address,address,uint256)");
+
+type Transaction = NonNullable<SigningRequest["transaction"]>;
+
+export interface BalanceChange {
+  account: string;
+  // "ETH" or the token symbol
+  asset: string;
+  before: string;
+  after: string;
+  delta: string;
+}
+
+export interface SimulationResult {
+  description: string;
+  success: boolean;
+  // Why it would fail, decoded from the revert or the node's error
+  failure?: FailureReason;
+  gas?: bigint;
+  // Arbitrum charges L1 data posting as extra L2 gas; both parts are in wei at the current base fee
+  l1Gas?: bigint;
+  l2Fee?: bigint;
+  l1Fee?: bigint;
+  balanceChanges: BalanceChange[];
+  // "trace" when the node could trace the call, otherwise balance changes are decoded from the calldata
+  changesSource: "trace" | "calldata";
+}
+
+interface CallFrame {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  error?: string;
+  calls?: CallFrame[];
+  logs?: { address: string; topics: string[]; data: string }[];
+}
+
+// Per account and asset ("ETH" or token address) balance deltas
+class Deltas extends Map<string, bigint> {
+  add(account: string, asset: string, amount: bigint): void {
+    const key = `${ethers.getAddress(account)}|${asset === "ETH" ? asset : ethers.getAddress(asset)}`;
+    this.set(key, (this.get(key) ?? 0n) + amount);
+  }
+}
+
+// ETH moved by successful call frames and ERC-20 Transfer events they emitted
+function collectTrace(frame: CallFrame, deltas: Deltas): void {
+  if (frame.error) return;
+  const value = BigInt(frame.value ?? "0x0");
+  if (value > 0n && frame.to && ["CALL", "CREATE", "CREATE2"].includes(frame.type)) {
+    deltas.add(frame.from, "ETH", -value);
+    deltas.add(frame.to, "ETH", value);
+  }
+  for (const log of frame.logs ?? []) {
+    // ERC-721 Transfer has a fourth (tokenId) topic
+    if (log.topics[0] !== TRANSFER_TOPIC || log.topics.length !== 3) continue;
+    const amount = BigInt(log.data);
+    deltas.add(ethers.dataSlice(log.topics[1], 12), log.address, -amount);
+    deltas.add(ethers.dataSlice(log.topics[2], 12), log.address, amount);
+  }
+  for (const call of frame.calls ?? []) collectTrace(call, deltas);
+}
+
+// Fallback for nodes without debug_traceCall: the effect the calldata asks for (misses e.g. transfer taxes)
+function decodeCalldata(transaction: Transaction, deltas: Deltas): void {
+  const value = BigInt(transaction.value ?? "0x0");
+  const data = transaction.data ?? "0x";
+  const disperse = transaction.to ? disperseInterface.parseTransaction({ data, value }) : null;
+  if (disperse) {
+    const [recipients, values, tokens, tokenRecipients, tokenValues] = disperse.args as unknown as [
+      string[],
+      bigint[],
+      string[],
+      string[],
+      bigint[],
+    ];
+    recipients.forEach((recipient, index) => {
+      deltas.add(transaction.from, "ETH", -values[index]);
+      deltas.add(recipient, "ETH", values[index]);
+    });
+    tokens.forEach((token, index) => {
+      deltas.add(transaction.from, token, -tokenValues[index]);
+      deltas.add(tokenRecipients[index], token, tokenValues[index]);
+    });
+    return;
+  }
+  if (value > 0n && transaction.to) {
+    deltas.add(transaction.from, "ETH", -value);
+    deltas.add(transaction.to, "ETH", value);
+  }
+  const call = transaction.to && data !== "0x" ? transferInterface.parseTransaction({ data }) : null;
+  if (!call || !transaction.to) return;
+  const token = transaction.to;
+  if (call.name === "transfer") {
+    const [to, amount]: [string, bigint] = [call.args[0], call.args[1]];
+    deltas.add(transaction.from, token, -amount);
+    deltas.add(to, token, amount);
+  } else if (call.name === "transferFrom") {
+    const [from, to, amount]: [string, string, bigint] = [call.args[0], call.args[1], call.args[2]];
+    deltas.add(from, token, -amount);
+    deltas.add(to, token, amount);
+  } else if (call.name === "burn") {
+    const amount: bigint = call.args[0];
+    deltas.add(transaction.from, token, -amount);
+  } else if (call.name === "mint") {
+    const [to, amount]: [string, bigint] = [call.args[0], call.args[1]];
+    deltas.add(to, token, amount);
+  }
+}
+
+async function traceCall(provider: ethers.JsonRpcProvider, transaction: Transaction): Promise<CallFrame | undefined> {
+  try {
+    const { from, to, data, value } = transaction;
+    return await provider.send("debug_traceCall", [
+      { from, to, data, value },
+      "latest",
+      { tracer: "callTracer", tracerConfig: { withLog: true } },
+    ]);
+  } catch {
+    return undefined;
+  }
+}
+
+// Current and resulting balance for every non-zero delta
+async function describeDeltas(tools: BlockchainTools, deltas: Deltas): Promise<BalanceChange[]> {
+  const provider = tools.getProvider();
+  const changes: BalanceChange[] = [];
+  for (const [key, delta] of deltas) {
+    if (delta === 0n) continue;
+    const [account, asset] = key.split("|");
+    let symbol = "ETH";
+    let decimals = 18;
+    let before: bigint;
+    if (asset === "ETH") {
+      before = await provider.getBalance(account);
+    } else {
+      const contract = new ethers.Contract(asset, ERC20_ABI, provider);
+      const known = tools.getTokens().find((token) => token.address === asset);
+      symbol = known?.symbol ?? asset;
+      decimals = known?.decimals ?? 0;
+      if (!known) {
+        try {
+          [symbol, decimals] = await Promise.all([contract.symbol(), contract.decimals().then(Number)]);
+        } catch {
+          // Not a standard ERC-20; show raw units against the address
+        }
+      }
+      before = await contract.balanceOf(account);
+    }
+    const format = (amount: bigint) => ethers.formatUnits(amount, decimals);
+    changes.push({
+      account,
+      asset: symbol,
+      before: format(before),
+      after: format(before + delta),
+      delta: `${delta > 0n ? "+" : ""}${format(delta)}`,
+    });
+  }
+  return changes;
+}
+
+// Run one prepared request against the current state without broadcasting it
+export async function simulateRequest(tools: BlockchainTools, request: SigningRequest): Promise<SimulationResult> {
+  const result: SimulationResult = {
+    description: request.description,
+    success: true,
+    balanceChanges: [],
+    changesSource: "calldata",
+  };
+  const transaction = request.transaction;
+  if (!transaction) return result;
+
+  const provider = tools.getProvider();
+  try {
+    await provider.call(transaction);
+  } catch (error) {
+    return { ...result, success: false, failure: classifyError(error, transferInterface) };
+  }
+
+  const [gas, l1, feeData] = await Promise.all([
+    provider.estimateGas(transaction).catch(() => undefined),
+    estimateL1Component(provider, transaction),
+    provider.getFeeData(),
+  ]);
+  const deltas = new Deltas();
+  if (gas !== undefined) {
+    // Arbitrum charges the base fee; elsewhere use the node's gas price
+    const price = l1?.baseFee ?? feeData.gasPrice ?? 0n;
+    const l1Gas = l1 && l1.gas < gas ? l1.gas : 0n;
+    result.gas = gas;
+    result.l2Fee = (gas - l1Gas) * price;
+    if (l1) {
+      result.l1Gas = l1Gas;
+      result.l1Fee = l1Gas * price;
+    }
+    deltas.add(transaction.from, "ETH", -(gas * price));
+  }
+
+  const trace = await traceCall(provider, transaction);
+  if (trace) {
+    result.changesSource = "trace";
+    collectTrace(trace, deltas);
+  } else {
+    decodeCalldata(transaction, deltas);
+  }
+  result.balanceChanges = await describeDeltas(tools, deltas);
+  return result;
+}
+
+// Tool output for a dry run of every request a write tool prepared
+export async function simulateRequests(tools: BlockchainTools, requests: SigningRequest[]): Promise<string> {
+  const account = tools.getAccount();
+  const lines = ["Simulation only: nothing was sent to the wallet or broadcast."];
+  if (requests.length > 1) {
+    lines.push("Each transaction was simulated on its own against the current state, so later ones do not see the effect of earlier ones.");
+  }
+  for (const [index, request] of requests.entries()) {
+    if (!request.transaction) {
+      lines.push(`${index + 1}. ${request.description}: only a signature, nothing happens on-chain`);
+      continue;
+    }
+    const result = await simulateRequest(tools, request);
+    if (!result.success) {
+      lines.push(`${index + 1}. ${result.description}: would fail: ${formatFailure(result.failure!)}`);
+      continue;
+    }
+    lines.push(`${index + 1}. ${result.description}: would succeed`);
+    if (result.gas !== undefined) {
+      lines.push(
+        `   Gas: ${result.gas} units${result.l1Gas !== undefined ? ` (${result.gas - result.l1Gas} L2 execution, ${result.l1Gas} L1 data)` : ""}`
+      );
+      lines.push(
+        `   L2 execution fee: ${ethers.formatEther(result.l2Fee!)} ETH, L1 data fee: ${
+          result.l1Fee !== undefined ? `${ethers.formatEther(result.l1Fee)} ETH` : `not reported by ${tools.getNetwork().name}`
+        }`
+      );
+    }
+    if (result.balanceChanges.length > 0) {
+      const source = result.changesSource === "trace" ? "" : " (from the calldata; the node cannot trace calls)";
+      lines.push(`   Balance changes${source}:`);
+      for (const change of result.balanceChanges) {
+        const who = change.account === account ? "you" : change.account;
+        lines.push(`   - ${who}: ${change.before} -> ${change.after} ${change.asset} (${change.delta})`);
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+// Stand-in for a write tool: runs it, then simulates and discards the requests it prepared instead of
+// handing them to the wallet
+export function simulatedTool(tools: BlockchainTools, tool: StructuredTool): StructuredTool {
+  return new DynamicStructuredTool({
+    name: tool.name,
+    description: tool.description,
+    schema: tool.schema,
+    func: async (args: Record<string, unknown>) => {
+      const from = tools.queuedCount();
+      const output = await tool.invoke({ ...args, simulate: true });
+      const requests = tools.discardQueuedRequests(from);
+      return requests.length > 0 ? simulateRequests(tools, requests) : output;
+    },
+  });
+}
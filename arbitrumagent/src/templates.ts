@@ -0,0 +1,135 @@
+import { z } from "zod";
+import { ethers } from "ethers";
+import AverixToken from "../contracts/AverixToken.json";
+import AverixMintableToken from "../contracts/AverixMintableToken.json";
+import AverixCappedToken from "../contracts/AverixCappedToken.json";
+import AverixPausableToken from "../contracts/AverixPausableToken.json";
+import AverixTaxToken from "../contracts/AverixTaxToken.json";
+import { ContractArtifact } from "./verification";
+
+// Administrative capabilities a template may offer; follow-up tools check these before preparing a call
+export type TemplateFeature = "mint" | "cap" | "pause" | "tax" | "ownership";
+
+export const TEMPLATE_KEYS = ["fixed", "mintable", "capped", "pausable", "tax"] as const;
+export type TemplateKey = (typeof TEMPLATE_KEYS)[number];
+
+// Deployer and token settings a template needs to turn its parameters into constructor arguments
+export interface TemplateContext {
+  deployer: string;
+  decimals: number;
+  initialSupply: bigint;
+}
+
+// Precompiled ERC-20 the createToken tool can deploy (see contracts/AverixTemplates.sol)
+export interface TokenTemplate {
+  key: TemplateKey;
+  name: string;
+  description: string;
+  features: TemplateFeature[];
+  artifact: ContractArtifact;
+  // Template-specific constructor parameters, filled by the LLM as strings
+  params: z.AnyZodObject;
+  // Validated params -> constructor arguments that follow (name, symbol, decimals, initialSupply)
+  constructorArgs(params: Record<string, string>, context: TemplateContext): unknown[];
+}
+
+const amountParam = (description: string) =>
+  z.string().regex(/^\d+(\.\d+)?$/, "must be a positive number in whole token units").describe(description);
+
+export const TOKEN_TEMPLATES: Record<TemplateKey, TokenTemplate> = {
+  fixed: {
+    key: "fixed",
+    name: "Fixed supply",
+    description: "Burnable ERC-20 with the whole supply minted to the deployer and no owner",
+    features: [],
+    artifact: AverixToken,
+    params: z.object({}).strict(),
+    constructorArgs: () => [],
+  },
+  mintable: {
+    key: "mintable",
+    name: "Mintable",
+    description: "Burnable ERC-20 whose owner (the deployer) can mint more tokens and hand over ownership",
+    features: ["mint", "ownership"],
+    artifact: AverixMintableToken,
+    params: z.object({}).strict(),
+    constructorArgs: () => [],
+  },
+  capped: {
+    key: "capped",
+    name: "Capped supply",
+    description: "Mintable ERC-20 whose total supply can never exceed a cap",
+    features: ["mint", "cap", "ownership"],
+    artifact: AverixCappedToken,
+    params: z
+      .object({
+        cap: amountParam("Maximum total supply in whole token units, at least the initial supply"),
+      })
+      .strict(),
+    constructorArgs: ({ cap }, { decimals, initialSupply }) => {
+      const value = ethers.parseUnits(cap, decimals);
+      if (value < initialSupply) throw new Error(`Cap ${cap} is below the initial supply`);
+      return [value];
+    },
+  },
+  pausable: {
+    key: "pausable",
+    name: "Pausable",
+    description: "Burnable ERC-20 whose owner can pause and resume all transfers",
+    features: ["pause", "ownership"],
+    artifact: AverixPausableToken,
+    params: z.object({}).strict(),
+    constructorArgs: () => [],
+  },
+  tax: {
+    key: "tax",
+    name: "Transfer tax",
+    description: "Burnable ERC-20 that sends a share of every transfer (up to 10%) to a treasury address",
+    features: ["tax", "ownership"],
+    artifact: AverixTaxToken,
+    params: z
+      .object({
+        taxPercent: z
+          .string()
+          .regex(/^\d+(\.\d{1,2})?$/, "must be a percentage with at most two decimals")
+          .refine((value) => Number(value) <= 10, "must be at most 10")
+          .describe("Share of each transfer sent to the treasury, in percent (0-10, e.g. 2.5)"),
+        treasury: z
+          .string()
+          .refine((value) => ethers.isAddress(value), "must be an address")
+          .optional()
+          .describe("Address receiving the tax (defaults to the deployer)"),
+      })
+      .strict(),
+    constructorArgs: ({ taxPercent, treasury }, { deployer }) => [
+      Math.round(Number(taxPercent) * 100),
+      treasury ?? deployer,
+    ],
+  },
+};
+
+export function getTemplate(key: string): TokenTemplate | undefined {
+  return (TEMPLATE_KEYS as readonly string[]).includes(key) ? TOKEN_TEMPLATES[key as TemplateKey] : undefined;
+}
+
+// Validate the LLM-supplied params against the template schema; a message listing the problems otherwise
+export function parseTemplateParams(
+  template: TokenTemplate,
+  params: Record<string, string> = {}
+): Record<string, string> | string {
+  const result = template.params.safeParse(params);
+  if (result.success) return result.data;
+  const problems = result.error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join(".")} ${issue.message}` : issue.message
+  );
+  return `Invalid parameters for the ${template.key} template: ${problems.join("; ")}`;
+}
+
+// One-line parameter list, e.g. "cap (required): Maximum total supply ..."
+export function describeTemplateParams(template: TokenTemplate): string {
+  const entries = Object.entries(template.params.shape as Record<string, z.ZodTypeAny>);
+  if (entries.length === 0) return "no extra parameters";
+  return entries
+    .map(([name, schema]) => `${name} (${schema.isOptional() ? "optional" : "required"}): ${schema.description}`)
+    .join("; ");
+}
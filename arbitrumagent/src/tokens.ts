@@ -0,0 +1,253 @@
+import * as fs from "fs";
+import * as path from "path";
+import { TOKEN_REGISTRY_FILE, log } from "./config";
+
+// ERC-20 ABI for interacting with deployed tokens
+export const ERC20_ABI = [
+  "function transfer(address to, uint256 value) public returns (bool)",
+  "function approve(address spender, uint256 value) public returns (bool)",
+  "function transferFrom(address from, address to, uint256 value) public returns (bool)",
+  "function allowance(address owner, address spender) public view returns (uint256)",
+  "function balanceOf(address account) public view returns (uint256)",
+  "function totalSupply() public view returns (uint256)",
+  "function burn(uint256 value) public returns (bool)",
+  "function name() public view returns (string)",
+  "function symbol() public view returns (string)",
+  "function decimals() public view returns (uint8)",
+  "event Burn(address indexed burner, uint256 value)",
+];
+
+// ERC-721 ABI for collections deployed from contracts/AverixNft.sol
+export const ERC721_ABI = [
+  "function name() public view returns (string)",
+  "function symbol() public view returns (string)",
+  "function baseURI() public view returns (string)",
+  "function maxSupply() public view returns (uint256)",
+  "function totalSupply() public view returns (uint256)",
+  "function owner() public view returns (address)",
+  "function balanceOf(address account) public view returns (uint256)",
+  "function ownerOf(uint256 tokenId) public view returns (address)",
+  "function tokenURI(uint256 tokenId) public view returns (string)",
+  "function tokensOfOwner(address account) public view returns (uint256[])",
+  "function mint(address to) public returns (uint256)",
+  "function safeTransferFrom(address from, address to, uint256 tokenId) public",
+  "event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)",
+];
+
+// Token known to the agent, scoped to the user (owner) and chain it was added for
+export interface TokenRecord {
+  owner: string;
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  // Total supply in base units when the token was deployed (or imported)
+  initialSupply?: string;
+  // Key of the template it was deployed from (see templates.ts); unset for imported tokens
+  template?: string;
+  deployer?: string;
+  deployTx?: string;
+  // Latest explorer source verification result (see verification.ts)
+  verification?: { state: "pending" | "verified" | "failed"; message: string; updatedAt: string };
+  addedAt: string;
+}
+
+// ERC-721 collection deployed by the agent, scoped like TokenRecord
+export interface NftCollectionRecord {
+  owner: string;
+  chainId: number;
+  address: string;
+  name: string;
+  symbol: string;
+  baseURI: string;
+  // "0" means unlimited
+  maxSupply: string;
+  deployer?: string;
+  deployTx?: string;
+  addedAt: string;
+}
+
+// Contract the user registered for readContract/writeContract; abi holds human-readable signatures
+export interface ContractRecord {
+  owner: string;
+  chainId: number;
+  address: string;
+  name: string;
+  abi: string[];
+  addedAt: string;
+}
+
+// Shared helper contract (e.g. AverixDisperse) deployed once per chain and used by every wallet
+export interface DeploymentRecord {
+  chainId: number;
+  contract: string;
+  address: string;
+  deployer?: string;
+  deployTx?: string;
+  addedAt: string;
+}
+
+// One line of an imported airdrop file and how far it got (see airdrop.ts)
+export interface AirdropRow {
+  // Line in a CSV file, position in a JSON array
+  row: number;
+  type: string;
+  to: string;
+  amount: string;
+  token?: string;
+  status: "invalid" | "pending" | "queued" | "sent" | "confirmed" | "failed" | "unknown";
+  error?: string;
+  requestId?: string;
+  txHash?: string;
+}
+
+// Imported airdrop, executed chunk by chunk; saved after every row update so it can be resumed
+export interface AirdropRecord {
+  id: string;
+  owner: string;
+  chainId: number;
+  fileName: string;
+  rows: AirdropRow[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Durable registry of tokens, NFT collections, registered contracts, helper deployments and airdrops, backed
+// by a JSON file so they survive restarts
+export class TokenRegistry {
+  private records: TokenRecord[] = [];
+  private collections: NftCollectionRecord[] = [];
+  private contracts: ContractRecord[] = [];
+  private deployments: DeploymentRecord[] = [];
+  private airdrops: AirdropRecord[] = [];
+
+  constructor(private filePath: string) {
+    if (fs.existsSync(filePath)) {
+      const stored = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      // Files written before NFT support hold a plain token array
+      this.records = Array.isArray(stored) ? stored : stored.tokens ?? [];
+      this.collections = Array.isArray(stored) ? [] : stored.collections ?? [];
+      this.contracts = Array.isArray(stored) ? [] : stored.contracts ?? [];
+      this.deployments = Array.isArray(stored) ? [] : stored.deployments ?? [];
+      this.airdrops = Array.isArray(stored) ? [] : stored.airdrops ?? [];
+      log.info(
+        `Loaded ${this.records.length} tokens, ${this.collections.length} NFT collections and ${this.contracts.length} contracts from ${filePath}`
+      );
+    }
+  }
+
+  list(owner: string, chainId: number): TokenRecord[] {
+    return this.records.filter((record) => record.owner === owner && record.chainId === chainId);
+  }
+
+  find(owner: string, chainId: number, symbol: string): TokenRecord | undefined {
+    return this.list(owner, chainId).find((record) => record.symbol.toUpperCase() === symbol.toUpperCase());
+  }
+
+  save(record: TokenRecord): void {
+    this.records = this.records.filter(
+      (existing) =>
+        !(
+          existing.owner === record.owner &&
+          existing.chainId === record.chainId &&
+          (existing.address === record.address || existing.symbol.toUpperCase() === record.symbol.toUpperCase())
+        )
+    );
+    this.records.push(record);
+    this.flush();
+  }
+
+  listCollections(owner: string, chainId: number): NftCollectionRecord[] {
+    return this.collections.filter((record) => record.owner === owner && record.chainId === chainId);
+  }
+
+  findCollection(owner: string, chainId: number, symbol: string): NftCollectionRecord | undefined {
+    return this.listCollections(owner, chainId).find((record) => record.symbol.toUpperCase() === symbol.toUpperCase());
+  }
+
+  saveCollection(record: NftCollectionRecord): void {
+    this.collections = this.collections.filter(
+      (existing) =>
+        !(
+          existing.owner === record.owner &&
+          existing.chainId === record.chainId &&
+          (existing.address === record.address || existing.symbol.toUpperCase() === record.symbol.toUpperCase())
+        )
+    );
+    this.collections.push(record);
+    this.flush();
+  }
+
+  listContracts(owner: string, chainId: number): ContractRecord[] {
+    return this.contracts.filter((record) => record.owner === owner && record.chainId === chainId);
+  }
+
+  // By registered name or address
+  findContract(owner: string, chainId: number, query: string): ContractRecord | undefined {
+    const needle = query.trim().toLowerCase();
+    return this.listContracts(owner, chainId).find(
+      (record) => record.name.toLowerCase() === needle || record.address.toLowerCase() === needle
+    );
+  }
+
+  saveContract(record: ContractRecord): void {
+    this.contracts = this.contracts.filter(
+      (existing) =>
+        !(
+          existing.owner === record.owner &&
+          existing.chainId === record.chainId &&
+          (existing.address === record.address || existing.name.toLowerCase() === record.name.toLowerCase())
+        )
+    );
+    this.contracts.push(record);
+    this.flush();
+  }
+
+  findDeployment(chainId: number, contract: string): DeploymentRecord | undefined {
+    return this.deployments.find((record) => record.chainId === chainId && record.contract === contract);
+  }
+
+  saveDeployment(record: DeploymentRecord): void {
+    this.deployments = this.deployments.filter(
+      (existing) => !(existing.chainId === record.chainId && existing.contract === record.contract)
+    );
+    this.deployments.push(record);
+    this.flush();
+  }
+
+  listAirdrops(owner: string, chainId: number): AirdropRecord[] {
+    return this.airdrops.filter((record) => record.owner === owner && record.chainId === chainId);
+  }
+
+  findAirdrop(owner: string, chainId: number, id: string): AirdropRecord | undefined {
+    return this.listAirdrops(owner, chainId).find((record) => record.id === id);
+  }
+
+  saveAirdrop(record: AirdropRecord): void {
+    this.airdrops = this.airdrops.filter((existing) => existing.id !== record.id);
+    this.airdrops.push(record);
+    this.flush();
+  }
+
+  private flush(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const stored = {
+      tokens: this.records,
+      collections: this.collections,
+      contracts: this.contracts,
+      deployments: this.deployments,
+      airdrops: this.airdrops,
+    };
+    fs.writeFileSync(`${this.filePath}.tmp`, JSON.stringify(stored, null, 2));
+    fs.renameSync(`${this.filePath}.tmp`, this.filePath);
+  }
+}
+
+let sharedRegistry: TokenRegistry | undefined;
+
+// Registry shared by all sessions, loaded from TOKEN_REGISTRY_FILE on first use
+export function getTokenRegistry(): TokenRegistry {
+  sharedRegistry ??= new TokenRegistry(TOKEN_REGISTRY_FILE);
+  return sharedRegistry;
+}
@@ -0,0 +1,2578 @@
+import { z } from "zod";
+import { StructuredTool } from "@langchain/core/tools";
+import { ethers } from "ethers";
+import axios from "axios";
+import AverixDisperse from "../contracts/AverixDisperse.json";
+import AverixNft from "../contracts/AverixNft.json";
+import {
+  coerceArguments,
+  findFunction,
+  formatArguments,
+  formatResult,
+  listFunctions,
+  parseAbi,
+} from "./abi";
+import {
+  airdropTotals,
+  checkAirdropBalance,
+  describeAirdropProgress,
+  formatAirdropTotals,
+} from "./airdrop";
+import { AIRDROP_CHUNK_SIZE, COINGECKO_API_KEY, log, TX_CONFIRMATIONS } from "./config";
+import { BlockchainTools, SigningRequest } from "./blockchainTools";
+import { describeFailure } from "./errors";
+import {
+  describeFeePolicy,
+  FEE_SPEEDS,
+  FeeSpeed,
+  formatGwei,
+  getBaseFee,
+  parseGwei,
+  quoteFees,
+  replacementFees,
+} from "./fees";
+import { estimateSampleCosts, fetchEthUsdPrice, getFeeBreakdown } from "./gas";
+import { NETWORKS, NetworkConfig, findNetwork } from "./networks";
+import { TrackedTransaction } from "./pendingTransactions";
+import {
+  describeTemplateParams,
+  getTemplate,
+  parseTemplateParams,
+  TemplateFeature,
+  TemplateKey,
+  TEMPLATE_KEYS,
+  TokenTemplate,
+  TOKEN_TEMPLATES,
+} from "./templates";
+import { AirdropRow, ContractRecord, ERC20_ABI, ERC721_ABI, NftCollectionRecord, TokenRecord } from "./tokens";
+
+// Summary of a state-changing tool call shown to the user before it runs
+export interface PendingAction {
+  toolCallId: string;
+  tool: string;
+  summary: string;
+  network?: string;
+  recipient?: string;
+  amount?: string;
+  token?: string;
+  estimatedGas?: string;
+  estimatedFee?: string;
+  totalCost?: string;
+  // Alternative execution mode and its cost, e.g. atomic vs sequential batches
+  comparison?: string;
+  // Dashboard simulation mode the action was previewed under; once approved it runs in that mode
+  simulationMode: boolean;
+}
+
+const simulateFlag = z
+  .boolean()
+  .optional()
+  .describe("Only simulate: report success or the revert reason, gas, fees and balance changes without sending anything");
+
+// Tools that change chain state; the graph pauses for the user's approval before running them
+export abstract class ConfirmableTool extends StructuredTool {
+  abstract preview(
+    args: Record<string, unknown>
+  ): Promise<Omit<PendingAction, "toolCallId" | "tool" | "network" | "simulationMode">>;
+}
+
+// Define tools
+class DisconnectWalletTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "disconnectWallet";
+  description = "Disconnect the current wallet and clear it from this session";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call() {
+    this.tools.clearAccount();
+    return "Wallet disconnected successfully";
+  }
+}
+
+class GetWalletAddressTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "getWalletAddress";
+  description = "Get the current wallet address";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call() {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected. Please log in with your wallet on the dashboard.";
+    return account;
+  }
+}
+
+const describeNetwork = (network: NetworkConfig) =>
+  [
+    `${network.name} (chain ID ${network.chainId}, ${network.testnet ? "testnet" : "mainnet"})`,
+    `RPC: ${network.rpcUrl}`,
+    `Explorer: ${network.explorerUrl ?? "none"}`,
+    `Native currency: ${network.nativeSymbol}`,
+    `Faucet: ${network.faucetUrl ?? "none"}`,
+  ].join("\n");
+
+class GetNetworkTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "getNetwork";
+  description = "Show the Arbitrum network this session is using and the other networks available";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call() {
+    const current = this.tools.getNetwork();
+    const others = Object.values(NETWORKS)
+      .filter((network) => network.key !== current.key)
+      .map((network) => `${network.key} (${network.name}, chain ID ${network.chainId})`);
+    return `Current network: ${describeNetwork(current)}\nAvailable networks: ${others.join(", ")}`;
+  }
+}
+
+class SwitchNetworkTool extends StructuredTool {
+  schema = z.object({
+    network: z
+      .string()
+      .describe("Network key, name or chain ID: arbitrum-one, arbitrum-sepolia, arbitrum-nova or local"),
+  });
+
+  name = "switchNetwork";
+  description = "Switch this session to another Arbitrum network; tokens and explorer links follow the selected network";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ network: query }: { network: string }) {
+    const network = findNetwork(query);
+    if (!network) {
+      return `Unknown network: ${query}. Available networks: ${Object.keys(NETWORKS).join(", ")}`;
+    }
+    if (network.key === this.tools.getNetwork().key) return `Already on ${network.name}.`;
+    try {
+      this.tools.setNetwork(network);
+    } catch (error) {
+      return `Could not switch networks: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    const warning = network.testnet ? "" : "\nThis is a mainnet: transactions spend real ETH.";
+    return `Switched to ${describeNetwork(network)}${warning}`;
+  }
+}
+
+class GetBalanceTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "getBalance";
+  description = "Get the ETH balance, balances of created ERC-20 tokens and NFTs held in the user's collections on Arbitrum";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call() {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+
+    const balances: string[] = [];
+    // ETH balance
+    const ethBalance = await this.tools.getProvider().getBalance(account);
+    balances.push(`ETH Balance: ${ethers.formatEther(ethBalance)} ETH`);
+
+    // ERC-20 token balances
+    for (const { symbol: tokenName, address: tokenAddress, decimals } of this.tools.getTokens()) {
+      try {
+        const tokenContract = new ethers.Contract(tokenAddress, ERC20_ABI, this.tools.getProvider());
+        const balance = await tokenContract.balanceOf(account);
+        balances.push(`${tokenName} Balance: ${ethers.formatUnits(balance, decimals)} ${tokenName}`);
+      } catch (error) {
+        log.error(`Error fetching balance for ${tokenName}:`, error);
+        balances.push(`${tokenName} Balance: Unable to fetch`);
+      }
+    }
+
+    // NFT holdings in the user's collections
+    for (const collection of this.tools.getCollections()) {
+      try {
+        const contract = new ethers.Contract(collection.address, ERC721_ABI, this.tools.getProvider());
+        const ids: bigint[] = await contract.tokensOfOwner(account);
+        const held = ids.length > 0 ? ` (${ids.map((id) => `#${id}`).join(", ")})` : "";
+        balances.push(`${collection.symbol} NFTs: ${ids.length}${held}`);
+      } catch (error) {
+        log.error(`Error fetching NFTs for ${collection.symbol}:`, error);
+        balances.push(`${collection.symbol} NFTs: Unable to fetch`);
+      }
+    }
+
+    return balances.length > 0 ? balances.join("\n") : "No balances available.";
+  }
+}
+
+class TransferTokensTool extends ConfirmableTool {
+  schema = z.object({
+    to: z.string().describe("The recipient address"),
+    amount: z.string().describe("The amount of ETH to transfer"),
+  });
+
+  name = "transferTokens";
+  description = "Prepare an ETH transfer to an address on Arbitrum for the user to sign in their wallet";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async preview({ to, amount }: { to: string; amount: string }) {
+    const summary = `Transfer ${amount} ETH to ${to}`;
+    try {
+      const value = ethers.parseEther(amount);
+      const { gas, fee } = await this.tools.estimateCost(this.tools.buildTransaction({ to, value }));
+      return {
+        summary,
+        recipient: to,
+        amount,
+        token: "ETH",
+        estimatedGas: gas.toString(),
+        estimatedFee: `${ethers.formatEther(fee)} ETH`,
+        totalCost: `${ethers.formatEther(value + fee)} ETH`,
+      };
+    } catch (error) {
+      log.error("TransferTokensTool preview error:", error);
+      return { summary: `${summary} (expected to fail: ${describeFailure(error)})`, recipient: to, amount, token: "ETH" };
+    }
+  }
+
+  async _call({ to, amount }: { to: string; amount: string }) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    try {
+      if (!ethers.isAddress(to)) return `Invalid address: ${to}`;
+      const request = await this.tools.queueRequest({
+        kind: "transferTokens",
+        description: `Transfer ${amount} ETH to ${to}`,
+        transaction: this.tools.buildTransaction({ to, value: ethers.parseEther(amount) }),
+      });
+      log.info(`Prepared transfer: ${amount} ETH to ${to}, request ${request.id}`);
+      return `Prepared a transfer of ${amount} ETH to ${to} (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("TransferTokensTool error:", error);
+      throw new Error(`Failed to transfer tokens: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class SignMessageTool extends StructuredTool {
+  schema = z.object({
+    message: z.string().describe("The message to sign"),
+  });
+
+  name = "signMessage";
+  description = "Ask the user's wallet to sign a message";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ message }: { message: string }) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    const request = await this.tools.queueRequest({
+      kind: "signMessage",
+      description: `Sign message: "${message}"`,
+      message,
+    });
+    return `Requested a signature for the message (request ${request.id}). The user needs to approve it in their wallet.`;
+  }
+}
+
+// Unix seconds as an ISO date, e.g. "2025-03-01T12:00:00.000Z"
+const formatTime = (timestamp: number) => new Date(timestamp * 1000).toISOString();
+
+class GetTransactionHistoryTool extends StructuredTool {
+  schema = z.object({
+    page: z.number().int().min(1).optional().default(1).describe("Page number, 1 is the most recent"),
+    pageSize: z.number().int().min(1).max(50).optional().default(10).describe("Number of transactions per page"),
+  });
+
+  name = "getTransactionHistory";
+  description =
+    "Get the wallet's ETH and ERC-20 transfer history (incoming and outgoing) on Arbitrum with explorer links, newest first. Without an explorer API only the latest blocks are searched, and the result names the time window covered";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ page, pageSize }: { page: number; pageSize: number }) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    try {
+      const { entries, window } = await this.tools.getHistorySource().getHistory(account, page, pageSize);
+      // The block scanner only sees its window; say so rather than passing it off as the full history
+      const scope = window
+        ? `Searched blocks ${window.fromBlock}-${window.toBlock} only (${formatTime(window.fromTime)} to ${formatTime(window.toTime)}); ` +
+          "older transfers are not included. Set ARBISCAN_API_KEY on the backend for the full history."
+        : "";
+      if (entries.length === 0) {
+        const none = page === 1 ? "No transfers found for this wallet." : `No transfers on page ${page}.`;
+        return scope ? `${none} ${scope}` : none;
+      }
+      const rows = entries.map((entry) => {
+        const time = entry.timestamp ? formatTime(entry.timestamp) : "unknown time";
+        const label =
+          entry.direction === "in"
+            ? `Received ${entry.amount} ${entry.token} from ${entry.counterparty}`
+            : entry.direction === "out"
+              ? `Sent ${entry.amount} ${entry.token} to ${entry.counterparty}`
+              : `Self-transfer of ${entry.amount} ${entry.token}`;
+        return `${time} | ${label} | ${this.tools.explorerLink("tx", entry.hash)}`;
+      });
+      const more = entries.length === pageSize ? `\nAsk for page ${page + 1} to see older transfers.` : "";
+      return `Transfers (page ${page}):\n${rows.join("\n")}${more}${scope ? `\n${scope}` : ""}`;
+    } catch (error) {
+      log.error("GetTransactionHistoryTool error:", error);
+      return `Failed to fetch transaction history: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+// e.g. "$0.012" for a cheap transaction, "$1.25" otherwise
+const formatUsd = (value: number) => `$${value < 0.01 ? value.toPrecision(2) : value.toFixed(2)}`;
+
+class GetGasPriceTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "getGasPrice";
+  description =
+    "Current gas price with Arbitrum's fee breakdown (L2 base fee, L1 base fee, calldata price) and the USD cost of common transactions";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call() {
+    const provider = this.tools.getProvider();
+    const network = this.tools.getNetwork();
+    const fees = await getFeeBreakdown(provider);
+    if (!fees.gasPrice) return "Unable to fetch gas price.";
+
+    const lines = [`Gas on ${network.name}:`, `- Gas price: ${formatGwei(fees.gasPrice)}`];
+    if (fees.l2BaseFee !== undefined) {
+      lines.push(
+        `- L2 base fee: ${formatGwei(fees.l2BaseFee)} (minimum ${formatGwei(fees.l2MinimumBaseFee!)})`,
+        `- L1 base fee estimate: ${formatGwei(fees.l1BaseFeeEstimate!)}`,
+        `- L1 calldata price: ${formatGwei(fees.l1CalldataPricePerByte!)} per byte`
+      );
+    } else {
+      lines.push(`- No L1/L2 breakdown: ${network.name} does not have the ArbOS gas precompiles`);
+    }
+
+    const [samples, ethPrice] = await Promise.all([
+      estimateSampleCosts(provider, fees.gasPrice, this.tools.getAccount() ?? undefined).catch((error) => {
+        log.error("GetGasPriceTool estimate error:", error);
+        return [];
+      }),
+      fetchEthUsdPrice(),
+    ]);
+    if (samples.length > 0) {
+      const priceNote = ethPrice ? ` (ETH at $${ethPrice}${network.testnet ? ", though testnet ETH has no market value" : ""})` : "";
+      lines.push(`Estimated costs${priceNote}:`);
+      for (const sample of samples) {
+        const usd = ethPrice ? ` ≈ ${formatUsd(Number(ethers.formatEther(sample.fee)) * ethPrice)}` : "";
+        const l1 = sample.l1Gas !== undefined ? `, ${sample.l1Gas} of them for L1 data` : "";
+        lines.push(
+          `- ${sample.label}: ${sample.approximate ? "~" : ""}${ethers.formatEther(sample.fee)} ETH${usd} (${sample.gas} gas${l1})`
+        );
+      }
+    }
+    return lines.join("\n");
+  }
+}
+
+type SetFeePolicyArgs = { speed?: FeeSpeed; maxFeeGwei?: string; waitBelowGwei?: string };
+
+// Session fee settings applied to every transaction handed to the wallet (see fees.ts)
+class SetFeePolicyTool extends StructuredTool {
+  schema = z.object({
+    speed: z.enum(FEE_SPEEDS).optional().describe("slow, normal or fast"),
+    maxFeeGwei: z.string().optional().describe('Cap on the max fee per gas in gwei, or "none" to remove the cap'),
+    waitBelowGwei: z
+      .string()
+      .optional()
+      .describe('Hold transactions until the base fee is at most this many gwei, or "off" to send them right away'),
+  });
+
+  name = "setFeePolicy";
+  description =
+    "Set the fee speed, a max fee cap or a wait-for-lower-gas price for this session's transactions; without arguments it shows the current policy";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ speed, maxFeeGwei, waitBelowGwei }: SetFeePolicyArgs) {
+    const policy = { ...this.tools.getFeePolicy() };
+    try {
+      if (speed) policy.speed = speed;
+      if (maxFeeGwei !== undefined) policy.maxFeePerGas = maxFeeGwei === "none" ? undefined : parseGwei(maxFeeGwei);
+      if (waitBelowGwei !== undefined) policy.waitBelow = waitBelowGwei === "off" ? undefined : parseGwei(waitBelowGwei);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    this.tools.setFeePolicy(policy);
+    const baseFee = await getBaseFee(this.tools.getProvider());
+    const held = this.tools.heldCount();
+    return `Fee policy: ${describeFeePolicy(policy)}. Current base fee on ${this.tools.getNetwork().name}: ${formatGwei(baseFee)}.${
+      held > 0 ? ` ${held} transactions are waiting for lower gas.` : ""
+    }`;
+  }
+}
+
+// e.g. "3 min ago"
+const describeAge = (since: string) => `${Math.max(0, Math.round((Date.now() - Date.parse(since)) / 60000))} min ago`;
+
+class GetTransactionStatusTool extends StructuredTool {
+  schema = z.object({
+    id: z.string().describe("Tracking ID (transaction hash) or the ID of the wallet request it was sent for"),
+  });
+
+  name = "getTransactionStatus";
+  description =
+    "Check a broadcast transaction: pending, mined with how many confirmations, confirmed, reverted, replaced or dropped, reorgs, and what happened after it settled (e.g. the deployed token address)";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ id }: { id: string }) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    try {
+      const tracked = await this.tools.getTransactionStatus(id.trim());
+      if (!tracked) return `No transaction ${id} was sent from this wallet on ${this.tools.getNetwork().name} since the server started.`;
+      const link = this.tools.explorerLink("tx", tracked.hash);
+      const depth = `${tracked.confirmations} of ${TX_CONFIRMATIONS} confirmations`;
+      const state = {
+        pending: `pending since ${describeAge(tracked.submittedAt)}; speedUpTransaction or cancelTransaction can replace it`,
+        mined: `mined in block ${tracked.blockNumber}, ${depth}`,
+        confirmed: `confirmed in block ${tracked.blockNumber} (${depth})`,
+        failed: `reverted in block ${tracked.blockNumber} (${depth})`,
+        replaced: `replaced by ${tracked.replacedBy ?? "a transaction sent outside Averix"}`,
+        dropped: "dropped: the network no longer knows it and it was never mined, so it can be sent again",
+      }[tracked.status];
+      const reorgs = tracked.reorgs > 0 ? ` It was moved by ${tracked.reorgs} reorg${tracked.reorgs > 1 ? "s" : ""}.` : "";
+      const outcome = tracked.outcome ? ` ${tracked.outcome}.` : "";
+      return `${tracked.request.description}: ${state}.${reorgs}${outcome} Tx: ${link}`;
+    } catch (error) {
+      log.error("GetTransactionStatusTool error:", error);
+      return `Failed to check the transaction: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+class GetPendingTransactionsTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "getPendingTransactions";
+  description =
+    "List the wallet's broadcast transactions that are not mined yet, and recent ones that were sped up, cancelled or replaced";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call() {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    try {
+      const tracked = await this.tools.getTrackedTransactions();
+      const pending = tracked.filter((entry) => entry.status === "pending");
+      const replaced = tracked.filter((entry) => entry.status === "replaced").slice(0, 5);
+      const network = this.tools.getNetwork().name;
+      const lines = [pending.length > 0 ? `Pending transactions on ${network}:` : `No pending transactions on ${network}.`];
+      for (const entry of pending) {
+        const fee = entry.maxFeePerGas ? `, max fee ${formatGwei(BigInt(entry.maxFeePerGas))}` : "";
+        const replaces = entry.replaces ? `, replaces ${entry.replaces}` : "";
+        lines.push(
+          `- ${entry.hash} (nonce ${entry.nonce ?? "unknown"}, sent ${describeAge(entry.submittedAt)}): ${entry.request.description}${fee}${replaces}`
+        );
+      }
+      if (pending.length > 0) lines.push("speedUpTransaction resends one with higher fees; cancelTransaction replaces it with a 0 ETH transfer to yourself.");
+      if (replaced.length > 0) {
+        lines.push("Recently replaced:");
+        for (const entry of replaced) {
+          lines.push(
+            `- ${entry.hash} (nonce ${entry.nonce}): ${entry.request.description}, replaced by ${entry.replacedBy ?? "a transaction sent outside Averix"}`
+          );
+        }
+      }
+      return lines.join("\n");
+    } catch (error) {
+      log.error("GetPendingTransactionsTool error:", error);
+      return `Failed to check pending transactions: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+// Tracked transaction of the session's wallet that can still be replaced, or why it cannot
+async function findReplaceable(tools: BlockchainTools, hash: string): Promise<TrackedTransaction | string> {
+  if (!ethers.isHexString(hash, 32)) return `Invalid transaction hash: ${hash}`;
+  const tracked = tools.findTrackedTransaction(hash);
+  if (!tracked) {
+    return `Transaction ${hash} is not one Averix sent for this wallet on ${tools.getNetwork().name}. getPendingTransactions lists the ones it tracks.`;
+  }
+  await tools.refreshTransaction(tracked);
+  if (tracked.status === "replaced") return `Transaction ${hash} was already replaced by ${tracked.replacedBy ?? "another transaction"}.`;
+  if (tracked.status === "dropped") return `Transaction ${hash} was dropped by the network and never mined; nothing is left to replace.`;
+  if (tracked.status !== "pending") {
+    const state = tracked.status === "mined" ? "waiting for confirmations" : tracked.status;
+    return `Transaction ${hash} is already mined in block ${tracked.blockNumber} (${state}).`;
+  }
+  if (tracked.nonce === undefined) return `The node never returned transaction ${hash}, so its nonce is unknown and it cannot be replaced.`;
+  return tracked;
+}
+
+// Same-nonce replacement: the original transaction with higher fees, or a 0 ETH transfer to the wallet itself.
+// The session's max fee cap does not apply; a replacement has to outbid the original.
+async function buildReplacement(
+  tools: BlockchainTools,
+  tracked: TrackedTransaction,
+  action: "speedUp" | "cancel",
+  speed: FeeSpeed
+): Promise<Omit<SigningRequest, "id">> {
+  const quote = await quoteFees(tools.getProvider(), { speed });
+  const fees = replacementFees(
+    { maxFeePerGas: BigInt(tracked.maxFeePerGas!), maxPriorityFeePerGas: BigInt(tracked.maxPriorityFeePerGas!) },
+    quote
+  );
+  const original = tracked.request;
+  const base =
+    action === "speedUp"
+      ? { ...original.transaction! }
+      : tools.buildTransaction({ to: tracked.owner, value: 0n });
+  return {
+    // A speed-up keeps the original kind so its receipt is processed the same way (token registration, airdrop rows)
+    kind: action === "speedUp" ? original.kind : "cancelTransaction",
+    description: `${action === "speedUp" ? "Speed up" : "Cancel"}: ${original.description}`,
+    transaction: {
+      ...base,
+      nonce: tracked.nonce,
+      maxFeePerGas: ethers.toQuantity(fees.maxFeePerGas),
+      maxPriorityFeePerGas: ethers.toQuantity(fees.maxPriorityFeePerGas),
+    },
+    fee: { speed, baseFee: quote.baseFee.toString(), maxFeePerGas: fees.maxFeePerGas.toString(), capped: false },
+    token: action === "speedUp" ? original.token : undefined,
+    airdrop: action === "speedUp" ? original.airdrop : undefined,
+    replaces: { hash: tracked.hash, action },
+  };
+}
+
+// Preview of a speed-up or cancellation: old and new max fee and the worst-case cost
+async function previewReplacement(tools: BlockchainTools, hash: string, action: "speedUp" | "cancel", speed: FeeSpeed) {
+  const verb = action === "speedUp" ? "Speed up" : "Cancel";
+  try {
+    const tracked = await findReplaceable(tools, hash);
+    if (typeof tracked === "string") return { summary: `${verb} ${hash}: ${tracked}` };
+    const replacement = await buildReplacement(tools, tracked, action, speed);
+    const maxFeePerGas = BigInt(replacement.fee!.maxFeePerGas);
+    const gas = await tools.getProvider().estimateGas(replacement.transaction!);
+    return {
+      summary: `${verb} ${tracked.request.description} (nonce ${tracked.nonce}): max fee ${formatGwei(BigInt(tracked.maxFeePerGas!))} -> ${formatGwei(maxFeePerGas)} per gas`,
+      estimatedGas: gas.toString(),
+      estimatedFee: `${ethers.formatEther(gas * maxFeePerGas)} ETH`,
+    };
+  } catch (error) {
+    log.error(`${verb} preview error:`, error);
+    return { summary: `${verb} transaction ${hash} (expected to fail: ${describeFailure(error)})` };
+  }
+}
+
+type ReplaceTransactionArgs = { hash: string; speed?: FeeSpeed };
+
+class SpeedUpTransactionTool extends ConfirmableTool {
+  schema = z.object({
+    hash: z.string().describe("Hash of the pending transaction"),
+    speed: z.enum(FEE_SPEEDS).optional().default("fast").describe("Fee speed of the replacement, fast by default"),
+  });
+
+  name = "speedUpTransaction";
+  description =
+    "Resend a pending transaction with the same nonce and higher fees so it gets mined sooner; the user signs the replacement in their wallet";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async preview({ hash, speed = "fast" }: ReplaceTransactionArgs) {
+    return previewReplacement(this.tools, hash, "speedUp", speed);
+  }
+
+  async _call({ hash, speed = "fast" }: ReplaceTransactionArgs) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    try {
+      const tracked = await findReplaceable(this.tools, hash);
+      if (typeof tracked === "string") return tracked;
+      const request = await this.tools.queueRequest(await buildReplacement(this.tools, tracked, "speedUp", speed));
+      log.info(`Prepared speed-up of ${hash} (nonce ${tracked.nonce}), request ${request.id}`);
+      return `Prepared a replacement of ${hash} with the same nonce (${tracked.nonce}) and higher fees (request ${request.id}). The user needs to approve it in their wallet. Whichever of the two is mined first wins. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("SpeedUpTransactionTool error:", error);
+      throw new Error(`Failed to speed up transaction: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class CancelTransactionTool extends ConfirmableTool {
+  schema = z.object({
+    hash: z.string().describe("Hash of the pending transaction"),
+  });
+
+  name = "cancelTransaction";
+  description =
+    "Cancel a pending transaction by replacing it with a 0 ETH transfer to the wallet itself at the same nonce and a higher fee; the user signs it in their wallet";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async preview({ hash }: ReplaceTransactionArgs) {
+    return previewReplacement(this.tools, hash, "cancel", "fast");
+  }
+
+  async _call({ hash }: ReplaceTransactionArgs) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    try {
+      const tracked = await findReplaceable(this.tools, hash);
+      if (typeof tracked === "string") return tracked;
+      const request = await this.tools.queueRequest(await buildReplacement(this.tools, tracked, "cancel", "fast"));
+      log.info(`Prepared cancellation of ${hash} (nonce ${tracked.nonce}), request ${request.id}`);
+      return `Prepared a 0 ETH transfer to the wallet itself with the nonce of ${hash} (${tracked.nonce}) and a higher fee (request ${request.id}). The user needs to approve it in their wallet; once it is mined the original can no longer go through. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("CancelTransactionTool error:", error);
+      throw new Error(`Failed to cancel transaction: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class GetTokenPriceTool extends StructuredTool {
+  schema = z.object({
+    token: z.string().describe("Token ticker (e.g., ETH)"),
+  });
+
+  name = "getTokenPrice";
+  description = "Get real-time token price from CoinGecko";
+
+  async _call({ token }: { token: string }) {
+    try {
+      const response = await axios.get<{ [key: string]: { usd: number } }>(
+        `https://api.coingecko.com/api/v3/simple/price?ids=${token.toLowerCase()}&vs_currencies=usd`,
+        { headers: { "x-cg-api-key": COINGECKO_API_KEY } }
+      );
+      const price = response.data[token.toLowerCase()]?.usd;
+      if (!price) return `Price not found for ${token}`;
+      return `Price of ${token}: $${price} USD`;
+    } catch (error) {
+      log.error("GetTokenPriceTool error:", error);
+      throw new Error(`Failed to fetch price: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+class GetTrendingTokensTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "getTrendingTokens";
+  description = "Get trending tokens (mocked, as the explorer may not list tokens)";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call() {
+    try {
+      const mockTokens = [
+        { token: "TEST1", price: "$0.05" },
+        { token: "TEST2", price: "$0.10" },
+      ];
+      return `Trending tokens on ${this.tools.getNetwork().name} (mocked):\n${JSON.stringify(mockTokens, null, 2)}`;
+    } catch (error) {
+      log.error("GetTrendingTokensTool error:", error);
+      return `Failed to fetch trending tokens: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+type CreateTokenArgs = {
+  name: string;
+  symbol: string;
+  totalSupply: string;
+  decimals?: number;
+  template?: TemplateKey;
+  params?: Record<string, string>;
+  verify?: boolean;
+};
+
+class CreateTokenTool extends ConfirmableTool {
+  schema = z.object({
+    name: z.string().describe("The name of the token"),
+    symbol: z.string().describe("The symbol of the token"),
+    totalSupply: z.string().describe("The total supply of the token (in whole units, e.g., 1000 for 1000 tokens)"),
+    decimals: z.number().int().min(0).max(18).optional().describe("Number of decimals (0-18, defaults to 18)"),
+    template: z
+      .enum(TEMPLATE_KEYS)
+      .optional()
+      .describe("Contract template: fixed (default), mintable, capped, pausable or tax; see getTokenTemplates"),
+    params: z
+      .record(z.string())
+      .optional()
+      .describe("Template constructor parameters, e.g. { cap: '1000000' } or { taxPercent: '2', treasury: '0x...' }"),
+    verify: z.boolean().optional().describe("Verify the source code on the block explorer once the token is deployed"),
+  });
+
+  name = "createToken";
+  description =
+    "Create a new ERC-20 token with burn functionality on the current Arbitrum network, optionally from a template (mintable, capped, pausable, transfer tax)";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  // Human-readable supply -> base units for the constructor
+  private parseSupply(totalSupply: string, decimals: number) {
+    let supply: bigint;
+    try {
+      supply = ethers.parseUnits(totalSupply, decimals);
+    } catch {
+      throw new Error(`Invalid total supply: ${totalSupply} is not a valid amount with ${decimals} decimals`);
+    }
+    if (supply <= 0n) {
+      throw new Error("Invalid total supply: must be a positive number");
+    }
+    return supply;
+  }
+
+  // Deploy transaction data for the chosen template, or a message explaining what is wrong with the input
+  private async deployData({ name, symbol, totalSupply, decimals = 18, template: key = "fixed", params }: CreateTokenArgs) {
+    const template = TOKEN_TEMPLATES[key];
+    const parsed = parseTemplateParams(template, params);
+    if (typeof parsed === "string") return parsed;
+    const supply = this.parseSupply(totalSupply, decimals);
+    const extraArgs = template.constructorArgs(parsed, {
+      deployer: this.tools.getAccount()!,
+      decimals,
+      initialSupply: supply,
+    });
+    const factory = new ethers.ContractFactory(template.artifact.abi, template.artifact.bytecode);
+    const deployTx = await factory.getDeployTransaction(name, symbol, decimals, supply, ...extraArgs);
+    return { template, supply, data: deployTx.data };
+  }
+
+  async preview(args: CreateTokenArgs) {
+    const { name, symbol, totalSupply, decimals = 18, template = "fixed" } = args;
+    const summary = `Deploy ${TOKEN_TEMPLATES[template].name.toLowerCase()} token ${name} (${symbol}) with supply ${totalSupply} and ${decimals} decimals`;
+    try {
+      const prepared = await this.deployData(args);
+      if (typeof prepared === "string") return { summary: prepared };
+      const { gas, fee } = await this.tools.estimateCost(this.tools.buildTransaction({ data: prepared.data }));
+      return {
+        summary,
+        amount: totalSupply,
+        token: symbol,
+        estimatedGas: gas.toString(),
+        estimatedFee: `${ethers.formatEther(fee)} ETH`,
+        totalCost: `${ethers.formatEther(fee)} ETH`,
+      };
+    } catch (error) {
+      log.error("CreateTokenTool preview error:", error);
+      return { summary: `${summary} (expected to fail: ${describeFailure(error)})`, amount: totalSupply, token: symbol };
+    }
+  }
+
+  async _call(args: CreateTokenArgs) {
+    const { name, symbol, decimals = 18 } = args;
+    if (!this.tools.getAccount()) return "No wallet connected. Please connect a wallet first.";
+    const existing = this.tools.findToken(symbol);
+    if (existing) {
+      return `You already have a token with symbol ${existing.symbol} at ${existing.address}. Please choose a different symbol.`;
+    }
+
+    try {
+      const prepared = await this.deployData(args);
+      if (typeof prepared === "string") return prepared;
+      const { template, supply, data } = prepared;
+      const request = await this.tools.queueRequest({
+        kind: "createToken",
+        description: `Deploy ${template.name.toLowerCase()} token ${name} (${symbol}) with supply ${ethers.formatUnits(supply, decimals)} and ${decimals} decimals`,
+        transaction: this.tools.buildTransaction({ data }),
+        token: { name, symbol, template: template.key, verify: args.verify },
+      });
+      log.info(`Prepared deployment of ${name} (${symbol}) from the ${template.key} template, request ${request.id}`);
+      return `Prepared the deployment of ${name} (${symbol}) with ${decimals} decimals from the ${template.name.toLowerCase()} template (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("CreateTokenTool error:", error);
+      throw new Error(`Failed to create token: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class VerifyTokenTool extends StructuredTool {
+  schema = z.object({
+    token: z.string().describe("Symbol of a token deployed with createToken"),
+  });
+
+  name = "verifyToken";
+  description =
+    "Verify the source code of a token deployed with createToken on the block explorer, or report how an earlier verification went";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ token: symbol }: { token: string }) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    const token = this.tools.findToken(symbol);
+    if (!token) return `Token ${symbol} not found in your token list.`;
+    const codeLink = `${this.tools.explorerLink("address", token.address)}#code`;
+    if (token.verification?.state === "verified") return `${token.symbol} is verified: ${codeLink}`;
+    if (this.tools.isVerifying(token.address)) {
+      return `Verification of ${token.symbol} is still in progress (${token.verification?.message ?? "submitted"}). Ask again in a minute.`;
+    }
+    if (!this.tools.getVerificationClient()) {
+      return `${this.tools.getNetwork().name} has no contract verification API.`;
+    }
+    if (!token.template || !token.deployTx) {
+      return `${token.symbol} was not deployed by Averix, so its source code is not available for verification.`;
+    }
+
+    this.tools.verifyToken(token).catch((error) => log.error(`Verification of ${token.symbol} failed:`, error));
+    const previous = token.verification
+      ? ` The previous attempt ${token.verification.state === "failed" ? "failed" : "did not finish"}: ${token.verification.message}.`
+      : "";
+    return `Submitted ${token.symbol} for source verification.${previous} Ask again in a minute to see the result.`;
+  }
+}
+
+class GetTokenTemplatesTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "getTokenTemplates";
+  description = "List the contract templates createToken can deploy, with their features and constructor parameters";
+
+  async _call() {
+    const rows = Object.values(TOKEN_TEMPLATES).map(
+      (template) => `${template.key} - ${template.description}. Parameters: ${describeTemplateParams(template)}`
+    );
+    return `Token templates:\n${rows.join("\n")}`;
+  }
+}
+
+class ImportTokenTool extends StructuredTool {
+  schema = z.object({
+    address: z.string().describe("The contract address of an existing ERC-20 token"),
+  });
+
+  name = "importToken";
+  description = "Add an existing ERC-20 token to the user's token list by its contract address";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ address }: { address: string }) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    if (!ethers.isAddress(address)) return `Invalid address: ${address}`;
+    try {
+      const contract = new ethers.Contract(address, ERC20_ABI, this.tools.getProvider());
+      const symbol: string = await contract.symbol();
+      const existing = this.tools.findToken(symbol);
+      if (existing && existing.address !== ethers.getAddress(address)) {
+        return `You already have a token with symbol ${existing.symbol} at ${existing.address}.`;
+      }
+      const record = await this.tools.registerToken(account, address);
+      log.info(`Imported token ${record.symbol} at ${record.address} for ${account}`);
+      return `Imported ${record.name} (${record.symbol}, ${record.decimals} decimals) at ${this.tools.explorerLink("address", record.address)}`;
+    } catch (error) {
+      log.error("ImportTokenTool error:", error);
+      return `Failed to import token: ${address} does not look like an ERC-20 token (${error instanceof Error ? error.message : String(error)})`;
+    }
+  }
+}
+
+class GetFaucetTokensTool extends StructuredTool {
+  schema = z.object({
+    address: z.string().describe("The wallet address to receive testnet ETH"),
+  });
+
+  name = "getFaucetTokens";
+  description = "Request testnet ETH from the faucet of the current Arbitrum network";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ address }: { address: string }) {
+    try {
+      if (!ethers.isAddress(address)) {
+        return "Invalid Ethereum address provided.";
+      }
+      const network = this.tools.getNetwork();
+      if (!network.testnet) {
+        return `${network.name} is a mainnet, so there is no faucet. Switch to Arbitrum Sepolia with switchNetwork to use testnet ETH.`;
+      }
+      if (!network.faucetUrl) {
+        return `${network.name} has no faucet; its development accounts come prefunded with ${network.nativeSymbol}.`;
+      }
+      return `To get testnet ETH for ${address}, visit ${network.faucetUrl}, paste your address (${address}), and follow the instructions to claim tokens.`;
+    } catch (error) {
+      log.error("GetFaucetTokensTool error:", error);
+      return `Failed to process faucet request: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+interface TransferLeg {
+  type: string;
+  to: string;
+  amount: string;
+  tokenName?: string;
+}
+
+type BatchMode = "sequential" | "atomic";
+
+// Compiled from contracts/AverixDisperse.sol (npm run compile:contracts)
+const disperseInterface = new ethers.Interface(AverixDisperse.abi);
+// Used to extrapolate batch gas from single-transfer estimates while approvals are still pending
+const BASE_TX_GAS = 21000n;
+const TRANSFER_FROM_OVERHEAD_GAS = 10000n;
+
+class BatchMixedTransferTool extends ConfirmableTool {
+  schema = z.object({
+    transfers: z
+      .string()
+      .describe(
+        "A space-separated list of mixed transfers in the format '<type1> <to1> <amount1> [tokenName1] <type2> <to2> <amount2> [tokenName2]'. " +
+        "Use 'ETH' for native tokens or 'TOKEN' for ERC-20 tokens with token name (e.g., 'ETH 0x123... 0.01 TOKEN 0x456... 10 ATK')"
+      ),
+    mode: z
+      .enum(["sequential", "atomic"])
+      .optional()
+      .describe(
+        "sequential (default): one transaction per transfer; atomic: all transfers in one transaction through the batch contract, so either all succeed or none do"
+      ),
+  });
+
+  name = "batchMixedTransfer";
+  description =
+    "Transfer ETH and ERC-20 tokens in a single batch using token names. Format: batchMixedTransfer <type1> <to1> <amount1> [tokenName1] <type2> <to2> <amount2> [tokenName2] ... " +
+    "Set mode to atomic to send all transfers in one transaction where either all succeed or none do.";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  // Parse the space-separated transfer list, returning an error message for invalid input
+  private parseTransfers(transfers: string): TransferLeg[] | string {
+    const parts = transfers.trim().split(/\s+/);
+    if (parts.length < 3) {
+      return "Invalid format. Use: batchMixedTransfer <type1> <to1> <amount1> [tokenName1] <type2> <to2> <amount2> [tokenName2] ...";
+    }
+
+    const transferList: TransferLeg[] = [];
+    for (let i = 0; i < parts.length; i += 3) {
+      const type = parts[i].toUpperCase();
+      const to = parts[i + 1];
+      const amount = parts[i + 2];
+      let tokenName: string | undefined;
+
+      if (type === "TOKEN") {
+        if (i + 3 >= parts.length) {
+          return `Missing token name for TOKEN transfer at position ${i / 3 + 1}`;
+        }
+        tokenName = parts[i + 3];
+        const token = this.tools.findToken(tokenName);
+        if (!token) {
+          return `Token ${tokenName} not found. Please create it with createToken or add it with importToken first.`;
+        }
+        try {
+          ethers.parseUnits(amount, token.decimals);
+        } catch {
+          return `Invalid amount: ${amount} (${token.symbol} has ${token.decimals} decimals)`;
+        }
+        i++;
+      } else if (type !== "ETH") {
+        return `Invalid type: ${type}. Use 'ETH' or 'TOKEN'`;
+      }
+
+      if (!ethers.isAddress(to)) return `Invalid address: ${to}`;
+      if (isNaN(Number(amount)) || Number(amount) <= 0) return `Invalid amount: ${amount}`;
+      transferList.push({ type, to, amount, tokenName });
+    }
+    return transferList;
+  }
+
+  private buildLeg({ type, to, amount, tokenName }: TransferLeg) {
+    return this.tools.buildTransfer(to, amount, type === "ETH" ? undefined : this.tools.findToken(tokenName!));
+  }
+
+  // Gas, fee and ETH value of sending every leg as its own transaction
+  private async estimateSequential(transferList: TransferLeg[]) {
+    let gas = 0n;
+    let fee = 0n;
+    let value = 0n;
+    for (const leg of transferList) {
+      const estimate = await this.tools.estimateCost(this.buildLeg(leg));
+      gas += estimate.gas;
+      fee += estimate.fee;
+      if (leg.type === "ETH") value += ethers.parseEther(leg.amount);
+    }
+    return { gas, fee, value };
+  }
+
+  // The batch contract call for all legs, plus approvals for tokens whose allowance does not cover their total.
+  // Without a batch contract on this network, only its deployment is returned.
+  private async planAtomic(transferList: TransferLeg[]) {
+    const disperse = await this.tools.getDeployment("AverixDisperse");
+    if (!disperse) {
+      const factory = new ethers.ContractFactory(AverixDisperse.abi, AverixDisperse.bytecode);
+      const deployTx = await factory.getDeployTransaction();
+      return { deployment: this.tools.buildTransaction({ data: deployTx.data }) };
+    }
+
+    const ethLegs = transferList.filter((leg) => leg.type === "ETH");
+    const tokenLegs = transferList
+      .filter((leg) => leg.type === "TOKEN")
+      .map((leg) => {
+        const token = this.tools.findToken(leg.tokenName!)!;
+        return { ...leg, token, value: ethers.parseUnits(leg.amount, token.decimals) };
+      });
+    const ethTotal = ethLegs.reduce((sum, leg) => sum + ethers.parseEther(leg.amount), 0n);
+
+    const totals = new Map<string, { token: TokenRecord; total: bigint }>();
+    for (const leg of tokenLegs) {
+      const entry = totals.get(leg.token.address) ?? { token: leg.token, total: 0n };
+      entry.total += leg.value;
+      totals.set(leg.token.address, entry);
+    }
+    const approvals: { token: TokenRecord; total: bigint; transaction: ReturnType<BlockchainTools["buildTransaction"]> }[] = [];
+    for (const { token, total } of totals.values()) {
+      const contract = new ethers.Contract(token.address, ERC20_ABI, this.tools.getProvider());
+      const allowance: bigint = await contract.allowance(this.tools.getAccount(), disperse);
+      if (allowance >= total) continue;
+      approvals.push({
+        token,
+        total,
+        transaction: this.tools.buildTransaction({
+          to: token.address,
+          data: erc20Interface.encodeFunctionData("approve", [disperse, total]),
+        }),
+      });
+    }
+
+    const encode = (legs: typeof tokenLegs) =>
+      disperseInterface.encodeFunctionData("disperse", [
+        ethLegs.map((leg) => leg.to),
+        ethLegs.map((leg) => ethers.parseEther(leg.amount)),
+        legs.map((leg) => leg.token.address),
+        legs.map((leg) => leg.to),
+        legs.map((leg) => leg.value),
+      ]);
+    return {
+      disperse,
+      approvals,
+      ethTotal,
+      tokenLegs,
+      transaction: this.tools.buildTransaction({ to: disperse, data: encode(tokenLegs), value: ethTotal }),
+      // ETH legs only, which can be estimated before the approvals are mined
+      ethOnlyTransaction: this.tools.buildTransaction({ to: disperse, data: encode([]), value: ethTotal }),
+    };
+  }
+
+  private async previewAtomic(transferList: TransferLeg[], details: { summary: string; recipient: string; amount: string }) {
+    const sequential = await this.estimateSequential(transferList);
+    const sequentialLabel = `sequential: ${transferList.length} transactions, ${sequential.gas} gas (${ethers.formatEther(sequential.fee)} ETH)`;
+    const plan = await this.planAtomic(transferList);
+    if (!plan.transaction) {
+      const { gas, fee } = await this.tools.estimateCost(plan.deployment);
+      return {
+        ...details,
+        summary: `Deploy the batch contract (once per network) before the atomic batch of ${transferList.length} transfers`,
+        estimatedGas: gas.toString(),
+        estimatedFee: `${ethers.formatEther(fee)} ETH`,
+        totalCost: `${ethers.formatEther(fee)} ETH`,
+        comparison: `Atomic mode needs the batch contract first; run the batch again once it is deployed. For reference, ${sequentialLabel}`,
+      };
+    }
+
+    let approvalGas = 0n;
+    let approvalFee = 0n;
+    for (const approval of plan.approvals) {
+      const { gas, fee } = await this.tools.estimateCost(approval.transaction);
+      approvalGas += gas;
+      approvalFee += fee;
+    }
+    let batch: { gas: bigint; fee: bigint };
+    let approximate = false;
+    if (plan.approvals.length === 0) {
+      batch = await this.tools.estimateCost(plan.transaction);
+    } else {
+      // The token legs revert until the approvals are mined; extrapolate them from their sequential estimates
+      approximate = true;
+      const ethOnly = await this.tools.estimateCost(plan.ethOnlyTransaction);
+      let gas = ethOnly.gas;
+      for (const leg of plan.tokenLegs) {
+        const { gas: legGas } = await this.tools.estimateCost(this.buildLeg(leg));
+        gas += legGas - BASE_TX_GAS + TRANSFER_FROM_OVERHEAD_GAS;
+      }
+      batch = { gas, fee: ethOnly.gas > 0n ? (ethOnly.fee * gas) / ethOnly.gas : 0n };
+    }
+
+    const gas = batch.gas + approvalGas;
+    const fee = batch.fee + approvalFee;
+    const approvalsLabel = plan.approvals.length > 0 ? ` + ${plan.approvals.length} approval(s)` : "";
+    const savings = sequential.gas > 0n ? Number(((sequential.gas - gas) * 10000n) / sequential.gas) / 100 : 0;
+    return {
+      ...details,
+      summary: `Atomic batch of ${transferList.length} transfers in one transaction${approvalsLabel}`,
+      estimatedGas: `${approximate ? "~" : ""}${gas}`,
+      estimatedFee: `${approximate ? "~" : ""}${ethers.formatEther(fee)} ETH`,
+      totalCost: `${ethers.formatEther(plan.ethTotal + fee)} ETH`,
+      comparison: `Atomic: 1 transaction${approvalsLabel}, ${approximate ? "~" : ""}${gas} gas (${ethers.formatEther(fee)} ETH) vs ${sequentialLabel}. ${savings >= 0 ? `Saves ${savings}%` : `Costs ${-savings}% more`} gas`,
+    };
+  }
+
+  async preview({ transfers, mode = "sequential" }: { transfers: string; mode?: BatchMode }) {
+    const transferList = this.parseTransfers(transfers);
+    if (typeof transferList === "string") return { summary: transferList };
+
+    const summary = `Batch of ${transferList.length} transfers`;
+    const recipient = transferList.map((leg) => leg.to).join(", ");
+    const amount = transferList.map((leg) => `${leg.amount} ${leg.type === "ETH" ? "ETH" : leg.tokenName}`).join(", ");
+    try {
+      if (mode === "atomic") return await this.previewAtomic(transferList, { summary, recipient, amount });
+      const { gas, fee, value } = await this.estimateSequential(transferList);
+      return {
+        summary,
+        recipient,
+        amount,
+        estimatedGas: gas.toString(),
+        estimatedFee: `${ethers.formatEther(fee)} ETH`,
+        totalCost: `${ethers.formatEther(value + fee)} ETH`,
+      };
+    } catch (error) {
+      log.error("BatchMixedTransferTool preview error:", error);
+      return { summary, recipient, amount };
+    }
+  }
+
+  // Approvals (if needed) and one batch contract call; the wallet signs them in order
+  private async callAtomic(transferList: TransferLeg[]) {
+    const plan = await this.planAtomic(transferList);
+    if (!plan.transaction) {
+      const request = await this.tools.queueRequest({
+        kind: "deployDisperse",
+        description: "Deploy the Averix batch contract (once per network)",
+        transaction: plan.deployment,
+      });
+      log.info(`Prepared batch contract deployment, request ${request.id}`);
+      return `Atomic batches go through a batch contract that is not deployed on ${this.tools.getNetwork().name} yet. Prepared its deployment (request ${request.id}); the user needs to approve it in their wallet. ${this.tools.describeFee(request)} Nothing has been transferred yet: run the batch again in atomic mode once the deployment is confirmed.`;
+    }
+
+    const steps: string[] = [];
+    for (const { token, total } of plan.approvals) {
+      const request = await this.tools.queueRequest({
+        kind: "approveToken",
+        description: `Approve the batch contract to spend ${ethers.formatUnits(total, token.decimals)} ${token.symbol}`,
+        transaction: this.tools.buildTransaction({
+          to: token.address,
+          data: erc20Interface.encodeFunctionData("approve", [plan.disperse, total]),
+        }),
+      });
+      steps.push(
+        `Approve ${ethers.formatUnits(total, token.decimals)} ${token.symbol} for the batch contract (request ${request.id}). ${this.tools.describeFee(request)}`
+      );
+    }
+    const legs = transferList.map((leg) => `${leg.amount} ${leg.type === "ETH" ? "ETH" : leg.tokenName} to ${leg.to}`);
+    const request = await this.tools.queueRequest({
+      kind: "batchMixedTransfer",
+      description: `Atomic batch of ${transferList.length} transfers: ${legs.join(", ")}`,
+      transaction: plan.transaction,
+    });
+    steps.push(`Send all ${transferList.length} transfers in one transaction (request ${request.id}). ${this.tools.describeFee(request)}`);
+    log.info(`Prepared atomic batch of ${transferList.length} transfers, request ${request.id}`);
+    return `Prepared an atomic batch; either every transfer succeeds or none does. The user needs to sign, in order:\n${steps.map((step, index) => `${index + 1}. ${step}`).join("\n")}`;
+  }
+
+  async _call({ transfers, mode = "sequential" }: { transfers: string; mode?: BatchMode }) {
+    if (!this.tools.getAccount()) return "No wallet connected. Please log in with your wallet on the dashboard first.";
+
+    const transferList = this.parseTransfers(transfers);
+    if (typeof transferList === "string") return transferList;
+    if (mode === "atomic") {
+      try {
+        return await this.callAtomic(transferList);
+      } catch (error) {
+        log.error("Atomic batch failed:", error);
+        return `Failed to prepare the atomic batch: ${describeFailure(error)}`;
+      }
+    }
+
+    // One signing request per leg; each gets its nonce from the nonce manager right before the wallet signs it
+    const results: string[] = [];
+
+    for (const [index, leg] of transferList.entries()) {
+      const { type, to, amount, tokenName } = leg;
+      try {
+        const request = await this.tools.queueRequest({
+          kind: "batchMixedTransfer",
+          description: `Transfer ${amount} ${type === "ETH" ? "ETH" : tokenName} to ${to}`,
+          transaction: this.buildLeg(leg),
+        });
+        results.push(
+          `${index + 1}. **${type === "ETH" ? "ETH" : tokenName} Transfer to ${to}**:\n   - Amount: ${amount} ${type === "ETH" ? "ETH" : tokenName}\n   - Status: Awaiting signature (request ${request.id})\n   - ${this.tools.describeFee(request)}`
+        );
+      } catch (error) {
+        log.error(`Transfer to ${to} failed:`, error);
+        const errorMsg = describeFailure(error);
+        results.push(
+          `${index + 1}. **${type === "ETH" ? "ETH" : tokenName} Transfer to ${to}**:\n   - Amount: ${amount} ${type === "ETH" ? "ETH" : tokenName}\n   - Status: Failed\n   - Error: ${errorMsg}`
+        );
+      }
+    }
+
+    const summary = `The batch mixed transfer prepared ${results.length} operations for the user to sign:\n\n${results.join("\n\n")}`;
+    log.info(summary);
+    return summary;
+  }
+}
+
+type RunAirdropArgs = {
+  airdrop: string;
+  chunkSize?: number;
+  retryFailed?: boolean;
+  simulate?: boolean;
+};
+
+// e.g. "3 transfers (rows 4-13)"
+const describeChunk = (rows: AirdropRow[]) =>
+  rows.length === 1
+    ? `1 transfer (row ${rows[0].row})`
+    : `${rows.length} transfers (rows ${rows[0].row}-${rows[rows.length - 1].row})`;
+
+// Sends an imported airdrop (see airdrop.ts) one chunk at a time; progress is saved per row, so it can be resumed
+class RunAirdropTool extends ConfirmableTool {
+  schema = z.object({
+    airdrop: z.string().describe("Id of an airdrop imported from a CSV or JSON file on the dashboard"),
+    chunkSize: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe(`Transfers to prepare in this chunk (default ${AIRDROP_CHUNK_SIZE})`),
+    retryFailed: z.boolean().optional().describe("Also send rows that failed or were rejected in the wallet before"),
+  });
+
+  name = "runAirdrop";
+  description =
+    "Send the next chunk of an imported airdrop (one wallet signature per row). Run it again to continue or resume the airdrop.";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  // Next rows to send, or a message explaining why there are none. Only a real run (reconcile) writes to the record;
+  // previews and dry runs leave it as it is.
+  private nextChunk({ airdrop: id, chunkSize = AIRDROP_CHUNK_SIZE, retryFailed = false }: RunAirdropArgs, reconcile: boolean) {
+    if (!this.tools.getAccount()) return "No wallet connected. Please log in with your wallet on the dashboard first.";
+    let record = this.tools.findAirdrop(id);
+    if (!record) {
+      const known = this.tools.getAirdrops().map((entry) => `${entry.id} (${describeAirdropProgress(entry)})`);
+      return `Airdrop ${id} not found on ${this.tools.getNetwork().name}. ${
+        known.length > 0 ? `Known airdrops: ${known.join("; ")}` : "Upload a CSV or JSON file on the dashboard to import one."
+      }`;
+    }
+
+    // Rows handed to a wallet that never reported back (closed tab, expired session) may or may not have been sent;
+    // requests still open in another tab of the wallet are in flight
+    const queued = record.rows.filter((row) => row.status === "queued");
+    const interrupted = queued.filter((row) => !this.tools.isAwaitingWallet(row.requestId ?? ""));
+    if (reconcile) {
+      for (const row of interrupted) {
+        record = this.tools.updateAirdropRow(record.id, row.row, {
+          status: "unknown",
+          error: "The wallet never reported a result; check the transaction history before sending this row again",
+        })!;
+      }
+    }
+    const inFlight = queued.length - interrupted.length;
+    if (inFlight > 0) return `Sign or reject the ${inFlight} wallet requests of the current chunk first.`;
+
+    const rows = record.rows
+      .filter((row) => row.status === "pending" || (retryFailed && row.status === "failed"))
+      .slice(0, chunkSize);
+    if (rows.length === 0) return `Nothing left to send. ${describeAirdropProgress(record)}`;
+    return { record, rows };
+  }
+
+  private transaction(row: AirdropRow) {
+    return this.tools.buildTransfer(row.to, row.amount, row.token ? this.tools.findToken(row.token) : undefined);
+  }
+
+  async preview(args: RunAirdropArgs) {
+    const chunk = this.nextChunk(args, false);
+    if (typeof chunk === "string") return { summary: chunk };
+
+    const { record, rows } = chunk;
+    const summary = `Airdrop ${record.fileName}: send ${describeChunk(rows)}, one wallet signature each`;
+    const amount = formatAirdropTotals(this.tools, rows);
+    try {
+      let gas = 0n;
+      let fee = 0n;
+      for (const row of rows) {
+        const estimate = await this.tools.estimateCost(this.transaction(row));
+        gas += estimate.gas;
+        fee += estimate.fee;
+      }
+      const value = airdropTotals(this.tools, rows).get("ETH") ?? 0n;
+      return {
+        summary,
+        recipient: `${rows.length} recipients`,
+        amount,
+        estimatedGas: gas.toString(),
+        estimatedFee: `${ethers.formatEther(fee)} ETH`,
+        totalCost: `${ethers.formatEther(value + fee)} ETH`,
+      };
+    } catch (error) {
+      log.error("RunAirdropTool preview error:", error);
+      const problems = await checkAirdropBalance(this.tools, rows);
+      return { summary: problems.length > 0 ? `${summary}. ${problems.join(". ")}` : summary, recipient: `${rows.length} recipients`, amount };
+    }
+  }
+
+  async _call(args: RunAirdropArgs) {
+    const chunk = this.nextChunk(args, !args.simulate);
+    if (typeof chunk === "string") return chunk;
+
+    const { record, rows } = chunk;
+    const problems = await checkAirdropBalance(this.tools, rows);
+    if (problems.length > 0) return `Cannot send this chunk of ${record.fileName}: ${problems.join(". ")}`;
+
+    const queued = new Map<number, SigningRequest>();
+    for (const row of rows) {
+      const request = await this.tools.queueRequest({
+        kind: "airdropTransfer",
+        description: `Airdrop row ${row.row}: ${row.amount} ${row.token ?? "ETH"} to ${row.to}`,
+        transaction: this.transaction(row),
+        airdrop: { id: record.id, row: row.row },
+      });
+      queued.set(row.row, request);
+    }
+    const updated = {
+      ...record,
+      rows: record.rows.map((row) =>
+        queued.has(row.row) ? { ...row, status: "queued" as const, requestId: queued.get(row.row)!.id, error: undefined } : row
+      ),
+    };
+    // A dry run must leave the rows pending
+    if (!args.simulate) this.tools.saveAirdrop(updated);
+    log.info(`Prepared ${rows.length} transfers of airdrop ${record.id}`);
+
+    const requests = [...queued.values()];
+    const maxCost = requests.reduce((total, request) => total + BigInt(request.fee?.maxCost ?? 0), 0n);
+    const feeNote = requests[0].fee
+      ? `Fee: ${requests[0].fee.speed}, at most ${ethers.formatEther(maxCost)} ETH for the whole chunk.`
+      : this.tools.describeFee(requests[0]);
+    const remaining = updated.rows.filter((row) => row.status === "pending").length;
+    return `Prepared ${describeChunk(rows)} of ${record.fileName} (${formatAirdropTotals(this.tools, rows)}). The user needs to approve each one in their wallet. ${feeNote} ${
+      remaining > 0 ? `${remaining} rows remain after this chunk; run runAirdrop ${record.id} again to continue.` : "This is the last chunk."
+    }`;
+  }
+}
+
+// Registry token by symbol and an amount in its base units, or a message explaining what is wrong
+function parseTokenAmount(
+  tools: BlockchainTools,
+  symbol: string,
+  amount: string
+): { token: TokenRecord; value: bigint } | string {
+  const token = tools.findToken(symbol);
+  if (!token) return `Token ${symbol} not found. Please create it with createToken or add it with importToken first.`;
+  try {
+    const value = ethers.parseUnits(amount, token.decimals);
+    if (value <= 0n) return `Invalid amount: ${amount}`;
+    return { token, value };
+  } catch {
+    return `Invalid amount: ${amount} (${token.symbol} has ${token.decimals} decimals)`;
+  }
+}
+
+// Gas and fee estimate for a single token call; why it is expected to fail if estimation fails (e.g. it would revert)
+async function previewTokenCall(
+  tools: BlockchainTools,
+  label: string,
+  summary: string,
+  details: { recipient?: string; amount?: string; token?: string },
+  transaction: () => ReturnType<BlockchainTools["buildTransaction"]>
+) {
+  try {
+    const { gas, fee } = await tools.estimateCost(transaction());
+    return {
+      summary,
+      ...details,
+      estimatedGas: gas.toString(),
+      estimatedFee: `${ethers.formatEther(fee)} ETH`,
+      totalCost: `${ethers.formatEther(fee)} ETH`,
+    };
+  } catch (error) {
+    log.error(`${label} preview error:`, error);
+    return { summary: `${summary} (expected to fail: ${describeFailure(error)})`, ...details };
+  }
+}
+
+const erc20Interface = new ethers.Interface(ERC20_ABI);
+
+class ApproveTokenTool extends ConfirmableTool {
+  schema = z.object({
+    token: z.string().describe("Symbol of a token in the user's token list"),
+    spender: z.string().describe("Address allowed to spend the tokens"),
+    amount: z.string().describe("Amount in whole token units, or 'unlimited'"),
+  });
+
+  name = "approveToken";
+  description = "Allow a spender address to transfer up to an amount of one of the user's ERC-20 tokens";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private prepare({ token: symbol, spender, amount }: { token: string; spender: string; amount: string }) {
+    if (!ethers.isAddress(spender)) return `Invalid spender address: ${spender}`;
+    if (amount.toLowerCase() === "unlimited") {
+      const token = this.tools.findToken(symbol);
+      if (!token) return `Token ${symbol} not found. Please create it with createToken or add it with importToken first.`;
+      return { token, value: ethers.MaxUint256, label: `unlimited ${token.symbol}` };
+    }
+    const parsed = parseTokenAmount(this.tools, symbol, amount);
+    if (typeof parsed === "string") return parsed;
+    return { ...parsed, label: `${amount} ${parsed.token.symbol}` };
+  }
+
+  private transaction(token: TokenRecord, spender: string, value: bigint) {
+    return this.tools.buildTransaction({
+      to: token.address,
+      data: erc20Interface.encodeFunctionData("approve", [spender, value]),
+    });
+  }
+
+  async preview(args: { token: string; spender: string; amount: string }) {
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return { summary: prepared };
+    const { token, value, label } = prepared;
+    return previewTokenCall(
+      this.tools,
+      "ApproveTokenTool",
+      `Approve ${args.spender} to spend ${label}`,
+      { recipient: args.spender, amount: label },
+      () => this.transaction(token, args.spender, value)
+    );
+  }
+
+  async _call(args: { token: string; spender: string; amount: string }) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return prepared;
+    const { token, value, label } = prepared;
+    const request = await this.tools.queueRequest({
+      kind: "approveToken",
+      description: `Approve ${args.spender} to spend ${label}`,
+      transaction: this.transaction(token, args.spender, value),
+    });
+    log.info(`Prepared approval of ${label} for ${args.spender}, request ${request.id}`);
+    return `Prepared an approval for ${args.spender} to spend ${label} (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+  }
+}
+
+class RevokeAllowanceTool extends ConfirmableTool {
+  schema = z.object({
+    token: z.string().describe("Symbol of a token in the user's token list"),
+    spender: z.string().describe("Address whose allowance should be set to zero"),
+  });
+
+  name = "revokeAllowance";
+  description = "Revoke a spender's allowance on one of the user's ERC-20 tokens (sets it to zero)";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private transaction(token: TokenRecord, spender: string) {
+    return this.tools.buildTransaction({
+      to: token.address,
+      data: erc20Interface.encodeFunctionData("approve", [spender, 0n]),
+    });
+  }
+
+  async preview({ token: symbol, spender }: { token: string; spender: string }) {
+    const token = this.tools.findToken(symbol);
+    if (!token || !ethers.isAddress(spender)) return { summary: `Revoke ${spender}'s ${symbol} allowance` };
+    return previewTokenCall(
+      this.tools,
+      "RevokeAllowanceTool",
+      `Revoke ${spender}'s ${token.symbol} allowance`,
+      { recipient: spender, amount: `0 ${token.symbol}` },
+      () => this.transaction(token, spender)
+    );
+  }
+
+  async _call({ token: symbol, spender }: { token: string; spender: string }) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    if (!ethers.isAddress(spender)) return `Invalid spender address: ${spender}`;
+    const token = this.tools.findToken(symbol);
+    if (!token) return `Token ${symbol} not found. Please create it with createToken or add it with importToken first.`;
+    const request = await this.tools.queueRequest({
+      kind: "revokeAllowance",
+      description: `Revoke ${spender}'s ${token.symbol} allowance`,
+      transaction: this.transaction(token, spender),
+    });
+    log.info(`Prepared revocation of ${token.symbol} allowance for ${spender}, request ${request.id}`);
+    return `Prepared the revocation of ${spender}'s ${token.symbol} allowance (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+  }
+}
+
+class GetAllowanceTool extends StructuredTool {
+  schema = z.object({
+    token: z.string().describe("Symbol of a token in the user's token list"),
+    spender: z.string().describe("Spender address"),
+    owner: z.string().optional().describe("Owner address (defaults to the connected wallet)"),
+  });
+
+  name = "getAllowance";
+  description = "Get how much of a token a spender may still transfer on behalf of an owner";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ token: symbol, spender, owner }: { token: string; spender: string; owner?: string }) {
+    const account = owner ?? this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    if (!ethers.isAddress(account)) return `Invalid owner address: ${account}`;
+    if (!ethers.isAddress(spender)) return `Invalid spender address: ${spender}`;
+    const token = this.tools.findToken(symbol);
+    if (!token) return `Token ${symbol} not found. Please create it with createToken or add it with importToken first.`;
+    try {
+      const contract = new ethers.Contract(token.address, ERC20_ABI, this.tools.getProvider());
+      const allowance: bigint = await contract.allowance(account, spender);
+      const amount = allowance === ethers.MaxUint256 ? "unlimited" : ethers.formatUnits(allowance, token.decimals);
+      return `${spender} may spend ${amount} ${token.symbol} on behalf of ${account}`;
+    } catch (error) {
+      log.error("GetAllowanceTool error:", error);
+      return `Failed to fetch allowance: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+class GetAllowancesTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "getAllowances";
+  description = "List every spender the user's wallet has approved on its tokens, with the remaining allowance";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call() {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    try {
+      const { allowances, partial, fromBlock } = await this.tools.getAllowances();
+      const note = partial
+        ? `\nThis list is partial: ${
+            fromBlock !== undefined
+              ? `only approvals since block ${fromBlock} were searched, so older ones may be missing`
+              : "the explorer returned its maximum number of approvals, so newer ones may be missing"
+          }. Check a spender with getAllowance.`
+        : "";
+      if (allowances.length === 0) return `No active allowances on your tokens.${note}`;
+      const rows = allowances.map(
+        ({ symbol, spender, amount, unlimited }) => `${symbol}: ${spender} may spend ${unlimited ? "unlimited" : amount} ${symbol}`
+      );
+      return `Active allowances:\n${rows.join("\n")}\nUse revokeAllowance <token> <spender> to remove one.${note}`;
+    } catch (error) {
+      log.error("GetAllowancesTool error:", error);
+      return `Failed to fetch allowances: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+class TransferFromTokenTool extends ConfirmableTool {
+  schema = z.object({
+    token: z.string().describe("Symbol of a token in the user's token list"),
+    from: z.string().describe("Address that approved the user's wallet"),
+    to: z.string().describe("Recipient address"),
+    amount: z.string().describe("Amount in whole token units"),
+  });
+
+  name = "transferFromToken";
+  description = "Transfer tokens from another address that has approved the user's wallet as a spender";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private transaction(token: TokenRecord, from: string, to: string, value: bigint) {
+    return this.tools.buildTransaction({
+      to: token.address,
+      data: erc20Interface.encodeFunctionData("transferFrom", [from, to, value]),
+    });
+  }
+
+  async preview({ token: symbol, from, to, amount }: { token: string; from: string; to: string; amount: string }) {
+    const summary = `Transfer ${amount} ${symbol} from ${from} to ${to}`;
+    const parsed = parseTokenAmount(this.tools, symbol, amount);
+    if (typeof parsed === "string" || !ethers.isAddress(from) || !ethers.isAddress(to)) return { summary };
+    return previewTokenCall(
+      this.tools,
+      "TransferFromTokenTool",
+      summary,
+      { recipient: to, amount, token: parsed.token.symbol },
+      () => this.transaction(parsed.token, from, to, parsed.value)
+    );
+  }
+
+  async _call({ token: symbol, from, to, amount }: { token: string; from: string; to: string; amount: string }) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    if (!ethers.isAddress(from)) return `Invalid sender address: ${from}`;
+    if (!ethers.isAddress(to)) return `Invalid recipient address: ${to}`;
+    const parsed = parseTokenAmount(this.tools, symbol, amount);
+    if (typeof parsed === "string") return parsed;
+    const { token, value } = parsed;
+
+    try {
+      // Check up front so the user is not asked to sign a transaction that will revert
+      const contract = new ethers.Contract(token.address, ERC20_ABI, this.tools.getProvider());
+      const [allowance, balance]: [bigint, bigint] = await Promise.all([
+        contract.allowance(from, account),
+        contract.balanceOf(from),
+      ]);
+      if (allowance < value) {
+        return `Insufficient allowance: ${from} has approved only ${ethers.formatUnits(allowance, token.decimals)} ${token.symbol} for your wallet.`;
+      }
+      if (balance < value) {
+        return `Insufficient balance: ${from} holds only ${ethers.formatUnits(balance, token.decimals)} ${token.symbol}.`;
+      }
+
+      const request = await this.tools.queueRequest({
+        kind: "transferFromToken",
+        description: `Transfer ${amount} ${token.symbol} from ${from} to ${to}`,
+        transaction: this.transaction(token, from, to, value),
+      });
+      log.info(`Prepared transferFrom of ${amount} ${token.symbol} from ${from} to ${to}, request ${request.id}`);
+      return `Prepared a transfer of ${amount} ${token.symbol} from ${from} to ${to} (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("TransferFromTokenTool error:", error);
+      throw new Error(`Failed to prepare the transfer: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class BurnTokenTool extends ConfirmableTool {
+  schema = z.object({
+    token: z.string().describe("Symbol of a token in the user's token list"),
+    amount: z.string().describe("Amount to burn in whole token units"),
+  });
+
+  name = "burnToken";
+  description = "Burn (permanently destroy) some of the user's own tokens, reducing the total supply";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private transaction(token: TokenRecord, value: bigint) {
+    return this.tools.buildTransaction({
+      to: token.address,
+      data: erc20Interface.encodeFunctionData("burn", [value]),
+    });
+  }
+
+  async preview({ token: symbol, amount }: { token: string; amount: string }) {
+    const parsed = parseTokenAmount(this.tools, symbol, amount);
+    if (typeof parsed === "string") return { summary: parsed };
+    return previewTokenCall(
+      this.tools,
+      "BurnTokenTool",
+      `Burn ${amount} ${parsed.token.symbol}`,
+      { amount, token: parsed.token.symbol },
+      () => this.transaction(parsed.token, parsed.value)
+    );
+  }
+
+  async _call({ token: symbol, amount }: { token: string; amount: string }) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    const parsed = parseTokenAmount(this.tools, symbol, amount);
+    if (typeof parsed === "string") return parsed;
+    const { token, value } = parsed;
+
+    try {
+      const contract = new ethers.Contract(token.address, ERC20_ABI, this.tools.getProvider());
+      const balance: bigint = await contract.balanceOf(account);
+      if (balance < value) {
+        return `Insufficient balance to burn: you hold ${ethers.formatUnits(balance, token.decimals)} ${token.symbol}.`;
+      }
+
+      const request = await this.tools.queueRequest({
+        kind: "burnToken",
+        description: `Burn ${amount} ${token.symbol}`,
+        transaction: this.transaction(token, value),
+        token: { name: token.name, symbol: token.symbol, address: token.address },
+      });
+      log.info(`Prepared burn of ${amount} ${token.symbol}, request ${request.id}`);
+      return `Prepared a burn of ${amount} ${token.symbol} (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("BurnTokenTool error:", error);
+      throw new Error(`Failed to prepare the burn: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class GetTokenSupplyTool extends StructuredTool {
+  schema = z.object({
+    token: z.string().optional().describe("Token symbol; all tokens in the user's list when omitted"),
+  });
+
+  name = "getTokenSupply";
+  description = "Show supply analytics for the user's tokens: initial supply, current supply and total burned";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private async describe(token: TokenRecord) {
+    const contract = new ethers.Contract(token.address, ERC20_ABI, this.tools.getProvider());
+    const current: bigint = await contract.totalSupply();
+    const format = (value: bigint) => `${ethers.formatUnits(value, token.decimals)} ${token.symbol}`;
+    if (token.initialSupply === undefined) {
+      return `${token.symbol}: current supply ${format(current)} (initial supply unknown)`;
+    }
+    const initial = BigInt(token.initialSupply);
+    const initialLabel = token.deployTx ? "initial supply" : "supply when imported";
+    const summary = `${token.symbol}: ${initialLabel} ${format(initial)}, current supply ${format(current)}`;
+    if (current > initial) return `${summary}, minted ${format(current - initial)} since`;
+    const burned = initial - current;
+    const share = initial > 0n ? ` (${((Number(burned) / Number(initial)) * 100).toFixed(2)}%)` : "";
+    return `${summary}, burned ${format(burned)}${share}`;
+  }
+
+  async _call({ token: symbol }: { token?: string }) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    const tokens = symbol ? [this.tools.findToken(symbol)].filter((token) => token !== undefined) : this.tools.getTokens();
+    if (tokens.length === 0) {
+      return symbol ? `Token ${symbol} not found in your token list.` : "No tokens in your token list yet.";
+    }
+    const lines: string[] = [];
+    for (const token of tokens) {
+      try {
+        lines.push(await this.describe(token));
+      } catch (error) {
+        log.error(`Error fetching supply for ${token.symbol}:`, error);
+        lines.push(`${token.symbol}: Unable to fetch supply`);
+      }
+    }
+    return lines.join("\n");
+  }
+}
+
+const FEATURE_LABELS: Record<TemplateFeature, string> = {
+  mint: "minting",
+  cap: "a supply cap",
+  pause: "pausing",
+  tax: "a transfer tax",
+  ownership: "ownership transfers",
+};
+
+// Registry token deployed from a template that has the feature, or a message explaining why it cannot be used
+function findTemplateToken(
+  tools: BlockchainTools,
+  symbol: string,
+  feature: TemplateFeature
+): { token: TokenRecord; template: TokenTemplate } | string {
+  const token = tools.findToken(symbol);
+  if (!token) return `Token ${symbol} not found. Please create it with createToken or add it with importToken first.`;
+  const template = token.template ? getTemplate(token.template) : undefined;
+  if (!template) {
+    return `${token.symbol} was not deployed from an Averix template, so ${FEATURE_LABELS[feature]} is not available for it.`;
+  }
+  if (!template.features.includes(feature)) {
+    return `${token.symbol} uses the ${template.name.toLowerCase()} template, which does not support ${FEATURE_LABELS[feature]}.`;
+  }
+  return { token, template };
+}
+
+// Ownership can move to another address after deployment, so the on-chain owner is checked every time
+async function checkTokenOwner(tools: BlockchainTools, token: TokenRecord, template: TokenTemplate, account: string) {
+  const contract = new ethers.Contract(token.address, template.artifact.abi, tools.getProvider());
+  const owner: string = await contract.owner();
+  return owner.toLowerCase() === account.toLowerCase() ? undefined : `Only the owner of ${token.symbol} (${owner}) can do this.`;
+}
+
+class MintTokenTool extends ConfirmableTool {
+  schema = z.object({
+    token: z.string().describe("Symbol of a token deployed from the mintable or capped template"),
+    amount: z.string().describe("Amount to mint in whole token units"),
+    to: z.string().optional().describe("Recipient address (defaults to the connected wallet)"),
+  });
+
+  name = "mintToken";
+  description = "Mint new tokens of a mintable or capped token the user owns";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private prepare({ token: symbol, amount, to }: { token: string; amount: string; to?: string }) {
+    const found = findTemplateToken(this.tools, symbol, "mint");
+    if (typeof found === "string") return found;
+    const recipient = to ?? this.tools.getAccount();
+    if (!recipient || !ethers.isAddress(recipient)) return `Invalid recipient address: ${to}`;
+    const parsed = parseTokenAmount(this.tools, symbol, amount);
+    if (typeof parsed === "string") return parsed;
+    const transaction = () =>
+      this.tools.buildTransaction({
+        to: found.token.address,
+        data: new ethers.Interface(found.template.artifact.abi).encodeFunctionData("mint", [recipient, parsed.value]),
+      });
+    return { ...found, recipient, value: parsed.value, transaction };
+  }
+
+  async preview(args: { token: string; amount: string; to?: string }) {
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return { summary: prepared };
+    return previewTokenCall(
+      this.tools,
+      "MintTokenTool",
+      `Mint ${args.amount} ${prepared.token.symbol} to ${prepared.recipient}`,
+      { recipient: prepared.recipient, amount: args.amount, token: prepared.token.symbol },
+      prepared.transaction
+    );
+  }
+
+  async _call(args: { token: string; amount: string; to?: string }) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return prepared;
+    const { token, template, recipient, value } = prepared;
+
+    try {
+      const notOwner = await checkTokenOwner(this.tools, token, template, account);
+      if (notOwner) return notOwner;
+      if (template.features.includes("cap")) {
+        const contract = new ethers.Contract(token.address, template.artifact.abi, this.tools.getProvider());
+        const [cap, totalSupply]: [bigint, bigint] = await Promise.all([contract.cap(), contract.totalSupply()]);
+        if (totalSupply + value > cap) {
+          return `Minting ${args.amount} ${token.symbol} would exceed the cap of ${ethers.formatUnits(cap, token.decimals)}: only ${ethers.formatUnits(cap - totalSupply, token.decimals)} ${token.symbol} can still be minted.`;
+        }
+      }
+
+      const request = await this.tools.queueRequest({
+        kind: "mintToken",
+        description: `Mint ${args.amount} ${token.symbol} to ${recipient}`,
+        transaction: prepared.transaction(),
+        token: { name: token.name, symbol: token.symbol, address: token.address },
+      });
+      log.info(`Prepared mint of ${args.amount} ${token.symbol} to ${recipient}, request ${request.id}`);
+      return `Prepared a mint of ${args.amount} ${token.symbol} to ${recipient} (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("MintTokenTool error:", error);
+      throw new Error(`Failed to prepare the mint: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class PauseTokenTool extends ConfirmableTool {
+  schema = z.object({
+    token: z.string().describe("Symbol of a token deployed from the pausable template"),
+    action: z.enum(["pause", "unpause"]).optional().describe("pause (default) stops all transfers, unpause resumes them"),
+  });
+
+  name = "pauseToken";
+  description = "Pause or resume all transfers of a pausable token the user owns";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private prepare({ token: symbol, action = "pause" }: { token: string; action?: "pause" | "unpause" }) {
+    const found = findTemplateToken(this.tools, symbol, "pause");
+    if (typeof found === "string") return found;
+    const transaction = () =>
+      this.tools.buildTransaction({
+        to: found.token.address,
+        data: new ethers.Interface(found.template.artifact.abi).encodeFunctionData(action),
+      });
+    const summary = `${action === "pause" ? "Pause" : "Resume"} all ${found.token.symbol} transfers`;
+    return { ...found, action, summary, transaction };
+  }
+
+  async preview(args: { token: string; action?: "pause" | "unpause" }) {
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return { summary: prepared };
+    return previewTokenCall(this.tools, "PauseTokenTool", prepared.summary, { token: prepared.token.symbol }, prepared.transaction);
+  }
+
+  async _call(args: { token: string; action?: "pause" | "unpause" }) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return prepared;
+    const { token, template, action, summary } = prepared;
+
+    try {
+      const notOwner = await checkTokenOwner(this.tools, token, template, account);
+      if (notOwner) return notOwner;
+      const contract = new ethers.Contract(token.address, template.artifact.abi, this.tools.getProvider());
+      const paused: boolean = await contract.paused();
+      if (paused === (action === "pause")) return `${token.symbol} transfers are already ${paused ? "paused" : "active"}.`;
+
+      const request = await this.tools.queueRequest({
+        kind: "pauseToken",
+        description: summary,
+        transaction: prepared.transaction(),
+      });
+      log.info(`Prepared ${action} of ${token.symbol}, request ${request.id}`);
+      return `Prepared a request to ${action} ${token.symbol} transfers (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("PauseTokenTool error:", error);
+      throw new Error(`Failed to prepare the ${args.action ?? "pause"}: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class TransferOwnershipTool extends ConfirmableTool {
+  schema = z.object({
+    token: z.string().describe("Symbol of a token deployed from a template with an owner"),
+    newOwner: z.string().describe("Address that becomes the token owner"),
+  });
+
+  name = "transferOwnership";
+  description = "Hand over ownership (minting, pausing, treasury changes) of a template token the user owns";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private prepare({ token: symbol, newOwner }: { token: string; newOwner: string }) {
+    if (!ethers.isAddress(newOwner) || newOwner === ethers.ZeroAddress) return `Invalid owner address: ${newOwner}`;
+    const found = findTemplateToken(this.tools, symbol, "ownership");
+    if (typeof found === "string") return found;
+    const transaction = () =>
+      this.tools.buildTransaction({
+        to: found.token.address,
+        data: new ethers.Interface(found.template.artifact.abi).encodeFunctionData("transferOwnership", [newOwner]),
+      });
+    return { ...found, transaction };
+  }
+
+  async preview(args: { token: string; newOwner: string }) {
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return { summary: prepared };
+    return previewTokenCall(
+      this.tools,
+      "TransferOwnershipTool",
+      `Transfer ownership of ${prepared.token.symbol} to ${args.newOwner}. Your wallet loses its owner rights.`,
+      { recipient: args.newOwner, token: prepared.token.symbol },
+      prepared.transaction
+    );
+  }
+
+  async _call(args: { token: string; newOwner: string }) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return prepared;
+    const { token, template } = prepared;
+
+    try {
+      const notOwner = await checkTokenOwner(this.tools, token, template, account);
+      if (notOwner) return notOwner;
+      if (args.newOwner.toLowerCase() === account.toLowerCase()) return `Your wallet already owns ${token.symbol}.`;
+
+      const request = await this.tools.queueRequest({
+        kind: "transferOwnership",
+        description: `Transfer ownership of ${token.symbol} to ${args.newOwner}`,
+        transaction: prepared.transaction(),
+      });
+      log.info(`Prepared ownership transfer of ${token.symbol} to ${args.newOwner}, request ${request.id}`);
+      return `Prepared the transfer of ${token.symbol} ownership to ${args.newOwner} (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("TransferOwnershipTool error:", error);
+      throw new Error(`Failed to prepare the ownership transfer: ${describeFailure(error)}`);
+    }
+  }
+}
+
+const nftInterface = new ethers.Interface(ERC721_ABI);
+
+// Registry collection by symbol, or a message pointing at createNftCollection
+function findCollection(tools: BlockchainTools, symbol: string): NftCollectionRecord | string {
+  return (
+    tools.findCollection(symbol) ?? `NFT collection ${symbol} not found. Please create it with createNftCollection first.`
+  );
+}
+
+type NftCollectionArgs = { name: string; symbol: string; baseUri?: string; maxSupply?: number };
+
+class CreateNftCollectionTool extends ConfirmableTool {
+  schema = z.object({
+    name: z.string().describe("The name of the collection"),
+    symbol: z.string().describe("The symbol of the collection"),
+    baseUri: z
+      .string()
+      .optional()
+      .describe("Metadata base URI; token URIs are the base URI followed by the token id (e.g. ipfs://.../)"),
+    maxSupply: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe("Maximum number of NFTs that can be minted (0 or omitted for unlimited)"),
+  });
+
+  name = "createNftCollection";
+  description = "Create a new ERC-721 NFT collection owned by the user on the current Arbitrum network";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  // Compiled from contracts/AverixNft.sol (npm run compile:contracts)
+  NFT_ABI = AverixNft.abi;
+  NFT_BYTECODE = AverixNft.bytecode;
+
+  private async deployData({ name, symbol, baseUri = "", maxSupply = 0 }: NftCollectionArgs) {
+    const factory = new ethers.ContractFactory(this.NFT_ABI, this.NFT_BYTECODE);
+    const deployTx = await factory.getDeployTransaction(name, symbol, baseUri, maxSupply);
+    return deployTx.data;
+  }
+
+  private summary({ name, symbol, maxSupply = 0 }: NftCollectionArgs) {
+    return `Deploy NFT collection ${name} (${symbol}) with ${maxSupply > 0 ? `max supply ${maxSupply}` : "unlimited supply"}`;
+  }
+
+  async preview(args: NftCollectionArgs) {
+    const summary = this.summary(args);
+    try {
+      const { gas, fee } = await this.tools.estimateCost(this.tools.buildTransaction({ data: await this.deployData(args) }));
+      return {
+        summary,
+        token: args.symbol,
+        estimatedGas: gas.toString(),
+        estimatedFee: `${ethers.formatEther(fee)} ETH`,
+        totalCost: `${ethers.formatEther(fee)} ETH`,
+      };
+    } catch (error) {
+      log.error("CreateNftCollectionTool preview error:", error);
+      return { summary: `${summary} (expected to fail: ${describeFailure(error)})`, token: args.symbol };
+    }
+  }
+
+  async _call(args: NftCollectionArgs) {
+    if (!this.tools.getAccount()) return "No wallet connected. Please connect a wallet first.";
+    const existing = this.tools.findCollection(args.symbol);
+    if (existing) {
+      return `You already have an NFT collection with symbol ${existing.symbol} at ${existing.address}. Please choose a different symbol.`;
+    }
+
+    try {
+      const request = await this.tools.queueRequest({
+        kind: "createNftCollection",
+        description: this.summary(args),
+        transaction: this.tools.buildTransaction({ data: await this.deployData(args) }),
+        token: { name: args.name, symbol: args.symbol },
+      });
+      log.info(`Prepared deployment of NFT collection ${args.name} (${args.symbol}), request ${request.id}`);
+      return `Prepared the deployment of NFT collection ${args.name} (${args.symbol}) (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("CreateNftCollectionTool error:", error);
+      throw new Error(`Failed to create NFT collection: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class MintNftTool extends ConfirmableTool {
+  schema = z.object({
+    collection: z.string().describe("Symbol of one of the user's NFT collections"),
+    to: z.string().optional().describe("Recipient address (defaults to the connected wallet)"),
+  });
+
+  name = "mintNft";
+  description = "Mint the next NFT of one of the user's collections; token ids are assigned in order starting at 1";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private transaction(collection: NftCollectionRecord, to: string) {
+    return this.tools.buildTransaction({
+      to: collection.address,
+      data: nftInterface.encodeFunctionData("mint", [to]),
+    });
+  }
+
+  async preview({ collection: symbol, to }: { collection: string; to?: string }) {
+    const collection = findCollection(this.tools, symbol);
+    const recipient = to ?? this.tools.getAccount();
+    if (typeof collection === "string") return { summary: collection };
+    if (!recipient || !ethers.isAddress(recipient)) return { summary: `Invalid recipient address: ${to}` };
+    return previewTokenCall(
+      this.tools,
+      "MintNftTool",
+      `Mint one ${collection.symbol} NFT to ${recipient}`,
+      { recipient, token: collection.symbol },
+      () => this.transaction(collection, recipient)
+    );
+  }
+
+  async _call({ collection: symbol, to }: { collection: string; to?: string }) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    const collection = findCollection(this.tools, symbol);
+    if (typeof collection === "string") return collection;
+    const recipient = to ?? account;
+    if (!ethers.isAddress(recipient)) return `Invalid recipient address: ${recipient}`;
+
+    try {
+      const contract = new ethers.Contract(collection.address, ERC721_ABI, this.tools.getProvider());
+      const [owner, totalSupply]: [string, bigint] = await Promise.all([contract.owner(), contract.totalSupply()]);
+      if (owner.toLowerCase() !== account.toLowerCase()) {
+        return `Only the owner of ${collection.symbol} (${owner}) can mint.`;
+      }
+      const maxSupply = BigInt(collection.maxSupply);
+      if (maxSupply > 0n && totalSupply >= maxSupply) {
+        return `${collection.symbol} has reached its max supply of ${maxSupply} NFTs.`;
+      }
+
+      const request = await this.tools.queueRequest({
+        kind: "mintNft",
+        description: `Mint one ${collection.symbol} NFT to ${recipient}`,
+        transaction: this.transaction(collection, recipient),
+        token: { name: collection.name, symbol: collection.symbol, address: collection.address },
+      });
+      log.info(`Prepared mint of one ${collection.symbol} NFT to ${recipient}, request ${request.id}`);
+      return `Prepared a mint of ${collection.symbol} NFT #${totalSupply + 1n} to ${recipient} (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+    } catch (error) {
+      log.error("MintNftTool error:", error);
+      throw new Error(`Failed to prepare the NFT mint: ${describeFailure(error)}`);
+    }
+  }
+}
+
+class TransferNftTool extends ConfirmableTool {
+  schema = z.object({
+    collection: z.string().describe("Symbol of one of the user's NFT collections"),
+    tokenId: z.string().describe("Id of the NFT to transfer"),
+    to: z.string().describe("Recipient address"),
+  });
+
+  name = "transferNft";
+  description = "Transfer one of the user's NFTs to another address";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private transaction(collection: NftCollectionRecord, tokenId: bigint, to: string) {
+    return this.tools.buildTransaction({
+      to: collection.address,
+      data: nftInterface.encodeFunctionData("safeTransferFrom", [this.tools.getAccount(), to, tokenId]),
+    });
+  }
+
+  private parseTokenId(tokenId: string) {
+    return /^#?\d+$/.test(tokenId) ? BigInt(tokenId.replace("#", "")) : undefined;
+  }
+
+  async preview({ collection: symbol, tokenId, to }: { collection: string; tokenId: string; to: string }) {
+    const collection = findCollection(this.tools, symbol);
+    const id = this.parseTokenId(tokenId);
+    if (typeof collection === "string") return { summary: collection };
+    if (id === undefined || !ethers.isAddress(to)) return { summary: `Transfer ${symbol} #${tokenId} to ${to}` };
+    return previewTokenCall(
+      this.tools,
+      "TransferNftTool",
+      `Transfer ${collection.symbol} #${id} to ${to}`,
+      { recipient: to, token: `${collection.symbol} #${id}` },
+      () => this.transaction(collection, id, to)
+    );
+  }
+
+  async _call({ collection: symbol, tokenId, to }: { collection: string; tokenId: string; to: string }) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    const collection = findCollection(this.tools, symbol);
+    if (typeof collection === "string") return collection;
+    const id = this.parseTokenId(tokenId);
+    if (id === undefined) return `Invalid token id: ${tokenId}`;
+    if (!ethers.isAddress(to)) return `Invalid recipient address: ${to}`;
+
+    const contract = new ethers.Contract(collection.address, ERC721_ABI, this.tools.getProvider());
+    let holder: string;
+    try {
+      holder = await contract.ownerOf(id);
+    } catch {
+      return `${collection.symbol} #${id} does not exist.`;
+    }
+    if (holder.toLowerCase() !== account.toLowerCase()) return `${collection.symbol} #${id} is held by ${holder}, not your wallet.`;
+
+    const request = await this.tools.queueRequest({
+      kind: "transferNft",
+      description: `Transfer ${collection.symbol} #${id} to ${to}`,
+      transaction: this.transaction(collection, id, to),
+    });
+    log.info(`Prepared transfer of ${collection.symbol} #${id} to ${to}, request ${request.id}`);
+    return `Prepared a transfer of ${collection.symbol} #${id} to ${to} (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}`;
+  }
+}
+
+class GetNftsTool extends StructuredTool {
+  schema = z.object({
+    collection: z.string().optional().describe("Collection symbol; all of the user's collections when omitted"),
+    owner: z.string().optional().describe("Holder address (defaults to the connected wallet)"),
+  });
+
+  name = "getNfts";
+  description = "List the NFTs an address holds in the user's collections, with their token URIs and collection supply";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private async describe(collection: NftCollectionRecord, holder: string) {
+    const contract = new ethers.Contract(collection.address, ERC721_ABI, this.tools.getProvider());
+    const [ids, totalSupply]: [bigint[], bigint] = await Promise.all([contract.tokensOfOwner(holder), contract.totalSupply()]);
+    const supply = collection.maxSupply === "0" ? `${totalSupply} minted` : `${totalSupply}/${collection.maxSupply} minted`;
+    const header = `${collection.name} (${collection.symbol}) at ${this.tools.explorerLink("address", collection.address)}, ${supply}`;
+    if (ids.length === 0) return `${header}\n  no NFTs held`;
+    const rows = await Promise.all(
+      ids.map(async (id) => {
+        const uri: string = await contract.tokenURI(id);
+        return `  #${id}${uri ? ` - ${uri}` : ""}`;
+      })
+    );
+    return `${header}\n${rows.join("\n")}`;
+  }
+
+  async _call({ collection: symbol, owner }: { collection?: string; owner?: string }) {
+    const holder = owner ?? this.tools.getAccount();
+    if (!holder) return "No wallet connected.";
+    if (!ethers.isAddress(holder)) return `Invalid owner address: ${holder}`;
+    const collections = symbol
+      ? [this.tools.findCollection(symbol)].filter((collection) => collection !== undefined)
+      : this.tools.getCollections();
+    if (collections.length === 0) {
+      return symbol ? `NFT collection ${symbol} not found.` : "No NFT collections yet. Create one with createNftCollection.";
+    }
+    const sections: string[] = [];
+    for (const collection of collections) {
+      try {
+        sections.push(await this.describe(collection, holder));
+      } catch (error) {
+        log.error(`Error fetching NFTs for ${collection.symbol}:`, error);
+        sections.push(`${collection.symbol}: Unable to fetch NFTs`);
+      }
+    }
+    return sections.join("\n");
+  }
+}
+
+class RegisterContractTool extends StructuredTool {
+  schema = z.object({
+    name: z.string().describe("Short name to refer to the contract by, e.g. 'vault'"),
+    address: z.string().describe("The contract address on the current network"),
+    abi: z
+      .string()
+      .describe(
+        "The contract ABI: JSON (array or artifact with an abi field) or human-readable signatures separated by newlines or semicolons, e.g. 'function balanceOf(address owner) view returns (uint256)'"
+      ),
+  });
+
+  name = "registerContract";
+  description = "Register any contract by address and ABI so readContract and writeContract can call its functions";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call({ name, address, abi }: { name: string; address: string; abi: string }) {
+    if (!this.tools.getAccount()) return "No wallet connected.";
+    if (!ethers.isAddress(address)) return `Invalid contract address: ${address}`;
+    let iface: ethers.Interface;
+    try {
+      iface = parseAbi(abi);
+    } catch (error) {
+      return `Invalid ABI: ${error instanceof Error ? error.message : String(error)}`;
+    }
+    try {
+      const record = await this.tools.registerContract(name, address, iface);
+      log.info(`Registered contract ${record.name} at ${record.address}`);
+      return `Registered ${record.name} at ${this.tools.explorerLink("address", record.address)}. Functions:\n${listFunctions(iface).join("\n")}`;
+    } catch (error) {
+      log.error("RegisterContractTool error:", error);
+      return `Failed to register contract: ${error instanceof Error ? error.message : String(error)}`;
+    }
+  }
+}
+
+type ContractCallArgs = { contract: string; function: string; args?: unknown[]; value?: string };
+
+// Registered contract, function and validated arguments for a call, or a message explaining what is wrong
+function resolveContractCall(tools: BlockchainTools, { contract: query, function: name, args }: ContractCallArgs) {
+  const record: ContractRecord | undefined = tools.findContract(query);
+  if (!record) return `Contract ${query} is not registered. Register it with registerContract first.`;
+  const iface = new ethers.Interface(record.abi);
+  const fragment = findFunction(iface, name);
+  if (typeof fragment === "string") return fragment;
+  try {
+    return { record, iface, fragment, values: coerceArguments(fragment, args) };
+  } catch (error) {
+    return `Invalid arguments: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
+
+const contractCallSchema = {
+  contract: z.string().describe("Registered contract name or address"),
+  function: z.string().describe("Function name, or the full signature for overloaded functions"),
+  args: z
+    .array(z.any())
+    .optional()
+    .describe("Arguments in order; integers in base units (wei), arrays and structs as JSON"),
+};
+
+class ReadContractTool extends StructuredTool {
+  schema = z.object(contractCallSchema);
+
+  name = "readContract";
+  description = "Call a view or pure function of a registered contract and decode the return values";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  async _call(args: ContractCallArgs) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    const resolved = resolveContractCall(this.tools, args);
+    if (typeof resolved === "string") return resolved;
+    const { record, iface, fragment, values } = resolved;
+    if (!fragment.constant) return `${fragment.format()} changes state; use writeContract to call it.`;
+
+    const contract = new ethers.Contract(record.address, iface, this.tools.getProvider());
+    try {
+      const result = await contract.getFunction(fragment).staticCallResult(...values, { from: account });
+      return `${record.name}.${fragment.name} returned:\n${formatResult(fragment, result)}`;
+    } catch (error) {
+      log.error("ReadContractTool error:", error);
+      return `${record.name}.${fragment.name} failed: ${describeFailure(error, iface)}`;
+    }
+  }
+}
+
+class WriteContractTool extends ConfirmableTool {
+  schema = z.object({
+    ...contractCallSchema,
+    value: z.string().optional().describe("ETH to send with the call, for payable functions"),
+  });
+
+  name = "writeContract";
+  description = "Call a state-changing function of a registered contract; the user confirms and signs it in their wallet";
+
+  constructor(private tools: BlockchainTools) {
+    super();
+  }
+
+  private prepare(args: ContractCallArgs) {
+    const resolved = resolveContractCall(this.tools, args);
+    if (typeof resolved === "string") return resolved;
+    const { record, iface, fragment, values } = resolved;
+    if (fragment.constant) return `${fragment.format()} only reads state; use readContract to call it.`;
+    let value = 0n;
+    if (args.value !== undefined) {
+      if (!fragment.payable) return `${fragment.format()} is not payable, so it cannot receive ETH.`;
+      try {
+        value = ethers.parseEther(args.value);
+      } catch {
+        return `Invalid ETH value: ${args.value}`;
+      }
+    }
+    const call = `${record.name}.${fragment.name}(${formatArguments(values)})${value > 0n ? ` sending ${args.value} ETH` : ""}`;
+    const summary = `Call ${call}`;
+    const transaction = () =>
+      this.tools.buildTransaction({
+        to: record.address,
+        data: iface.encodeFunctionData(fragment, values),
+        value: value > 0n ? value : undefined,
+      });
+    return { ...resolved, value, call, summary, transaction };
+  }
+
+  async preview(args: ContractCallArgs) {
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return { summary: prepared };
+    const { record, iface, value, summary, transaction } = prepared;
+    try {
+      const { gas, fee } = await this.tools.estimateCost(transaction());
+      return {
+        summary,
+        recipient: record.address,
+        amount: value > 0n ? `${args.value} ETH` : undefined,
+        estimatedGas: gas.toString(),
+        estimatedFee: `${ethers.formatEther(fee)} ETH`,
+        totalCost: `${ethers.formatEther(fee + value)} ETH`,
+      };
+    } catch (error) {
+      log.error("WriteContractTool preview error:", error);
+      return { summary: `${summary} (expected to fail: ${describeFailure(error, iface)})`, recipient: record.address };
+    }
+  }
+
+  async _call(args: ContractCallArgs) {
+    const account = this.tools.getAccount();
+    if (!account) return "No wallet connected.";
+    const prepared = this.prepare(args);
+    if (typeof prepared === "string") return prepared;
+    const { record, iface, fragment, values, value, call, summary } = prepared;
+
+    // Simulate first so a reverting call is reported instead of being sent to the wallet
+    const contract = new ethers.Contract(record.address, iface, this.tools.getProvider());
+    let simulated: ethers.Result;
+    try {
+      simulated = await contract.getFunction(fragment).staticCallResult(...values, { from: account, value });
+    } catch (error) {
+      log.error("WriteContractTool simulation error:", error);
+      return `${record.name}.${fragment.name} would fail: ${describeFailure(error, iface)}. Nothing was sent to the wallet.`;
+    }
+
+    const request = await this.tools.queueRequest({
+      kind: "writeContract",
+      description: summary,
+      transaction: prepared.transaction(),
+    });
+    log.info(`Prepared ${record.name}.${fragment.name} call, request ${request.id}`);
+    const returned = fragment.outputs.length > 0 ? ` Simulated return value:\n${formatResult(fragment, simulated)}` : "";
+    return `Prepared a call to ${call} (request ${request.id}). The user needs to approve it in their wallet. ${this.tools.describeFee(request)}${returned}`;
+  }
+}
+
+class HelpTool extends StructuredTool {
+  schema = z.object({});
+
+  name = "help";
+  description = "List all available commands";
+
+  async _call() {
+    const commands = [
+      "disconnectWallet - Disconnect and clear your wallet",
+      "getWalletAddress - Get your wallet address",
+      "getNetwork - Show the current network",
+      "switchNetwork <network> - Switch to arbitrum-one, arbitrum-sepolia, arbitrum-nova or local",
+      "getBalance - Check your ETH, token and NFT balances",
+      "transferTokens <to> <amount> - Transfer ETH tokens",
+      "signMessage <message> - Sign a message",
+      "getTransactionHistory [page] [pageSize] - Get ETH and token transfers, newest first (10 per page)",
+      "getGasPrice - Get the gas price, Arbitrum's L1/L2 fee breakdown and the USD cost of common transactions",
+      "setFeePolicy [slow|normal|fast] [maxFeeGwei] [waitBelowGwei] - Choose how transactions are priced, or show the current policy",
+      "getTransactionStatus <trackingId> - Check confirmations, failures and reorgs of a broadcast transaction",
+      "getPendingTransactions - List your transactions that are broadcast but not mined yet",
+      "speedUpTransaction <hash> [slow|normal|fast] - Resend a pending transaction with higher fees",
+      "cancelTransaction <hash> - Replace a pending transaction with a 0 ETH transfer to yourself",
+      "getTokenPrice <token> - Get token price (e.g., ETH)",
+      "getTrendingTokens - Get trending tokens (mocked)",
+      "createToken <name> <symbol> <totalSupply> [decimals] [template] [verify] - Create a new token (18 decimals, fixed supply by default)",
+      "verifyToken <token> - Verify a created token's source code on the explorer (or check the result)",
+      "getTokenTemplates - List the token templates (fixed, mintable, capped, pausable, tax) and their parameters",
+      "importToken <address> - Add an existing ERC-20 token to your token list",
+      "getFaucetTokens <address> - Request testnet ETH from the current network's faucet",
+      "approveToken <token> <spender> <amount|unlimited> - Allow a spender to use your tokens",
+      "getAllowance <token> <spender> [owner] - Check a spender's remaining allowance",
+      "getAllowances - List every spender you have approved",
+      "revokeAllowance <token> <spender> - Set a spender's allowance to zero",
+      "transferFromToken <token> <from> <to> <amount> - Move tokens someone approved you to spend",
+      "burnToken <token> <amount> - Burn some of your tokens",
+      "getTokenSupply [token] - Initial supply, current supply and total burned",
+      "mintToken <token> <amount> [to] - Mint more of a mintable or capped token you own",
+      "pauseToken <token> [pause|unpause] - Pause or resume transfers of a pausable token",
+      "transferOwnership <token> <newOwner> - Hand over ownership of a template token",
+      "createNftCollection <name> <symbol> [baseUri] [maxSupply] - Create an ERC-721 NFT collection",
+      "mintNft <collection> [to] - Mint the next NFT of your collection",
+      "transferNft <collection> <tokenId> <to> - Transfer one of your NFTs",
+      "getNfts [collection] [owner] - List NFTs held in your collections",
+      "registerContract <name> <address> <abi> - Register any contract so Averix can call it",
+      "readContract <contract> <function> [args] - Call a view function and decode the result",
+      "writeContract <contract> <function> [args] [value] - Call a state-changing function (confirmed and signed in your wallet)",
+      "batchMixedTransfer <type1> <to1> <amount1> [tokenName1] <type2> <to2> <amount2> [tokenName2] - Transfer ETH and tokens",
+      "runAirdrop <airdrop> [chunkSize] [retryFailed] - Send the next chunk of an airdrop uploaded on the dashboard",
+      "help - Show this list",
+    ];
+    return `Available commands:\n${commands.join("\n")}`;
+  }
+}
+
+// Every tool the agent can call, bound to one session's BlockchainTools
+export function createTools(blockchainTools: BlockchainTools): StructuredTool[] {
+  const tools = [
+    new DisconnectWalletTool(blockchainTools),
+    new GetWalletAddressTool(blockchainTools),
+    new GetNetworkTool(blockchainTools),
+    new SwitchNetworkTool(blockchainTools),
+    new GetBalanceTool(blockchainTools),
+    new TransferTokensTool(blockchainTools),
+    new SignMessageTool(blockchainTools),
+    new GetTransactionHistoryTool(blockchainTools),
+    new GetGasPriceTool(blockchainTools),
+    new SetFeePolicyTool(blockchainTools),
+    new GetTransactionStatusTool(blockchainTools),
+    new GetPendingTransactionsTool(blockchainTools),
+    new SpeedUpTransactionTool(blockchainTools),
+    new CancelTransactionTool(blockchainTools),
+    new GetTokenPriceTool(),
+    new GetTrendingTokensTool(blockchainTools),
+    new CreateTokenTool(blockchainTools),
+    new GetTokenTemplatesTool(),
+    new VerifyTokenTool(blockchainTools),
+    new ImportTokenTool(blockchainTools),
+    new GetFaucetTokensTool(blockchainTools),
+    new BatchMixedTransferTool(blockchainTools),
+    new RunAirdropTool(blockchainTools),
+    new ApproveTokenTool(blockchainTools),
+    new GetAllowanceTool(blockchainTools),
+    new GetAllowancesTool(blockchainTools),
+    new RevokeAllowanceTool(blockchainTools),
+    new TransferFromTokenTool(blockchainTools),
+    new BurnTokenTool(blockchainTools),
+    new GetTokenSupplyTool(blockchainTools),
+    new MintTokenTool(blockchainTools),
+    new PauseTokenTool(blockchainTools),
+    new TransferOwnershipTool(blockchainTools),
+    new CreateNftCollectionTool(blockchainTools),
+    new MintNftTool(blockchainTools),
+    new TransferNftTool(blockchainTools),
+    new GetNftsTool(blockchainTools),
+    new RegisterContractTool(blockchainTools),
+    new ReadContractTool(blockchainTools),
+    new WriteContractTool(blockchainTools),
+    new HelpTool(),
+  ];
+  // Any write tool can be dry-run instead of sent to the wallet (see simulation.ts)
+  for (const tool of tools) {
+    if (tool instanceof ConfirmableTool && tool.schema instanceof z.ZodObject) {
+      tool.schema = tool.schema.extend({ simulate: simulateFlag });
+    }
+  }
+  return tools;
+}
@@ -0,0 +1,130 @@
+import axios from "axios";
+import { ethers } from "ethers";
+import { ARBISCAN_API_KEY, VERIFICATION_API_URL, VERIFICATION_POLL_MS } from "./config";
+import { NetworkConfig } from "./networks";
+
+// Compiled contract as written by contracts/compile.js
+export interface ContractArtifact {
+  contractName: string;
+  sourceFile: string;
+  compilerVersion: string;
+  optimizer: { enabled: boolean; runs: number };
+  evmVersion: string;
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+  sources: Record<string, { content: string }>;
+}
+
+// Everything an Etherscan-style explorer needs to rebuild and match a deployed contract
+export interface VerificationRequest {
+  address: string;
+  // "File.sol:Contract"
+  contractName: string;
+  compilerVersion: string;
+  // Solidity standard JSON input
+  sourceCode: string;
+  // ABI-encoded constructor arguments without the 0x prefix
+  constructorArguments: string;
+}
+
+export interface VerificationStatus {
+  state: "pending" | "verified" | "failed";
+  message: string;
+}
+
+// Where verification requests go; swap in another implementation (or point VERIFICATION_API_URL at a mock)
+export interface VerificationClient {
+  // Returns the explorer's id (guid) for the submission
+  submit(request: VerificationRequest): Promise<string>;
+  checkStatus(guid: string): Promise<VerificationStatus>;
+}
+
+// Etherscan-compatible contract API (Arbiscan, Blockscout's Etherscan mode, ...)
+export class EtherscanVerificationClient implements VerificationClient {
+  constructor(private apiUrl: string, private apiKey: string) {}
+
+  async submit(request: VerificationRequest): Promise<string> {
+    const form = new URLSearchParams({
+      module: "contract",
+      action: "verifysourcecode",
+      codeformat: "solidity-standard-json-input",
+      contractaddress: request.address,
+      contractname: request.contractName,
+      compilerversion: request.compilerVersion,
+      sourceCode: request.sourceCode,
+      // Misspelled in the Etherscan API itself
+      constructorArguements: request.constructorArguments,
+    });
+    if (this.apiKey) form.set("apikey", this.apiKey);
+    const { data } = await axios.post<{ status: string; message: string; result: string }>(this.apiUrl, form, {
+      timeout: 30000,
+    });
+    if (data.status !== "1") throw new Error(data.result || data.message);
+    return data.result;
+  }
+
+  async checkStatus(guid: string): Promise<VerificationStatus> {
+    const { data } = await axios.get<{ status: string; message: string; result: string }>(this.apiUrl, {
+      params: { module: "contract", action: "checkverifystatus", guid, apikey: this.apiKey || undefined },
+      timeout: 15000,
+    });
+    const message = data.result || data.message;
+    if (/pending/i.test(message)) return { state: "pending", message };
+    if (data.status === "1" || /already verified/i.test(message)) return { state: "verified", message };
+    return { state: "failed", message };
+  }
+}
+
+// Source, compiler settings and constructor arguments (the tail of the deploy data) for one deployment
+export function buildVerificationRequest(artifact: ContractArtifact, address: string, deployData: string): VerificationRequest {
+  if (!deployData.toLowerCase().startsWith(artifact.bytecode.toLowerCase())) {
+    throw new Error(`The deployment of ${address} does not match the ${artifact.contractName} artifact`);
+  }
+  const sourceCode = JSON.stringify({
+    language: "Solidity",
+    sources: artifact.sources,
+    settings: { optimizer: artifact.optimizer, evmVersion: artifact.evmVersion },
+  });
+  return {
+    address,
+    contractName: `${artifact.sourceFile}:${artifact.contractName}`,
+    compilerVersion: artifact.compilerVersion,
+    sourceCode,
+    constructorArguments: deployData.slice(artifact.bytecode.length),
+  };
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Submit, then poll until the explorer reports a result. The explorer often needs a few blocks to index
+// new bytecode, so failed submissions are retried too. Gives up as "pending" after maxAttempts polls.
+export async function verifyContract(
+  client: VerificationClient,
+  request: VerificationRequest,
+  { intervalMs = VERIFICATION_POLL_MS, maxAttempts = 24 } = {}
+): Promise<VerificationStatus> {
+  let guid: string | undefined;
+  for (let attempt = 1; !guid; attempt++) {
+    try {
+      guid = await client.submit(request);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/already verified/i.test(message)) return { state: "verified", message };
+      if (attempt >= 5) return { state: "failed", message };
+      await wait(intervalMs);
+    }
+  }
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    await wait(intervalMs);
+    const status = await client.checkStatus(guid);
+    if (status.state !== "pending") return status;
+  }
+  return { state: "pending", message: `No result after ${maxAttempts} checks (guid ${guid})` };
+}
+
+// VERIFICATION_API_URL overrides the network's explorer API, e.g. for a local mock on the devnode
+export const createVerificationClient = (network: NetworkConfig): VerificationClient | undefined => {
+  const apiUrl = VERIFICATION_API_URL || network.explorerApiUrl;
+  return apiUrl ? new EtherscanVerificationClient(apiUrl, ARBISCAN_API_KEY) : undefined;
+};
@@ -0,0 +1,1023 @@
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { test, TestContext } from "node:test";
+import axios from "axios";
+import { BaseMessage } from "@langchain/core/messages";
+import { Command, MemorySaver } from "@langchain/langgraph";
+import { ethers } from "ethers";
+import AverixNft from "../contracts/AverixNft.json";
+import { AgentState, createAgent } from "../src/agent";
+import { importAirdrop } from "../src/airdrop";
+import { BlockchainTools, SigningRequest } from "../src/blockchainTools";
+import { NonceManager } from "../src/nonces";
+import { PendingTransactionTracker } from "../src/pendingTransactions";
+import { TemplateKey, TOKEN_TEMPLATES } from "../src/templates";
+import { ERC20_ABI, TokenRegistry } from "../src/tokens";
+import { VerificationRequest } from "../src/verification";
+import { PendingAction } from "../src/tools";
+import { devWallet, findDevnode, TEST_RPC_URL } from "./devnode";
+import { ScriptedChatModel, toolCall } from "./scriptedChatModel";
+
+const devnode = findDevnode();
+
+// A session on the devnode whose model follows the script; the dev account plays the user's wallet
+async function startSession(t: TestContext, script: ConstructorParameters<typeof ScriptedChatModel>[0]) {
+  const network = await devnode;
+  if (!network) {
+    // A CI run without a chain would pass without testing anything
+    if (process.env.CI) throw new Error(`No devnode answers at ${TEST_RPC_URL}; start one or point TEST_RPC_URL at it`);
+    t.skip(`no devnode at ${TEST_RPC_URL}; start anvil or set TEST_RPC_URL to run the on-chain tests`);
+    return undefined;
+  }
+  const registryFile = path.join(os.tmpdir(), `averix-test-${randomUUID()}.json`);
+  t.after(() => fs.rmSync(registryFile, { force: true }));
+  const registry = new TokenRegistry(registryFile);
+  const tools = new BlockchainTools(network, registry, new PendingTransactionTracker(), new NonceManager());
+  const wallet = devWallet(network);
+  tools.setAccount(wallet.address);
+  const model = new ScriptedChatModel(script);
+  const agent = createAgent(tools, { model, checkpointer: new MemorySaver() });
+  const config = { configurable: { thread_id: randomUUID() } };
+  return { network, registry, tools, wallet, model, agent, config };
+}
+
+type Session = NonNullable<Awaited<ReturnType<typeof startSession>>>;
+
+// Another browser tab of the same wallet: its own session, sharing the wallet's records
+function openTab({ network, registry, wallet }: Session, script: ConstructorParameters<typeof ScriptedChatModel>[0]) {
+  const tools = new BlockchainTools(network, registry, new PendingTransactionTracker(), new NonceManager());
+  tools.setAccount(wallet.address);
+  const model = new ScriptedChatModel(script);
+  const agent = createAgent(tools, { model, checkpointer: new MemorySaver() });
+  return { network, registry, tools, wallet, model, agent, config: { configurable: { thread_id: randomUUID() } } };
+}
+
+async function pendingActions(session: Session): Promise<PendingAction[]> {
+  const snapshot = await session.agent.getState(session.config);
+  return snapshot.tasks.flatMap((task) => task.interrupts.flatMap((pending) => pending.value as PendingAction[]));
+}
+
+const ask = async ({ agent, config }: Session, content: string) =>
+  (await agent.invoke({ messages: [{ role: "user", content }] }, config)) as AgentState;
+const answer = async ({ agent, config }: Session, approved: boolean) =>
+  (await agent.invoke(new Command({ resume: { approved } }), config)) as AgentState;
+
+// What the dashboard does with a prepared request: reserve a nonce, have the wallet send it with the fees it was given,
+// report the hash back and leave it to the tracker
+async function broadcast(session: Session, request: SigningRequest) {
+  const { tools, wallet, network } = session;
+  const nonce = await tools.reserveNonce(request.id);
+  const { to, data, value, maxFeePerGas, maxPriorityFeePerGas } = request.transaction!;
+  const response = await wallet.sendTransaction({
+    to,
+    data,
+    value,
+    nonce,
+    chainId: network.chainId,
+    maxFeePerGas,
+    maxPriorityFeePerGas,
+  });
+  tools.settleNonce(tools.completeRequest(request.id)!);
+  await tools.trackTransaction(request, response.hash);
+  return response;
+}
+
+async function signAndSend(session: Session, request: SigningRequest) {
+  const receipt = await (await broadcast(session, request)).wait();
+  assert.equal(receipt?.status, 1);
+  return receipt!;
+}
+
+// Stop the devnode from mining on its own so transactions stay pending until mine() is called; skips the test when
+// the node cannot do that
+async function pauseMining(t: TestContext, { wallet }: Session) {
+  const provider = wallet.provider as ethers.JsonRpcProvider;
+  try {
+    await provider.send("evm_setAutomine", [false]);
+  } catch {
+    t.skip("the devnode cannot pause mining (evm_setAutomine)");
+    return undefined;
+  }
+  t.after(() => provider.send("evm_setAutomine", [true]));
+  return () => provider.send("evm_mine", []);
+}
+
+// A token deployed straight from the dev account, outside the agent
+async function deployToken(wallet: ethers.Wallet, symbol: string, supply = "1000", template: TemplateKey = "fixed") {
+  const { abi, bytecode } = TOKEN_TEMPLATES[template].artifact;
+  const token = await new ethers.ContractFactory(abi, bytecode, wallet).deploy(
+    `${symbol} Token`,
+    symbol,
+    18,
+    ethers.parseUnits(supply, 18)
+  );
+  await token.waitForDeployment();
+  return new ethers.Contract(await token.getAddress(), abi, wallet);
+}
+
+// A deployed token in the session's token list
+async function addToken(session: Session, symbol: string, supply?: string, template?: TemplateKey) {
+  const token = await deployToken(session.wallet, symbol, supply, template);
+  await session.tools.registerToken(session.wallet.address, await token.getAddress(), { template });
+  return token;
+}
+
+// A deployed NFT collection in the session's collection list
+async function addCollection(session: Session, symbol: string, baseUri = "", maxSupply = 0) {
+  const factory = new ethers.ContractFactory(AverixNft.abi, AverixNft.bytecode, session.wallet);
+  const collection = await factory.deploy(`${symbol} Collection`, symbol, baseUri, maxSupply);
+  await collection.waitForDeployment();
+  await session.tools.registerCollection(session.wallet.address, await collection.getAddress());
+  return new ethers.Contract(await collection.getAddress(), AverixNft.abi, session.wallet);
+}
+
+// A second account on the devnode with some ETH for gas, e.g. a token holder that approves the user's wallet
+async function fundedWallet({ wallet }: Session) {
+  const other = ethers.Wallet.createRandom(wallet.provider);
+  await (await wallet.sendTransaction({ to: other.address, value: ethers.parseEther("0.1") })).wait();
+  return other;
+}
+
+const lastContent = (messages: BaseMessage[]) => String(messages[messages.length - 1].content);
+// What the tool answered, as the model saw it on its second call
+const toolResult = (model: ScriptedChatModel) => lastContent(model.prompts[1]);
+
+test("disconnectWallet clears the session's wallet", async (t) => {
+  const session = await startSession(t, [[toolCall("disconnectWallet", {})], "Disconnected."]);
+  if (!session) return;
+
+  await ask(session, "disconnect my wallet");
+  assert.equal(toolResult(session.model), "Wallet disconnected successfully");
+  assert.equal(session.tools.getAccount(), null);
+});
+
+test("getWalletAddress returns the connected wallet", async (t) => {
+  const session = await startSession(t, [[toolCall("getWalletAddress", {})], "That is your address."]);
+  if (!session) return;
+
+  await ask(session, "what is my address?");
+  assert.equal(toolResult(session.model), session.wallet.address);
+});
+
+test("getNetwork describes the devnode", async (t) => {
+  const session = await startSession(t, [[toolCall("getNetwork", {})], "You are on the devnode."]);
+  if (!session) return;
+
+  await ask(session, "which network am I on?");
+  assert.match(toolResult(session.model), new RegExp(`Current network: Local devnode \\(chain ID ${session.network.chainId}`));
+});
+
+test("switchNetwork moves the session to another network", async (t) => {
+  const session = await startSession(t, [[toolCall("switchNetwork", { network: "sepolia" })], "Switched."]);
+  if (!session) return;
+
+  await ask(session, "switch to sepolia");
+  assert.match(toolResult(session.model), /^Switched to Arbitrum Sepolia/);
+  assert.equal(session.tools.getNetwork().key, "arbitrum-sepolia");
+});
+
+test("getBalance reports ETH and registered token balances", async (t) => {
+  const session = await startSession(t, [[toolCall("getBalance", {})], "Here are your balances."]);
+  if (!session) return;
+  const { wallet } = session;
+  await addToken(session, "BAL", "250");
+
+  await ask(session, "what are my balances?");
+  const balance = await wallet.provider!.getBalance(wallet.address);
+  assert.equal(toolResult(session.model), `ETH Balance: ${ethers.formatEther(balance)} ETH\nBAL Balance: 250.0 BAL`);
+});
+
+test("transferTokens sends ETH once the user confirms", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("transferTokens", { to: recipient, amount: "0.01" })], "Sent."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+
+  await ask(session, `send 0.01 ETH to ${recipient}`);
+  const [action] = await pendingActions(session);
+  assert.equal(action.tool, "transferTokens");
+  assert.equal(action.recipient, recipient);
+  assert.ok(action.estimatedGas, "the preview estimates gas");
+  assert.deepEqual(tools.takeQueuedRequests(), [], "nothing is prepared before the user confirms");
+
+  const result = await answer(session, true);
+  assert.equal(lastContent(result.messages), "Sent.");
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "transferTokens");
+  await signAndSend(session, request);
+  assert.equal(await wallet.provider!.getBalance(recipient), ethers.parseEther("0.01"));
+});
+
+test("transferTokens prepares nothing when the user cancels", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("transferTokens", { to: recipient, amount: "1" })], "Cancelled."]);
+  if (!session) return;
+  const { tools, model } = session;
+
+  await ask(session, `send 1 ETH to ${recipient}`);
+  assert.equal((await pendingActions(session)).length, 1);
+
+  const result = await answer(session, false);
+  assert.equal(lastContent(result.messages), "Cancelled.");
+  assert.deepEqual(tools.takeQueuedRequests(), []);
+  assert.equal(toolResult(model), "The user cancelled this action.", "the model hears about the cancellation");
+  assert.deepEqual(await pendingActions(session), []);
+});
+
+test("transferTokens approved for real still reaches the wallet when simulation mode turns on meanwhile", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("transferTokens", { to: recipient, amount: "0.01" })], "Sent."]);
+  if (!session) return;
+  const { tools } = session;
+
+  await ask(session, `send 0.01 ETH to ${recipient}`);
+  const [action] = await pendingActions(session);
+  assert.equal(action.simulationMode, false);
+  tools.setSimulationMode(true);
+
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request?.kind, "transferTokens", "the approved transfer runs in the mode it was previewed under");
+  await signAndSend(session, request);
+});
+
+test("transferTokens with simulate runs without asking for confirmation or a signature", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [
+    [toolCall("transferTokens", { to: recipient, amount: "0.5", simulate: true })],
+    "It would succeed.",
+  ]);
+  if (!session) return;
+  const { tools, model, wallet } = session;
+
+  const result = await ask(session, "dry run a transfer");
+  assert.equal(lastContent(result.messages), "It would succeed.");
+  assert.deepEqual(await pendingActions(session), [], "a dry run needs no confirmation");
+  assert.deepEqual(tools.takeQueuedRequests(), [], "a dry run reaches no wallet");
+  assert.match(toolResult(model), /would succeed/);
+  assert.equal(await wallet.provider!.getBalance(recipient), 0n);
+});
+
+test("signMessage asks the wallet for a signature", async (t) => {
+  const session = await startSession(t, [[toolCall("signMessage", { message: "hello averix" })], "Requested."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+
+  await ask(session, "sign hello averix");
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "signMessage");
+  assert.equal(request.message, "hello averix");
+  const signature = await wallet.signMessage(request.message!);
+  assert.equal(ethers.verifyMessage("hello averix", signature), wallet.address);
+});
+
+test("getTransactionHistory lists a transfer from the wallet", async (t) => {
+  const session = await startSession(t, [[toolCall("getTransactionHistory", { page: 1, pageSize: 5 })], "Here it is."]);
+  if (!session) return;
+  const { wallet } = session;
+  const recipient = ethers.Wallet.createRandom().address;
+  const sent = await wallet.sendTransaction({ to: recipient, value: ethers.parseEther("0.001") });
+  await sent.wait();
+
+  await ask(session, "show my history");
+  const [, newest] = toolResult(session.model).split("\n");
+  assert.match(newest, new RegExp(`Sent 0.001 ETH to ${recipient} \\| ${sent.hash}$`));
+});
+
+test("getGasPrice breaks down the gas price and prices common transactions", async (t) => {
+  const session = await startSession(t, [[toolCall("getGasPrice", {})], "That is the gas price."]);
+  if (!session) return;
+  t.mock.method(axios, "get", async () => ({ data: { ethereum: { usd: 2000 } } }));
+
+  await ask(session, "how much is gas?");
+  const { gasPrice } = await session.wallet.provider!.getFeeData();
+  const lines = toolResult(session.model).split("\n");
+  assert.deepEqual(lines.slice(0, 2), ["Gas on Local devnode:", `- Gas price: ${ethers.formatUnits(gasPrice!, "gwei")} gwei`]);
+  // A Nitro devnode has the ArbOS precompiles, anvil and hardhat do not
+  assert.match(lines[2], /^- (L2 base fee|No L1\/L2 breakdown)/);
+  const costs = lines.findIndex((line) => line.startsWith("Estimated costs"));
+  assert.equal(lines[costs], "Estimated costs (ETH at $2000, though testnet ETH has no market value):");
+  assert.deepEqual(
+    lines.slice(costs + 1).map((line) => line.split(":")[0]),
+    ["- ETH transfer", "- ERC-20 transfer", "- Token deployment"]
+  );
+});
+
+test("setFeePolicy holds transactions until the base fee is low enough", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [
+    [toolCall("setFeePolicy", { speed: "fast", maxFeeGwei: "100", waitBelowGwei: "0" })],
+    "Policy set.",
+    [toolCall("transferTokens", { to: recipient, amount: "0.01" })],
+    "Held.",
+  ]);
+  if (!session) return;
+  const { tools, model } = session;
+
+  await ask(session, "send fast, at most 100 gwei, and only when gas is free");
+  assert.match(
+    toolResult(model),
+    /^Fee policy: fast \(.+\), max fee cap 100\.0 gwei, transactions wait until the base fee is at most 0\.0 gwei\./
+  );
+  assert.equal(tools.getFeePolicy().speed, "fast");
+
+  await ask(session, `send 0.01 ETH to ${recipient}`);
+  await answer(session, true);
+  assert.deepEqual(tools.takeQueuedRequests(), [], "the transfer waits for lower gas");
+  assert.equal(tools.heldCount(), 1);
+});
+
+// A transfer the user confirmed and broadcast that stays pending while mining is paused
+async function stuckTransfer(session: Session, recipient: string) {
+  await ask(session, `send 0.01 ETH to ${recipient}`);
+  await answer(session, true);
+  const [request] = session.tools.takeQueuedRequests();
+  return broadcast(session, request);
+}
+
+test("getPendingTransactions lists broadcast transactions that are not mined yet", async (t) => {
+  const session = await startSession(t, []);
+  if (!session) return;
+  const mine = await pauseMining(t, session);
+  if (!mine) return;
+  const { model } = session;
+  const recipient = ethers.Wallet.createRandom().address;
+  model.replies.push([toolCall("transferTokens", { to: recipient, amount: "0.01" })], "Sent.");
+  const stuck = await stuckTransfer(session, recipient);
+
+  model.replies.push([toolCall("getPendingTransactions", {})], "One is pending.");
+  await ask(session, "is anything pending?");
+  const listed = lastContent(model.prompts[model.prompts.length - 1]);
+  assert.match(listed, new RegExp(`- ${stuck.hash} \\(nonce ${stuck.nonce}, sent .*\\): Transfer 0.01 ETH`));
+  await mine();
+  await stuck.wait();
+});
+
+test("speedUpTransaction resends a pending transaction with higher fees once confirmed", async (t) => {
+  const session = await startSession(t, []);
+  if (!session) return;
+  const mine = await pauseMining(t, session);
+  if (!mine) return;
+  const { tools, model, wallet } = session;
+  const recipient = ethers.Wallet.createRandom().address;
+  model.replies.push([toolCall("transferTokens", { to: recipient, amount: "0.01" })], "Sent.");
+  const stuck = await stuckTransfer(session, recipient);
+
+  model.replies.push([toolCall("speedUpTransaction", { hash: stuck.hash })], "Sped up.");
+  await ask(session, "speed it up");
+  const [action] = await pendingActions(session);
+  assert.equal(action.tool, "speedUpTransaction");
+  assert.match(action.summary, /max fee .* -> .* per gas/);
+  await answer(session, true);
+  const [replacement] = tools.takeQueuedRequests();
+  assert.equal(replacement.kind, "transferTokens", "a speed-up keeps the original kind");
+  assert.equal(replacement.transaction!.nonce, stuck.nonce);
+  assert.ok(BigInt(replacement.transaction!.maxFeePerGas!) > stuck.maxFeePerGas!);
+  const resent = await broadcast(session, replacement);
+
+  await mine();
+  assert.equal((await resent.wait())?.status, 1);
+  const [latest, original] = await tools.getTrackedTransactions();
+  assert.equal(latest.status, "confirmed");
+  assert.equal(original.status, "replaced");
+  assert.equal(original.replacedBy, resent.hash);
+  assert.equal(await wallet.provider!.getBalance(recipient), ethers.parseEther("0.01"));
+});
+
+test("cancelTransaction replaces a pending transaction with a 0 ETH transfer to the wallet once confirmed", async (t) => {
+  const session = await startSession(t, []);
+  if (!session) return;
+  const mine = await pauseMining(t, session);
+  if (!mine) return;
+  const { tools, model, wallet } = session;
+  const recipient = ethers.Wallet.createRandom().address;
+  model.replies.push([toolCall("transferTokens", { to: recipient, amount: "0.01" })], "Sent.");
+  const stuck = await stuckTransfer(session, recipient);
+
+  model.replies.push([toolCall("cancelTransaction", { hash: stuck.hash })], "Cancelled.");
+  await ask(session, "cancel it");
+  assert.equal((await pendingActions(session))[0].tool, "cancelTransaction");
+  await answer(session, true);
+  const [cancellation] = tools.takeQueuedRequests();
+  assert.equal(cancellation.kind, "cancelTransaction");
+  assert.equal(cancellation.transaction!.to, wallet.address);
+  assert.equal(BigInt(cancellation.transaction!.value ?? 0), 0n);
+  assert.equal(cancellation.replaces?.hash, stuck.hash);
+  const sent = await broadcast(session, cancellation);
+
+  await mine();
+  assert.equal((await sent.wait())?.status, 1);
+  const [latest, original] = await tools.getTrackedTransactions();
+  assert.equal(latest.status, "confirmed");
+  assert.equal(original.status, "replaced");
+  assert.equal(original.replacedBy, sent.hash);
+  assert.equal(await wallet.provider!.getBalance(recipient), 0n, "the transfer never went through");
+});
+
+test("getTransactionStatus follows a broadcast transaction from pending to confirmed", async (t) => {
+  const session = await startSession(t, []);
+  if (!session) return;
+  const mine = await pauseMining(t, session);
+  if (!mine) return;
+  const { model } = session;
+  const recipient = ethers.Wallet.createRandom().address;
+  model.replies.push([toolCall("transferTokens", { to: recipient, amount: "0.01" })], "Sent.");
+  const sent = await stuckTransfer(session, recipient);
+  const lastResult = () => lastContent(model.prompts[model.prompts.length - 1]);
+
+  model.replies.push([toolCall("getTransactionStatus", { id: sent.hash })], "Still pending.");
+  await ask(session, "is my transfer through?");
+  assert.match(lastResult(), /^Transfer 0.01 ETH .*: pending since .*; speedUpTransaction or cancelTransaction can replace it/);
+
+  await mine();
+  const receipt = await sent.wait();
+  model.replies.push([toolCall("getTransactionStatus", { id: sent.hash })], "Confirmed.");
+  await ask(session, "and now?");
+  assert.match(lastResult(), new RegExp(`: confirmed in block ${receipt!.blockNumber} \\(1 of 1 confirmations\\)\\. Tx: `));
+});
+
+test("getTokenPrice reads the price from CoinGecko", async (t) => {
+  const session = await startSession(t, [[toolCall("getTokenPrice", { token: "ETHEREUM" })], "That is the price."]);
+  if (!session) return;
+  const get = t.mock.method(axios, "get", async () => ({ data: { ethereum: { usd: 3141.5 } } }));
+
+  await ask(session, "what is the price of ethereum?");
+  assert.equal(toolResult(session.model), "Price of ETHEREUM: $3141.5 USD");
+  assert.match(String(get.mock.calls[0].arguments[0]), /simple\/price\?ids=ethereum&vs_currencies=usd/);
+});
+
+test("getTrendingTokens lists the mocked tokens for the network", async (t) => {
+  const session = await startSession(t, [[toolCall("getTrendingTokens", {})], "These are trending."]);
+  if (!session) return;
+
+  await ask(session, "what is trending?");
+  assert.match(toolResult(session.model), /^Trending tokens on Local devnode \(mocked\):/);
+});
+
+test("createToken deploys a token from the wallet", async (t) => {
+  const session = await startSession(t, [
+    [toolCall("createToken", { name: "Test Token", symbol: "TST", totalSupply: "1000" })],
+    "Deployed.",
+  ]);
+  if (!session) return;
+  const { tools, wallet } = session;
+
+  await ask(session, "create a token TST with 1000 supply");
+  const [action] = await pendingActions(session);
+  assert.equal(action.tool, "createToken");
+
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "createToken");
+  const receipt = await signAndSend(session, request);
+  assert.ok(receipt.contractAddress, "the transaction deploys a contract");
+  const token = new ethers.Contract(receipt.contractAddress, ERC20_ABI, wallet.provider);
+  assert.equal(await token.symbol(), "TST");
+  assert.equal(await token.balanceOf(wallet.address), ethers.parseUnits("1000", 18));
+});
+
+test("createToken deploys from a template with its parameters", async (t) => {
+  const session = await startSession(t, [
+    [toolCall("createToken", { name: "Capped", symbol: "CAP", totalSupply: "100", template: "capped", params: { cap: "500" } })],
+    "Deployed.",
+  ]);
+  if (!session) return;
+  const { tools, wallet } = session;
+
+  await ask(session, "create a capped token CAP");
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.token?.template, "capped");
+  const receipt = await signAndSend(session, request);
+  const token = new ethers.Contract(receipt.contractAddress!, TOKEN_TEMPLATES.capped.artifact.abi, wallet.provider);
+  assert.equal(await token.cap(), ethers.parseUnits("500", 18));
+  assert.equal(await token.owner(), wallet.address);
+});
+
+test("createToken in simulation mode reports the deployment without sending it", async (t) => {
+  const session = await startSession(t, [
+    [toolCall("createToken", { name: "Dry Token", symbol: "DRY", totalSupply: "1000" })],
+    "The deployment would succeed.",
+  ]);
+  if (!session) return;
+  const { tools, model } = session;
+  tools.setSimulationMode(true);
+
+  await ask(session, "create a token DRY");
+  assert.deepEqual(await pendingActions(session), [], "simulation mode needs no confirmation");
+  assert.deepEqual(tools.takeQueuedRequests(), []);
+  assert.match(toolResult(model), /would succeed/);
+  assert.match(lastContent(model.prompts[1].slice(0, 1)), /Simulation mode is on/);
+});
+
+test("importToken adds an existing token to the wallet's list", async (t) => {
+  const session = await startSession(t, []);
+  if (!session) return;
+  const { tools, wallet, model } = session;
+  const address = await (await deployToken(wallet, "IMP")).getAddress();
+  model.replies.push([toolCall("importToken", { address })], "Imported.");
+
+  await ask(session, `import ${address}`);
+  assert.match(toolResult(model), /^Imported IMP Token \(IMP, 18 decimals\)/);
+  assert.equal(tools.findToken("imp")?.address, address);
+});
+
+test("getFaucetTokens explains that devnode accounts are prefunded", async (t) => {
+  const address = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("getFaucetTokens", { address })], "No faucet needed."]);
+  if (!session) return;
+
+  await ask(session, "give me testnet ETH");
+  assert.equal(toolResult(session.model), "Local devnode has no faucet; its development accounts come prefunded with ETH.");
+});
+
+test("batchMixedTransfer sends ETH and token legs once the user confirms", async (t) => {
+  const [ethRecipient, tokenRecipient] = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address];
+  const transfers = `ETH ${ethRecipient} 0.02 TOKEN ${tokenRecipient} 15 BAT`;
+  const session = await startSession(t, [[toolCall("batchMixedTransfer", { transfers })], "Batch prepared."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+  const token = await addToken(session, "BAT");
+
+  await ask(session, `batch ${transfers}`);
+  const [action] = await pendingActions(session);
+  assert.equal(action.summary, "Batch of 2 transfers");
+  assert.equal(action.amount, "0.02 ETH, 15 BAT");
+
+  await answer(session, true);
+  const requests = tools.takeQueuedRequests();
+  assert.deepEqual(
+    requests.map((request) => request.kind),
+    ["batchMixedTransfer", "batchMixedTransfer"]
+  );
+  for (const request of requests) await signAndSend(session, request);
+  assert.equal(await wallet.provider!.getBalance(ethRecipient), ethers.parseEther("0.02"));
+  assert.equal(await token.balanceOf(tokenRecipient), ethers.parseUnits("15", 18));
+});
+
+test("batchMixedTransfer reads transfers separated by newlines and repeated spaces", async (t) => {
+  const [first, second] = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address];
+  const transfers = ` ETH ${first}  0.01\nTOKEN\t${second} 5 WSP \n`;
+  const session = await startSession(t, [[toolCall("batchMixedTransfer", { transfers })], "Batch prepared."]);
+  if (!session) return;
+  await addToken(session, "WSP");
+
+  await ask(session, "batch these transfers");
+  const [action] = await pendingActions(session);
+  assert.equal(action.summary, "Batch of 2 transfers");
+  assert.equal(action.amount, "0.01 ETH, 5 WSP");
+});
+
+test("batchMixedTransfer legs get their own nonces, whatever order the wallet signs them in", async (t) => {
+  const recipients = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address];
+  const transfers = `ETH ${recipients[0]} 0.01 ETH ${recipients[1]} 0.02`;
+  const session = await startSession(t, [[toolCall("batchMixedTransfer", { transfers })], "Batch prepared."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+
+  await ask(session, `batch ${transfers}`);
+  await answer(session, true);
+  const [first, second] = tools.takeQueuedRequests();
+  const pending = await wallet.provider!.getTransactionCount(wallet.address, "pending");
+  assert.deepEqual([await tools.reserveNonce(first.id), await tools.reserveNonce(second.id)], [pending, pending + 1]);
+
+  // A node that mines every transaction right away refuses one whose nonce comes after a gap
+  const mine = await pauseMining(t, session);
+  if (!mine) return;
+  const sent = [await broadcast(session, second), await broadcast(session, first)];
+  await mine();
+  for (const response of sent) assert.equal((await response.wait())?.status, 1);
+  assert.equal(await wallet.provider!.getBalance(recipients[1]), ethers.parseEther("0.02"));
+});
+
+test("batchMixedTransfer in atomic mode sends every leg in one transaction through the batch contract", async (t) => {
+  const [ethRecipient, tokenRecipient] = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address];
+  const transfers = `ETH ${ethRecipient} 0.03 TOKEN ${tokenRecipient} 7 ATM`;
+  const batch = (id: string) => [toolCall("batchMixedTransfer", { transfers, mode: "atomic" }, id)];
+  const session = await startSession(t, [batch("call_deploy"), "Deploy the batch contract first.", batch("call_batch"), "Sent."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+  const token = await addToken(session, "ATM");
+
+  // The first atomic batch on a network only deploys the batch contract
+  await ask(session, `atomically batch ${transfers}`);
+  const [deployAction] = await pendingActions(session);
+  assert.match(deployAction.summary, /^Deploy the batch contract/);
+  await answer(session, true);
+  const [deployment] = tools.takeQueuedRequests();
+  assert.equal(deployment.kind, "deployDisperse");
+  const receipt = await signAndSend(session, deployment);
+  tools.registerDeployment("AverixDisperse", receipt.contractAddress!);
+
+  await ask(session, "now send the batch");
+  const [action] = await pendingActions(session);
+  assert.equal(action.summary, "Atomic batch of 2 transfers in one transaction + 1 approval(s)");
+  assert.match(action.comparison!, / vs sequential: 2 transactions, /);
+  await answer(session, true);
+  const requests = tools.takeQueuedRequests();
+  assert.deepEqual(
+    requests.map((request) => request.kind),
+    ["approveToken", "batchMixedTransfer"]
+  );
+  for (const request of requests) await signAndSend(session, request);
+  assert.equal(await wallet.provider!.getBalance(ethRecipient), ethers.parseEther("0.03"));
+  assert.equal(await token.balanceOf(tokenRecipient), ethers.parseUnits("7", 18));
+});
+
+test("runAirdrop sends the next chunk of an imported airdrop once confirmed", async (t) => {
+  const recipients = [1, 2, 3].map(() => ethers.Wallet.createRandom().address);
+  const session = await startSession(t, []);
+  if (!session) return;
+  const { tools, wallet, model } = session;
+  const token = await addToken(session, "DRP");
+  const csv = `type,to,amount,token\nETH,${recipients[0]},0.01\nTOKEN,${recipients[1]},3,DRP\nETH,${recipients[2]},0.02`;
+  const airdrop = importAirdrop(tools, csv, "csv", "drop.csv");
+  model.replies.push([toolCall("runAirdrop", { airdrop: airdrop.id, chunkSize: 2 })], "First chunk prepared.");
+
+  await ask(session, `run airdrop ${airdrop.id}`);
+  const [action] = await pendingActions(session);
+  assert.equal(action.summary, "Airdrop drop.csv: send 2 transfers (rows 2-3), one wallet signature each");
+  await answer(session, true);
+  assert.match(toolResult(model), /1 rows remain after this chunk/);
+  const requests = tools.takeQueuedRequests();
+  assert.deepEqual(
+    requests.map((request) => request.airdrop?.row),
+    [2, 3]
+  );
+  for (const request of requests) await signAndSend(session, request);
+  assert.equal(await wallet.provider!.getBalance(recipients[0]), ethers.parseEther("0.01"));
+  assert.equal(await token.balanceOf(recipients[1]), ethers.parseUnits("3", 18));
+  assert.deepEqual(
+    tools.findAirdrop(airdrop.id)!.rows.map((row) => row.status),
+    ["queued", "queued", "pending"]
+  );
+});
+
+test("runAirdrop waits for rows another tab still has open and reconciles abandoned ones only when it runs", async (t) => {
+  const recipients = [1, 2].map(() => ethers.Wallet.createRandom().address);
+  const session = await startSession(t, []);
+  if (!session) return;
+  const { tools, model, registry, wallet, network } = session;
+  const airdrop = importAirdrop(tools, `type,to,amount\nETH,${recipients[0]},0.01\nETH,${recipients[1]},0.02`, "csv", "tabs.csv");
+  const run = (id: string, simulate?: boolean) => [toolCall("runAirdrop", { airdrop: airdrop.id, chunkSize: 1, simulate }, id)];
+  const statuses = () => registry.findAirdrop(wallet.address, network.chainId, airdrop.id)!.rows.map((row) => row.status);
+  model.replies.push(run("first"), "First chunk prepared.");
+  await ask(session, `run airdrop ${airdrop.id}`);
+  await answer(session, true);
+  assert.deepEqual(statuses(), ["queued", "pending"]);
+
+  const tab = openTab(session, [run("busy"), "Cancelled."]);
+  await ask(tab, `run airdrop ${airdrop.id}`);
+  const [busy] = await pendingActions(tab);
+  assert.equal(busy.summary, "Sign or reject the 1 wallet requests of the current chunk first.");
+  await answer(tab, false);
+
+  // The first tab is closed before its wallet reported back
+  tools.clearAccount();
+  tab.model.replies.push(run("dry", true), "Dry run done.", run("second"), "Second chunk prepared.");
+  await ask(tab, "dry run the next chunk");
+  assert.match(lastContent(tab.model.prompts[tab.model.prompts.length - 1]), /Airdrop row 3: .*: would succeed/);
+  assert.deepEqual(statuses(), ["queued", "pending"], "a dry run leaves the rows as they are");
+
+  await ask(tab, "send the next chunk");
+  const [action] = await pendingActions(tab);
+  assert.equal(action.summary, "Airdrop tabs.csv: send 1 transfer (row 3), one wallet signature each");
+  assert.deepEqual(statuses(), ["queued", "pending"], "a preview leaves the rows as they are");
+  await answer(tab, true);
+  assert.deepEqual(statuses(), ["unknown", "queued"]);
+});
+
+test("approveToken lets a spender use the user's tokens once confirmed", async (t) => {
+  const spender = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("approveToken", { token: "APR", spender, amount: "40" })], "Approved."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+  const token = await addToken(session, "APR");
+
+  await ask(session, `let ${spender} spend 40 APR`);
+  const [action] = await pendingActions(session);
+  assert.equal(action.summary, `Approve ${spender} to spend 40 APR`);
+
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "approveToken");
+  await signAndSend(session, request);
+  assert.equal(await token.allowance(wallet.address, spender), ethers.parseUnits("40", 18));
+});
+
+test("revokeAllowance sets a spender's allowance to zero", async (t) => {
+  const spender = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("revokeAllowance", { token: "RVK", spender })], "Revoked."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+  const token = await addToken(session, "RVK");
+  await (await token.approve(spender, ethers.MaxUint256)).wait();
+
+  await ask(session, `revoke ${spender} on RVK`);
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "revokeAllowance");
+  await signAndSend(session, request);
+  assert.equal(await token.allowance(wallet.address, spender), 0n);
+});
+
+test("getAllowance reads what a spender may still transfer", async (t) => {
+  const spender = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("getAllowance", { token: "ALW", spender })], "That is the allowance."]);
+  if (!session) return;
+  const token = await addToken(session, "ALW");
+  await (await token.approve(spender, ethers.parseUnits("12.5", 18))).wait();
+
+  await ask(session, `how much ALW may ${spender} spend?`);
+  assert.equal(toolResult(session.model), `${spender} may spend 12.5 ALW on behalf of ${session.wallet.address}`);
+});
+
+test("getAllowances lists the spenders still approved on the user's tokens", async (t) => {
+  const [kept, revoked] = [ethers.Wallet.createRandom().address, ethers.Wallet.createRandom().address];
+  const session = await startSession(t, [[toolCall("getAllowances", {})], "These are your allowances."]);
+  if (!session) return;
+  const token = await addToken(session, "ALS");
+  await (await token.approve(kept, ethers.MaxUint256)).wait();
+  await (await token.approve(revoked, 1n)).wait();
+  await (await token.approve(revoked, 0n)).wait();
+
+  await ask(session, "who can spend my tokens?");
+  const result = toolResult(session.model);
+  assert.match(result, new RegExp(`^Active allowances:\nALS: ${kept} may spend unlimited ALS\n`));
+  assert.doesNotMatch(result, new RegExp(revoked));
+});
+
+test("transferFromToken moves tokens another holder approved", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, []);
+  if (!session) return;
+  const { tools, wallet, model } = session;
+  const token = await addToken(session, "TFR");
+  const holder = await fundedWallet(session);
+  await (await token.transfer(holder.address, ethers.parseUnits("30", 18))).wait();
+  await (await (token.connect(holder) as ethers.Contract).approve(wallet.address, ethers.parseUnits("20", 18))).wait();
+  model.replies.push(
+    [toolCall("transferFromToken", { token: "TFR", from: holder.address, to: recipient, amount: "20" })],
+    "Transferred."
+  );
+
+  await ask(session, `move 20 TFR from ${holder.address} to ${recipient}`);
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "transferFromToken");
+  await signAndSend(session, request);
+  assert.equal(await token.balanceOf(recipient), ethers.parseUnits("20", 18));
+  assert.equal(await token.allowance(holder.address, wallet.address), 0n);
+});
+
+test("burnToken destroys some of the user's tokens once confirmed", async (t) => {
+  const session = await startSession(t, [[toolCall("burnToken", { token: "BRN", amount: "25" })], "Burned."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+  const token = await addToken(session, "BRN", "100");
+
+  await ask(session, "burn 25 BRN");
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "burnToken");
+  await signAndSend(session, request);
+  assert.equal(await token.balanceOf(wallet.address), ethers.parseUnits("75", 18));
+});
+
+test("burnToken explains in plain words why a burn would fail", async (t) => {
+  const session = await startSession(t, [[toolCall("burnToken", { token: "OVR", amount: "500" })], "Not enough."]);
+  if (!session) return;
+  await addToken(session, "OVR", "100");
+
+  await ask(session, "burn 500 OVR");
+  const [action] = await pendingActions(session);
+  assert.match(
+    action.summary,
+    /\(expected to fail: The account holds fewer tokens than it tried to burn \(Insufficient balance to burn\)\. Check the balance with getBalance/
+  );
+});
+
+test("getTokenSupply reports how much of a token was burned", async (t) => {
+  const session = await startSession(t, [[toolCall("getTokenSupply", { token: "SUP" })], "That is the supply."]);
+  if (!session) return;
+  const token = await addToken(session, "SUP", "200");
+  await (await token.burn(ethers.parseUnits("50", 18))).wait();
+
+  await ask(session, "how much SUP was burned?");
+  assert.equal(
+    toolResult(session.model),
+    "SUP: supply when imported 200.0 SUP, current supply 150.0 SUP, burned 50.0 SUP (25.00%)"
+  );
+});
+
+test("verifyToken submits the source of a token Averix deployed", async (t) => {
+  const session = await startSession(t, [[toolCall("verifyToken", { token: "VER" })], "Submitted."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+  const { abi, bytecode } = TOKEN_TEMPLATES.mintable.artifact;
+  const deployment = await new ethers.ContractFactory(abi, bytecode, wallet).deploy("Verified", "VER", 18, 100n);
+  await deployment.waitForDeployment();
+  const address = await deployment.getAddress();
+  await tools.registerToken(wallet.address, address, { template: "mintable", deployTx: deployment.deploymentTransaction()!.hash });
+  // An explorer that already knows the source, so no status polling is needed
+  const submitted: VerificationRequest[] = [];
+  tools.setVerificationClient({
+    submit: async (request) => {
+      submitted.push(request);
+      throw new Error("Contract source code already verified");
+    },
+    checkStatus: async () => assert.fail("no status check after an immediate answer"),
+  });
+
+  await ask(session, "verify VER");
+  assert.equal(toolResult(session.model), "Submitted VER for source verification. Ask again in a minute to see the result.");
+  while (tools.isVerifying(address)) await new Promise((resolve) => setTimeout(resolve, 10));
+  assert.equal(submitted[0].address, address);
+  assert.match(submitted[0].contractName, /:AverixMintableToken$/);
+  assert.equal(tools.findToken("VER")?.verification?.state, "verified");
+});
+
+test("getTokenTemplates lists the templates and their parameters", async (t) => {
+  const session = await startSession(t, [[toolCall("getTokenTemplates", {})], "These are the templates."]);
+  if (!session) return;
+
+  await ask(session, "which token templates are there?");
+  const [heading, ...rows] = toolResult(session.model).split("\n");
+  assert.equal(heading, "Token templates:");
+  assert.deepEqual(
+    rows.map((row) => row.split(" - ")[0]),
+    ["fixed", "mintable", "capped", "pausable", "tax"]
+  );
+  assert.match(rows[2], /Parameters: cap \(required\)/);
+});
+
+test("mintToken mints more of a mintable token once confirmed", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("mintToken", { token: "MNT", amount: "50", to: recipient })], "Minted."]);
+  if (!session) return;
+  const { tools } = session;
+  const token = await addToken(session, "MNT", "100", "mintable");
+
+  await ask(session, `mint 50 MNT to ${recipient}`);
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "mintToken");
+  await signAndSend(session, request);
+  assert.equal(await token.balanceOf(recipient), ethers.parseUnits("50", 18));
+  assert.equal(await token.totalSupply(), ethers.parseUnits("150", 18));
+});
+
+test("pauseToken stops transfers of a pausable token once confirmed", async (t) => {
+  const session = await startSession(t, [[toolCall("pauseToken", { token: "PAU" })], "Paused."]);
+  if (!session) return;
+  const { tools } = session;
+  const token = await addToken(session, "PAU", "100", "pausable");
+
+  await ask(session, "pause PAU");
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "pauseToken");
+  await signAndSend(session, request);
+  assert.equal(await token.paused(), true);
+});
+
+test("transferOwnership hands a template token to a new owner once confirmed", async (t) => {
+  const newOwner = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("transferOwnership", { token: "OWN", newOwner })], "Transferred."]);
+  if (!session) return;
+  const { tools } = session;
+  const token = await addToken(session, "OWN", "100", "mintable");
+
+  await ask(session, `make ${newOwner} the owner of OWN`);
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "transferOwnership");
+  await signAndSend(session, request);
+  assert.equal(await token.owner(), newOwner);
+});
+
+test("createNftCollection deploys a collection owned by the user", async (t) => {
+  const session = await startSession(t, [
+    [toolCall("createNftCollection", { name: "Averix Art", symbol: "AART", baseUri: "ipfs://art/", maxSupply: 10 })],
+    "Deployed.",
+  ]);
+  if (!session) return;
+  const { tools, wallet } = session;
+
+  await ask(session, "create an NFT collection AART");
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "createNftCollection");
+  const receipt = await signAndSend(session, request);
+  const collection = new ethers.Contract(receipt.contractAddress!, AverixNft.abi, wallet.provider);
+  assert.equal(await collection.symbol(), "AART");
+  assert.equal(await collection.maxSupply(), 10n);
+  assert.equal(await collection.owner(), wallet.address);
+});
+
+test("mintNft mints the next NFT of a collection once confirmed", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("mintNft", { collection: "MNFT", to: recipient })], "Minted."]);
+  if (!session) return;
+  const { tools, model } = session;
+  const collection = await addCollection(session, "MNFT");
+
+  await ask(session, `mint an MNFT to ${recipient}`);
+  await answer(session, true);
+  assert.match(toolResult(model), /^Prepared a mint of MNFT NFT #1 /);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "mintNft");
+  await signAndSend(session, request);
+  assert.equal(await collection.ownerOf(1n), recipient);
+});
+
+test("transferNft sends one of the user's NFTs once confirmed", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [[toolCall("transferNft", { collection: "TNFT", tokenId: "#1", to: recipient })], "Sent."]);
+  if (!session) return;
+  const { tools, wallet } = session;
+  const collection = await addCollection(session, "TNFT");
+  await (await collection.mint(wallet.address)).wait();
+
+  await ask(session, `send TNFT #1 to ${recipient}`);
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "transferNft");
+  await signAndSend(session, request);
+  assert.equal(await collection.ownerOf(1n), recipient);
+});
+
+test("getNfts lists the NFTs the wallet holds with their URIs", async (t) => {
+  const session = await startSession(t, [[toolCall("getNfts", { collection: "GNFT" })], "These are your NFTs."]);
+  if (!session) return;
+  const { wallet } = session;
+  const collection = await addCollection(session, "GNFT", "ipfs://gnft/", 5);
+  await (await collection.mint(wallet.address)).wait();
+  await (await collection.mint(wallet.address)).wait();
+
+  await ask(session, "which GNFT do I hold?");
+  assert.equal(
+    toolResult(session.model),
+    `GNFT Collection (GNFT) at ${await collection.getAddress()}, 2/5 minted\n  #1 - ipfs://gnft/1\n  #2 - ipfs://gnft/2`
+  );
+});
+
+test("registerContract stores a contract with a human-readable ABI", async (t) => {
+  const session = await startSession(t, []);
+  if (!session) return;
+  const { tools, wallet, model } = session;
+  const address = await (await deployToken(wallet, "REG")).getAddress();
+  const abi = "function totalSupply() view returns (uint256); function transfer(address to, uint256 value) returns (bool)";
+  model.replies.push([toolCall("registerContract", { name: "reg", address, abi })], "Registered.");
+
+  await ask(session, `register ${address} as reg`);
+  const [heading, ...functions] = toolResult(model).split("\n");
+  assert.equal(heading, `Registered reg at ${address}. Functions:`);
+  assert.equal(functions.length, 2);
+  assert.equal(tools.findContract("reg")?.address, address);
+});
+
+test("readContract calls a view function of a registered contract", async (t) => {
+  const session = await startSession(t, []);
+  if (!session) return;
+  const { tools, wallet, model } = session;
+  const address = await (await deployToken(wallet, "RD", "42")).getAddress();
+  await tools.registerContract("rd", address, new ethers.Interface(ERC20_ABI));
+  model.replies.push([toolCall("readContract", { contract: "rd", function: "balanceOf", args: [wallet.address] })], "Read.");
+
+  await ask(session, "what does rd.balanceOf say for me?");
+  assert.match(toolResult(model), new RegExp(`^rd.balanceOf returned:\n.*${ethers.parseUnits("42", 18)}`));
+});
+
+test("writeContract sends a state-changing call once confirmed", async (t) => {
+  const recipient = ethers.Wallet.createRandom().address;
+  const session = await startSession(t, [
+    [toolCall("writeContract", { contract: "wr", function: "transfer", args: [recipient, "5000"] })],
+    "Called.",
+  ]);
+  if (!session) return;
+  const { tools, wallet } = session;
+  const token = await deployToken(wallet, "WR");
+  await tools.registerContract("wr", await token.getAddress(), new ethers.Interface(ERC20_ABI));
+
+  await ask(session, `call wr.transfer(${recipient}, 5000)`);
+  const [action] = await pendingActions(session);
+  assert.equal(action.summary, `Call wr.transfer(${recipient}, 5000)`);
+  await answer(session, true);
+  const [request] = tools.takeQueuedRequests();
+  assert.equal(request.kind, "writeContract");
+  await signAndSend(session, request);
+  assert.equal(await token.balanceOf(recipient), 5000n);
+});
+
+test("help lists the commands", async (t) => {
+  const session = await startSession(t, [[toolCall("help", {})], "These are the commands."]);
+  if (!session) return;
+
+  await ask(session, "help");
+  assert.match(toolResult(session.model), /^Available commands:\n/);
+  assert.match(toolResult(session.model), /\nbatchMixedTransfer /);
+});
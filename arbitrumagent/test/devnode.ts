@@ -0,0 +1,31 @@
+import { ethers } from "ethers";
+import { NETWORKS, NetworkConfig } from "../src/networks";
+
+// Chain the on-chain tests run against: anvil on its default port, or a Nitro devnode / hardhat node via TEST_RPC_URL
+export const TEST_RPC_URL = process.env.TEST_RPC_URL || "http://127.0.0.1:8545";
+// Prefunded account #0 of anvil and hardhat; set TEST_PRIVATE_KEY to the Nitro devnode's dev account
+export const TEST_PRIVATE_KEY =
+  process.env.TEST_PRIVATE_KEY || "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+// The devnode as a network, or undefined when nothing answers at TEST_RPC_URL (the tests are then skipped)
+export async function findDevnode(): Promise<NetworkConfig | undefined> {
+  try {
+    const response = await fetch(TEST_RPC_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "eth_chainId", params: [] }),
+      signal: AbortSignal.timeout(2000),
+    });
+    const { result } = (await response.json()) as { result: string };
+    return { ...NETWORKS.local, rpcUrl: TEST_RPC_URL, chainId: Number(result) };
+  } catch {
+    return undefined;
+  }
+}
+
+// The dev account, standing in for the user's browser wallet
+export const devWallet = (network: NetworkConfig) =>
+  new ethers.Wallet(
+    TEST_PRIVATE_KEY,
+    new ethers.JsonRpcProvider(network.rpcUrl, network.chainId, { staticNetwork: true, cacheTimeout: -1 })
+  );
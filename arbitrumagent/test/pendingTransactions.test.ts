@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { beforeEach, test } from "node:test";
+import { ethers } from "ethers";
+import { SigningRequest } from "../src/blockchainTools";
+import { PendingTransactionTracker } from "../src/pendingTransactions";
+
+const owner = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+const hashes = { original: ethers.id("original"), speedUp: ethers.id("speed-up") };
+
+// Node state the fake provider answers from: receipts by hash, each handed out only after `after` earlier lookups of
+// it, and the account's mined nonce count
+const chain = {
+  minedNonces: 0,
+  receipts: new Map<string, { status: number; after: number }>(),
+  lookups: new Map<string, number>(),
+};
+
+const provider = {
+  getTransaction: async (hash: string) => ({ hash, nonce: 0, maxFeePerGas: 10n, maxPriorityFeePerGas: 1n }),
+  getTransactionCount: async () => chain.minedNonces,
+  getTransactionReceipt: async (hash: string) => {
+    const lookups = chain.lookups.get(hash) ?? 0;
+    chain.lookups.set(hash, lookups + 1);
+    const receipt = chain.receipts.get(hash);
+    if (!receipt || lookups < receipt.after) return null;
+    return { status: receipt.status, blockNumber: 7, blockHash: ethers.id("block 7"), confirmations: async () => 1 };
+  },
+} as unknown as ethers.Provider;
+
+const request = (id: string, replaces?: SigningRequest["replaces"]): SigningRequest => ({
+  id,
+  kind: "transferTokens",
+  description: "Transfer 1 ETH",
+  transaction: { from: owner, chainId: 31337 },
+  replaces,
+});
+
+beforeEach(() => {
+  chain.minedNonces = 0;
+  chain.receipts.clear();
+  chain.lookups.clear();
+});
+
+test("settles a transaction mined between the receipt lookup and the nonce count as confirmed", async () => {
+  const tracker = new PendingTransactionTracker();
+  const entry = await tracker.track(provider, request("r1"), hashes.original);
+  chain.minedNonces = 1;
+  chain.receipts.set(hashes.original, { status: 1, after: 1 });
+
+  await tracker.refresh(provider, entry);
+  assert.equal(entry.status, "confirmed");
+  assert.equal(entry.blockNumber, 7);
+  assert.equal(entry.replacedBy, undefined);
+});
+
+test("settles a transaction as replaced by the tracked transaction mined with its nonce", async () => {
+  const tracker = new PendingTransactionTracker();
+  const entry = await tracker.track(provider, request("r1"), hashes.original);
+  await tracker.track(provider, request("r2", { hash: hashes.original, action: "speedUp" }), hashes.speedUp);
+  chain.minedNonces = 1;
+  chain.receipts.set(hashes.speedUp, { status: 1, after: 0 });
+
+  await tracker.refresh(provider, entry);
+  assert.equal(entry.status, "replaced");
+  assert.equal(entry.replacedBy, hashes.speedUp);
+});
+
+test("settles a transaction as replaced when its nonce is used and it still has no receipt", async () => {
+  const tracker = new PendingTransactionTracker();
+  const entry = await tracker.track(provider, request("r1"), hashes.original);
+  chain.minedNonces = 1;
+
+  await tracker.refresh(provider, entry);
+  assert.equal(entry.status, "replaced");
+  assert.equal(entry.replacedBy, undefined, "sent outside Averix");
+  assert.equal(chain.lookups.get(hashes.original), 2, "its own receipt is looked up again before it is settled");
+});
@@ -0,0 +1,43 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { ToolCall } from "@langchain/core/messages/tool";
+import { ChatResult } from "@langchain/core/outputs";
+
+// A tool call the scripted model makes; the id ties the tool's result back to it
+export const toolCall = (name: string, args: Record<string, unknown>, id = `call_${name}`): ToolCall => ({
+  id,
+  name,
+  args,
+  type: "tool_call",
+});
+
+// Chat model for tests: every call is answered with the next scripted reply, either text or tool calls, whatever the
+// prompt says. The prompts it received are kept so tests can check what the agent sent back, and replies can be added
+// once a test knows them (e.g. the address of a contract it deployed).
+export class ScriptedChatModel extends BaseChatModel {
+  readonly prompts: BaseMessage[][] = [];
+  readonly replies: (string | ToolCall[])[];
+
+  constructor(replies: (string | ToolCall[])[]) {
+    super({});
+    this.replies = [...replies];
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  // The script already names the tools it calls
+  bindTools(): this {
+    return this;
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    this.prompts.push(messages);
+    const reply = this.replies.shift();
+    if (reply === undefined) throw new Error(`The script has no reply left for model call ${this.prompts.length}`);
+    const message =
+      typeof reply === "string" ? new AIMessage(reply) : new AIMessage({ content: "", tool_calls: reply });
+    return { generations: [{ text: typeof reply === "string" ? reply : "", message }] };
+  }
+}
@@ -0,0 +1,131 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, beforeEach, test } from "node:test";
+import { ethers } from "ethers";
+import artifact from "../contracts/AverixToken.json";
+import {
+  buildVerificationRequest,
+  ContractArtifact,
+  EtherscanVerificationClient,
+  VerificationRequest,
+  verifyContract,
+} from "../src/verification";
+
+type Reply = { status: string; message: string; result: string };
+
+// Etherscan-compatible API answering with scripted replies: verifysourcecode POSTs and checkverifystatus GETs each
+// take the next one from their queue
+const explorer = {
+  submissions: [] as URLSearchParams[],
+  statusChecks: [] as URLSearchParams[],
+  submitReplies: [] as Reply[],
+  statusReplies: [] as Reply[],
+};
+let server: http.Server;
+let apiUrl: string;
+
+before(async () => {
+  server = http.createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const isSubmit = req.method === "POST";
+      const params = isSubmit ? new URLSearchParams(body) : new URL(req.url!, "http://explorer").searchParams;
+      (isSubmit ? explorer.submissions : explorer.statusChecks).push(params);
+      const reply = (isSubmit ? explorer.submitReplies : explorer.statusReplies).shift();
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify(reply ?? { status: "0", message: "NOTOK", result: "No scripted reply" }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api`;
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  explorer.submissions = [];
+  explorer.statusChecks = [];
+  explorer.submitReplies = [];
+  explorer.statusReplies = [];
+});
+
+const address = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const constructorArgs = ethers.AbiCoder.defaultAbiCoder().encode(
+  ["string", "string", "uint8", "uint256"],
+  ["Test Token", "TST", 18, ethers.parseUnits("1000", 18)]
+);
+const request: VerificationRequest = buildVerificationRequest(
+  artifact as ContractArtifact,
+  address,
+  ethers.concat([artifact.bytecode, constructorArgs])
+);
+const poll = { intervalMs: 1, maxAttempts: 5 };
+
+test("builds the request from the artifact and the deploy data", () => {
+  assert.equal(request.contractName, `${artifact.sourceFile}:${artifact.contractName}`);
+  assert.equal(request.compilerVersion, artifact.compilerVersion);
+  assert.equal(`0x${request.constructorArguments}`, constructorArgs);
+  assert.deepEqual(Object.keys(JSON.parse(request.sourceCode).sources), Object.keys(artifact.sources));
+  assert.throws(() => buildVerificationRequest(artifact as ContractArtifact, address, "0x6080"), /does not match/);
+});
+
+test("submits the sources and polls until the explorer reports a pass", async () => {
+  explorer.submitReplies.push({ status: "1", message: "OK", result: "guid-1" });
+  explorer.statusReplies.push(
+    { status: "0", message: "NOTOK", result: "Pending in queue" },
+    { status: "0", message: "NOTOK", result: "Pending in queue" },
+    { status: "1", message: "OK", result: "Pass - Verified" }
+  );
+
+  const status = await verifyContract(new EtherscanVerificationClient(apiUrl, "test-key"), request, poll);
+  assert.deepEqual(status, { state: "verified", message: "Pass - Verified" });
+
+  const [form] = explorer.submissions;
+  assert.equal(form.get("action"), "verifysourcecode");
+  assert.equal(form.get("codeformat"), "solidity-standard-json-input");
+  assert.equal(form.get("contractaddress"), address);
+  assert.equal(form.get("constructorArguements"), request.constructorArguments);
+  assert.equal(form.get("apikey"), "test-key");
+  assert.equal(explorer.statusChecks.length, 3);
+  assert.ok(explorer.statusChecks.every((params) => params.get("guid") === "guid-1"));
+});
+
+test("reports the explorer's reason when verification fails", async () => {
+  explorer.submitReplies.push({ status: "1", message: "OK", result: "guid-2" });
+  explorer.statusReplies.push(
+    { status: "0", message: "NOTOK", result: "Pending in queue" },
+    { status: "0", message: "NOTOK", result: "Fail - Unable to verify. Compiled contract deployment bytecode does NOT match" }
+  );
+
+  const status = await verifyContract(new EtherscanVerificationClient(apiUrl, ""), request, poll);
+  assert.equal(status.state, "failed");
+  assert.match(status.message, /Unable to verify/);
+  assert.equal(explorer.submissions[0].get("apikey"), null, "no key is sent when none is configured");
+});
+
+test("treats a contract the explorer already verified as verified", async () => {
+  explorer.submitReplies.push({ status: "0", message: "NOTOK", result: "Contract source code already verified" });
+
+  const status = await verifyContract(new EtherscanVerificationClient(apiUrl, ""), request, poll);
+  assert.deepEqual(status, { state: "verified", message: "Contract source code already verified" });
+  assert.equal(explorer.statusChecks.length, 0);
+});
+
+test("treats an already verified status check as verified", async () => {
+  explorer.submitReplies.push({ status: "1", message: "OK", result: "guid-3" });
+  explorer.statusReplies.push({ status: "0", message: "NOTOK", result: "Already Verified" });
+
+  const status = await verifyContract(new EtherscanVerificationClient(apiUrl, ""), request, poll);
+  assert.deepEqual(status, { state: "verified", message: "Already Verified" });
+});
+
+test("gives up as pending when the explorer never answers with a result", async () => {
+  explorer.submitReplies.push({ status: "1", message: "OK", result: "guid-4" });
+  explorer.statusReplies.push(...Array.from({ length: 5 }, () => ({ status: "0", message: "NOTOK", result: "Pending in queue" })));
+
+  const status = await verifyContract(new EtherscanVerificationClient(apiUrl, ""), request, poll);
+  assert.equal(status.state, "pending");
+  assert.match(status.message, /guid-4/);
+});
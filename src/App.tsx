@@ -5,6 +5,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, useNavigate } from "react-router-dom";
 import { PrivyProvider } from '@privy-io/react-auth';
+import { defineChain } from 'viem';
+import { arbitrum, arbitrumNova, arbitrumSepolia } from 'viem/chains';
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Dashboard from "./pages/Dashboard";
@@ -19,6 +21,15 @@ const queryClient = new QueryClient({
   },
 });
 
+// Nitro devnode, backend ke "local" network se match karta hai
+const localDevnode = defineChain({
+  id: Number(import.meta.env.VITE_LOCAL_CHAIN_ID || 412346),
+  name: 'Local devnode',
+  nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  rpcUrls: { default: { http: [import.meta.env.VITE_LOCAL_RPC_URL || 'http://127.0.0.1:8547'] } },
+  testnet: true,
+});
+
 const App = () => {
   const privyAppId = import.meta.env.VITE_PRIVY_APP_ID;
 
@@ -57,6 +68,9 @@ const App = () => {
           embeddedWallets: {
             createOnLogin: 'all-users',
           },
+          // Agent jis network pe hai, wallet usi chain pe sign karta hai (request ka chainId)
+          defaultChain: arbitrumSepolia,
+          supportedChains: [arbitrumSepolia, arbitrum, arbitrumNova, localDevnode],
         }}
         onSuccess={handleLogin}
       >
@@ -0,0 +1,193 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, Download, Loader2, Upload } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Airdrop, AirdropRow, fetchAirdrop, fetchAirdropReport, importAirdrop } from '@/utils/arbitrumAgent';
+
+// Reload ke baad bhi last airdrop resume ho sake
+const AIRDROP_STORAGE_KEY = 'averix_airdrop_id';
+
+const STATUS_STYLES: Record<AirdropRow['status'], string> = {
+  invalid: 'text-destructive',
+  pending: 'text-muted-foreground',
+  queued: 'text-blue-600',
+  sent: 'text-blue-600',
+  confirmed: 'text-green-600',
+  failed: 'text-destructive',
+  unknown: 'text-amber-600',
+};
+
+interface AirdropPanelProps {
+  walletAddress?: string;
+  // Chunk bhejna bhi chat command hai ("runAirdrop"), taaki confirm card aur wallet flow same rahe
+  onRun: (command: string) => void;
+  // Har agent turn ke baad badalta hai, taaki row status refresh ho
+  refreshKey?: number;
+  disabled?: boolean;
+  className?: string;
+}
+
+const AirdropPanel: React.FC<AirdropPanelProps> = ({ walletAddress, onRun, refreshKey, disabled, className }) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [airdrop, setAirdrop] = useState<Airdrop | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const airdropId = airdrop?.id;
+
+  useEffect(() => {
+    const id = airdropId ?? localStorage.getItem(AIRDROP_STORAGE_KEY);
+    if (!id || !walletAddress) return;
+    fetchAirdrop(id)
+      .then(setAirdrop)
+      .catch(() => {
+        // Airdrop doosre network ya wallet ka hai; purana id bhool jao
+        localStorage.removeItem(AIRDROP_STORAGE_KEY);
+        setAirdrop(null);
+      });
+  }, [airdropId, refreshKey, walletAddress]);
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const imported = await importAirdrop(await file.text(), file.name, walletAddress);
+      localStorage.setItem(AIRDROP_STORAGE_KEY, imported.id);
+      setAirdrop(imported);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const downloadReport = async () => {
+    if (!airdrop) return;
+    try {
+      const url = URL.createObjectURL(await fetchAirdropReport(airdrop.id));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `airdrop-${airdrop.id}-report.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const count = (status: AirdropRow['status']) => airdrop?.rows.filter((row) => row.status === status).length ?? 0;
+  const started = airdrop?.rows.some((row) => row.status !== 'pending' && row.status !== 'invalid');
+
+  return (
+    <div className={cn('mb-2 text-xs', className)}>
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+      >
+        {open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        Airdrop import
+      </button>
+      {open && (
+        <div className="mt-2 space-y-2 rounded-xl border bg-background/60 p-2">
+          <div className="flex items-center gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFile}
+              className="hidden"
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading || disabled}
+              className="flex items-center gap-1 rounded-full border px-2 py-0.5 hover:bg-muted disabled:opacity-70"
+            >
+              {loading ? <Loader2 size={12} className="animate-spin" /> : <Upload size={12} />} Upload CSV or JSON
+            </button>
+            <span className="text-muted-foreground">Columns: type, to, amount, token</span>
+          </div>
+          {error && <div className="text-destructive">{error}</div>}
+          {airdrop && (
+            <>
+              <div className="text-muted-foreground">
+                <span className="font-medium text-foreground">{airdrop.fileName}</span> ({airdrop.id}):{' '}
+                {count('confirmed')} confirmed, {count('pending')} pending, {count('failed')} failed
+                {count('unknown') > 0 && `, ${count('unknown')} unknown`}, {count('invalid')} invalid
+              </div>
+              {airdrop.problems.map((problem) => (
+                <div key={problem} className="text-destructive">
+                  {problem}
+                </div>
+              ))}
+              <div className="max-h-48 overflow-y-auto">
+                <table className="w-full text-left">
+                  <thead className="text-muted-foreground">
+                    <tr>
+                      <th className="pr-2">Row</th>
+                      <th className="pr-2">To</th>
+                      <th className="pr-2">Amount</th>
+                      <th>Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {airdrop.rows.map((row) => (
+                      <tr key={row.row} className="align-top">
+                        <td className="pr-2">{row.row}</td>
+                        <td className="max-w-[8rem] truncate pr-2" title={row.to}>
+                          {row.to}
+                        </td>
+                        <td className="pr-2 whitespace-nowrap">
+                          {row.amount} {row.token ?? 'ETH'}
+                        </td>
+                        <td className={STATUS_STYLES[row.status]} title={row.txHash}>
+                          {row.status}
+                          {row.error && <div className="text-muted-foreground">{row.error}</div>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {count('pending') > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => onRun(`runAirdrop ${airdrop.id}`)}
+                    disabled={disabled || airdrop.problems.length > 0}
+                    className="rounded-full bg-primary px-2 py-0.5 text-primary-foreground hover:bg-primary/90 disabled:opacity-70"
+                  >
+                    {started ? 'Continue airdrop' : 'Start airdrop'}
+                  </button>
+                )}
+                {count('failed') > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => onRun(`runAirdrop ${airdrop.id} and retry the failed rows`)}
+                    disabled={disabled}
+                    className="rounded-full border px-2 py-0.5 hover:bg-muted disabled:opacity-70"
+                  >
+                    Retry failed
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={downloadReport}
+                  className="flex items-center gap-1 rounded-full border px-2 py-0.5 hover:bg-muted"
+                >
+                  <Download size={12} /> Report
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AirdropPanel;
@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Loader2, ShieldOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { AllowanceScan, fetchAllowances, TokenAllowance } from '@/utils/arbitrumAgent';
+
+interface AllowancePanelProps {
+  // Revoke chat mein "revokeAllowance" bhejta hai, confirm card aur wallet signature wahi se aate hain
+  onRevoke: (allowance: TokenAllowance) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const AllowancePanel: React.FC<AllowancePanelProps> = ({ onRevoke, disabled, className }) => {
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [allowances, setAllowances] = useState<TokenAllowance[]>([]);
+  const [scan, setScan] = useState<Omit<AllowanceScan, 'allowances'>>({ partial: false });
+
+  const load = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const { allowances: found, ...rest } = await fetchAllowances();
+      setAllowances(found);
+      setScan(rest);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = () => {
+    if (!open) load();
+    setOpen(!open);
+  };
+
+  return (
+    <div className={cn('mb-2 text-xs', className)}>
+      <button
+        type="button"
+        onClick={toggle}
+        className="flex items-center gap-1 text-muted-foreground hover:text-foreground"
+      >
+        {open ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+        Token allowances
+      </button>
+      {open && (
+        <div className="mt-2 rounded-xl border bg-background/60 p-2">
+          {loading && (
+            <div className="flex items-center gap-1.5 text-muted-foreground">
+              <Loader2 size={14} className="animate-spin" /> Loading allowances...
+            </div>
+          )}
+          {!loading && error && <div className="text-destructive">Could not load allowances: {error}</div>}
+          {!loading && !error && allowances.length === 0 && (
+            <div className="text-muted-foreground">No active allowances on your tokens.</div>
+          )}
+          {!loading && !error && allowances.length > 0 && (
+            <ul className="space-y-1">
+              {allowances.map((allowance) => (
+                <li key={`${allowance.tokenAddress}-${allowance.spender}`} className="flex items-center gap-2">
+                  <span className="font-medium">{allowance.symbol}</span>
+                  <span className="flex-1 truncate text-muted-foreground" title={allowance.spender}>
+                    {allowance.spender}
+                  </span>
+                  <span>{allowance.unlimited ? 'Unlimited' : allowance.amount}</span>
+                  <button
+                    type="button"
+                    onClick={() => onRevoke(allowance)}
+                    disabled={disabled}
+                    className="flex items-center gap-1 rounded-full border px-2 py-0.5 hover:bg-muted disabled:opacity-70"
+                  >
+                    <ShieldOff size={12} /> Revoke
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {!loading && !error && scan.partial && (
+            // Search adhoori rahi, to "koi approval nahi" pe bharosa mat dilao
+            <div className="mt-1 text-muted-foreground">
+              {scan.fromBlock !== undefined
+                ? `Partial list: only approvals since block ${scan.fromBlock} were searched.`
+                : 'Partial list: the explorer returned its maximum number of approvals.'}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AllowancePanel;
@@ -1,6 +1,22 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Send } from 'lucide-react';
-import { sendMessageToAgent } from '@/utils/arbitrumAgent';
+import {
+  sendMessageToAgent,
+  confirmPendingAction,
+  reportSigningResult,
+  AgentEvent,
+  AgentNetwork,
+  AgentResponse,
+  PendingAction,
+  SigningRequest,
+  SigningResult,
+  TokenAllowance,
+} from '@/utils/arbitrumAgent';
+import AirdropPanel from './AirdropPanel';
+import AllowancePanel from './AllowancePanel';
+import HeldRequestsNotice from './HeldRequestsNotice';
+import PendingActionCard from './PendingActionCard';
+import ToolStepList, { ToolStep } from './ToolStepList';
 import { toast } from '@/hooks/use-toast';
 import ReactMarkdown from 'react-markdown'; // For Markdown rendering
 import remarkGfm from 'remark-gfm'; // For GitHub-flavored Markdown (links, tables, etc.)
@@ -8,22 +24,72 @@ import rehypeRaw from 'rehype-raw'; // To allow raw HTML in Markdown (if needed)
 
 // Interface for messages
 interface Message {
+  id?: string;
   role: 'user' | 'agent';
   content: string;
   timestamp: string;
+  pendingActions?: PendingAction[];
+  resolved?: boolean;
+  steps?: ToolStep[];
+  streaming?: boolean;
 }
 
-const ChatInterface: React.FC = () => {
+// Stream ke har event se live agent message update karo
+const applyAgentEvent = (message: Message, event: AgentEvent): Message => {
+  const steps = message.steps ?? [];
+  switch (event.type) {
+    case 'token':
+      return { ...message, content: message.content + event.content };
+    case 'tool_start':
+      return { ...message, steps: [...steps, { id: event.id, label: event.name, status: 'running' }] };
+    case 'tool_end':
+      return {
+        ...message,
+        steps: steps.map((step) => (step.id === event.id ? { ...step, status: 'done' } : step)),
+      };
+    case 'transaction': {
+      const step: ToolStep = {
+        id: `tx-${event.hash}`,
+        label: `Transaction ${event.hash.slice(0, 10)}…`,
+        // Broadcast hote hi step done; confirmations ka progress badge dikhata hai
+        status: event.status === 'failed' ? 'failed' : 'done',
+        detail: event.blockNumber ? `${event.status} in block ${event.blockNumber}` : event.status,
+        hash: event.hash,
+      };
+      return steps.some((existing) => existing.id === step.id)
+        ? { ...message, steps: steps.map((existing) => (existing.id === step.id ? step : existing)) }
+        : { ...message, steps: [...steps, step] };
+    }
+    default:
+      return message;
+  }
+};
+
+interface ChatInterfaceProps {
+  walletAddress?: string;
+  // Signs a request prepared by the agent with the user's wallet (see Dashboard). Resolves with the hash as soon as
+  // the wallet broadcasts, without waiting for a block; the backend follows confirmations from there
+  onSigningRequest?: (request: SigningRequest) => Promise<SigningResult>;
+  // Dashboard ka toggle; har message ke saath backend ko bheja jaata hai
+  simulationMode?: boolean;
+}
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ walletAddress, onSigningRequest, simulationMode }) => {
   const [input, setInput] = useState('');
   const [messages, setMessages] = useState<Message[]>([
     {
       role: 'agent',
       content:
-        "Hi, I'm Averix, your AI agent on Arbitrum blockchain. I can help you perform operations like creating tokens, managing wallets, and more. Try 'help' to see available commands or start by setting your wallet with 'setWallet <privateKey>'.",
+        "Hi, I'm Averix, your AI agent on Arbitrum blockchain. I can help you perform operations like creating tokens, managing wallets, and more. Your connected wallet signs every transaction, so you'll approve each one before it is sent. Try 'help' to see available commands.",
       timestamp: new Date().toLocaleTimeString(),
     },
   ]);
   const [isLoading, setIsLoading] = useState(false);
+  const [network, setNetwork] = useState<AgentNetwork | null>(null);
+  // Har agent turn ke baad badhta hai, taaki panels (airdrop progress) refresh ho
+  const [turnCount, setTurnCount] = useState(0);
+  // Fee policy ke "wait below" mode mein ruke hue transactions
+  const [heldRequests, setHeldRequests] = useState(0);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -35,13 +101,105 @@ const ChatInterface: React.FC = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  const nextMessageId = useRef(0);
+
+  const updateMessage = (id: string, update: (message: Message) => Message) => {
+    setMessages((prevMessages) => prevMessages.map((message) => (message.id === id ? update(message) : message)));
+  };
+
+  // Agent ka jawab stream hota hai: tokens aur tool steps aate hi dikhte hain
+  const streamAgentTurn = async (request: (onEvent: (event: AgentEvent) => void) => Promise<AgentResponse>) => {
+    const id = `agent-${nextMessageId.current++}`;
+    const liveMessage: Message = {
+      id,
+      role: 'agent',
+      content: '',
+      timestamp: new Date().toLocaleTimeString(),
+      steps: [],
+      streaming: true,
+    };
+    setMessages((prevMessages) => [...prevMessages, liveMessage]);
+
+    let response: AgentResponse;
+    try {
+      response = await request((event) => updateMessage(id, (message) => applyAgentEvent(message, event)));
+    } catch (error) {
+      setMessages((prevMessages) => prevMessages.filter((message) => message.id !== id));
+      throw error;
+    }
+
+    updateMessage(id, (message) => ({
+      ...message,
+      content: response.response,
+      streaming: false,
+      pendingActions: response.pendingActions?.length ? response.pendingActions : undefined,
+    }));
+    if (response.network) setNetwork(response.network);
+    setTurnCount((count) => count + 1);
+    setHeldRequests(response.heldRequests ?? 0);
+    await processSigningRequests(response.requests ?? []);
+  };
+
+  // Har request wallet se sign karwao, phir result agent ko report karo. Hash broadcast hote hi report hota hai, taaki
+  // tracking ID, watcher aur status badge mining se pehle shuru ho jaayein
+  const processSigningRequests = async (requests: SigningRequest[]) => {
+    for (const request of requests) {
+      let result: SigningResult;
+      try {
+        result = onSigningRequest
+          ? await onSigningRequest(request)
+          : { error: 'No wallet available to sign this request' };
+      } catch (error) {
+        result = { error: error instanceof Error ? error.message : String(error) };
+      }
+
+      await streamAgentTurn((onEvent) => reportSigningResult(request.id, result, onEvent));
+    }
+  };
+
+  // Gas kam hone par backend held requests chhod deta hai; unhe bhi normal tarah sign karwao
+  const handleReleased = async (requests: SigningRequest[], stillHeld: number) => {
+    setHeldRequests(stillHeld);
+    if (requests.length === 0) return;
+    setIsLoading(true);
+    try {
+      await processSigningRequests(requests);
+    } catch (error) {
+      console.error('Error sending released requests to the wallet:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Confirm/cancel card ka jawab agent ko bhejo, tabhi transaction aage badhega
+  const handleDecision = async (index: number, approved: boolean) => {
+    setMessages((prevMessages) =>
+      prevMessages.map((message, i) => (i === index ? { ...message, resolved: true } : message))
+    );
+    setIsLoading(true);
+
+    try {
+      await streamAgentTurn((onEvent) => confirmPendingAction(approved, onEvent));
+    } catch (error) {
+      console.error('Error confirming action with Arbitrum agent service:', error);
+      toast({
+        title: 'Confirmation Failed',
+        description: 'Could not send your decision to the Averix agent service.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const hasPendingAction = messages.some((message) => message.pendingActions && !message.resolved);
+
+  const sendUserMessage = async (text: string) => {
+    if (!text.trim() || isLoading || hasPendingAction) return;
 
     const userMessage: Message = {
       role: 'user',
-      content: input,
+      content: text,
       timestamp: new Date().toLocaleTimeString(),
     };
 
@@ -50,19 +208,7 @@ const ChatInterface: React.FC = () => {
     setIsLoading(true);
 
     try {
-      let privateKey: string | undefined;
-      if (input.toLowerCase().startsWith('setwallet') && input.split(' ').length > 1) {
-        privateKey = input.split(' ')[1];
-      }
-
-      const response = await sendMessageToAgent(input, privateKey);
-
-      const agentMessage: Message = {
-        role: 'agent',
-        content: response.response,
-        timestamp: new Date().toLocaleTimeString(),
-      };
-      setMessages((prevMessages) => [...prevMessages, agentMessage]);
+      await streamAgentTurn((onEvent) => sendMessageToAgent(text, walletAddress, onEvent, simulationMode));
 
       toast({
         title: 'Request Processed',
@@ -90,6 +236,16 @@ const ChatInterface: React.FC = () => {
     }
   };
 
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    sendUserMessage(input);
+  };
+
+  // Allowance panel ka Revoke bhi normal chat command hai, taaki confirm card aur wallet flow same rahe
+  const handleRevoke = (allowance: TokenAllowance) => {
+    sendUserMessage(`revokeAllowance ${allowance.symbol} ${allowance.spender}`);
+  };
+
   // Custom render function for messages using ReactMarkdown
   const renderMessageContent = (content: string) => {
     return (
@@ -127,9 +283,21 @@ const ChatInterface: React.FC = () => {
                   : 'bg-muted/70 text-foreground rounded-2xl rounded-tl-sm'
               }`}
             >
+              {message.steps && message.steps.length > 0 && <ToolStepList steps={message.steps} />}
               <div className="whitespace-pre-wrap text-sm md:text-base">
-                {renderMessageContent(message.content)}
+                {message.streaming && !message.content ? (
+                  <span className="text-muted-foreground">Thinking...</span>
+                ) : (
+                  renderMessageContent(message.content)
+                )}
               </div>
+              {message.pendingActions && (
+                <PendingActionCard
+                  actions={message.pendingActions}
+                  onDecision={message.resolved ? undefined : (approved) => handleDecision(index, approved)}
+                  disabled={isLoading}
+                />
+              )}
               <div
                 className={`text-xs mt-1 ${
                   message.role === 'user' ? 'text-primary-foreground/70' : 'text-muted-foreground'
@@ -144,14 +312,40 @@ const ChatInterface: React.FC = () => {
       </div>
 
       <form onSubmit={handleSubmit} className="border-t p-3">
+        {walletAddress && <AllowancePanel onRevoke={handleRevoke} disabled={isLoading || hasPendingAction} />}
+        {walletAddress && (
+          <AirdropPanel
+            walletAddress={walletAddress}
+            onRun={sendUserMessage}
+            refreshKey={turnCount}
+            disabled={isLoading || hasPendingAction}
+          />
+        )}
+        <HeldRequestsNotice count={heldRequests} onRelease={handleReleased} paused={isLoading} />
+        {simulationMode && (
+          <div className="mb-2 text-xs text-amber-600">
+            Simulation mode: write actions are only simulated, nothing is sent to your wallet.
+          </div>
+        )}
+        {network && (
+          <div className="mb-2 text-xs text-muted-foreground">
+            Network: <span className="font-medium text-foreground">{network.name}</span> (chain ID {network.chainId})
+          </div>
+        )}
         <div className="flex gap-2 relative">
           <input
             type="text"
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            placeholder={isLoading ? 'Processing...' : 'Type a command or ask a question...'}
+            placeholder={
+              isLoading
+                ? 'Processing...'
+                : hasPendingAction
+                  ? 'Confirm or cancel the pending action above...'
+                  : 'Type a command or ask a question...'
+            }
             className="w-full px-3 py-2 md:px-4 md:py-3 rounded-full bg-background border focus:outline-none focus:ring-2 focus:ring-primary/50 pr-10 md:pr-12 text-sm md:text-base disabled:opacity-70"
-            disabled={isLoading}
+            disabled={isLoading || hasPendingAction}
           />
           <button
             type="submit"
@@ -161,7 +355,7 @@ const ChatInterface: React.FC = () => {
                 : 'bg-primary hover:bg-primary/90'
             } text-primary-foreground transition-colors`}
             aria-label="Send message"
-            disabled={isLoading}
+            disabled={isLoading || hasPendingAction}
           >
             <Send size={16} className="md:size-[18px]" />
           </button>
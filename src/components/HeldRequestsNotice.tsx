@@ -0,0 +1,39 @@
+import React, { useEffect } from 'react';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { fetchHeldRequests, SigningRequest } from '@/utils/arbitrumAgent';
+
+// Itni der mein backend se poocho ki gas limit se neeche aaya ya nahi
+const POLL_INTERVAL_MS = 15000;
+
+interface HeldRequestsNoticeProps {
+  count: number;
+  // Jo requests release hue unhe wallet se sign karwao; stillHeld abhi bhi intezaar mein hain
+  onRelease: (requests: SigningRequest[], stillHeld: number) => void;
+  // Agent ya wallet busy ho to poll mat karo
+  paused?: boolean;
+  className?: string;
+}
+
+const HeldRequestsNotice: React.FC<HeldRequestsNoticeProps> = ({ count, onRelease, paused, className }) => {
+  useEffect(() => {
+    if (count === 0 || paused) return;
+    const timer = setInterval(() => {
+      fetchHeldRequests()
+        .then(({ requests, heldRequests }) => onRelease(requests, heldRequests))
+        .catch((error) => console.error('Error polling held requests:', error));
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [count, paused, onRelease]);
+
+  if (count === 0) return null;
+  return (
+    <div className={cn('mb-2 flex items-center gap-1 text-xs text-amber-600', className)}>
+      <Clock size={12} />
+      {count === 1 ? '1 transaction is' : `${count} transactions are`} waiting for lower gas. They go to your wallet
+      automatically.
+    </div>
+  );
+};
+
+export default HeldRequestsNotice;
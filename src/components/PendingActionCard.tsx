@@ -0,0 +1,86 @@
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PendingAction } from '@/utils/arbitrumAgent';
+
+interface PendingActionCardProps {
+  actions: PendingAction[];
+  onDecision?: (approved: boolean) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+const PendingActionCard: React.FC<PendingActionCardProps> = ({ actions, onDecision, disabled, className }) => {
+  return (
+    <div className={cn('mt-2 rounded-xl border border-primary/20 bg-background/60 p-3 space-y-3', className)}>
+      {actions.map((action) => (
+        <div key={action.toolCallId} className="text-sm">
+          <div className="flex items-center gap-2 font-semibold mb-1">
+            <ShieldAlert size={16} className="text-primary" />
+            {action.summary}
+          </div>
+          <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-0.5 text-xs text-muted-foreground">
+            {action.network && (
+              <>
+                <dt>Network</dt>
+                <dd className="font-medium text-foreground">{action.network}</dd>
+              </>
+            )}
+            {action.recipient && (
+              <>
+                <dt>Recipient</dt>
+                <dd className="break-all">{action.recipient}</dd>
+              </>
+            )}
+            {action.amount && (
+              <>
+                <dt>Amount</dt>
+                <dd>
+                  {action.amount} {action.token && !action.amount.includes(' ') ? action.token : ''}
+                </dd>
+              </>
+            )}
+            <dt>Estimated gas</dt>
+            <dd>{action.estimatedGas ?? 'Unavailable'}</dd>
+            <dt>Network fee</dt>
+            <dd>{action.estimatedFee ?? 'Unavailable'}</dd>
+            {action.totalCost && (
+              <>
+                <dt>Total cost</dt>
+                <dd className="font-medium text-foreground">{action.totalCost}</dd>
+              </>
+            )}
+            {action.comparison && (
+              <>
+                <dt>Comparison</dt>
+                <dd>{action.comparison}</dd>
+              </>
+            )}
+          </dl>
+        </div>
+      ))}
+      {onDecision && (
+        <div className="flex gap-2 justify-end">
+          <button
+            type="button"
+            onClick={() => onDecision(false)}
+            disabled={disabled}
+            className="px-3 py-1.5 rounded-full border text-xs md:text-sm hover:bg-muted disabled:opacity-70"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onDecision(true)}
+            disabled={disabled}
+            className="px-3 py-1.5 rounded-full bg-primary text-primary-foreground text-xs md:text-sm hover:bg-primary/90 disabled:opacity-70"
+          >
+            Confirm
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PendingActionCard;
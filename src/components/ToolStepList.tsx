@@ -0,0 +1,42 @@
+import React from 'react';
+import { CheckCircle2, Loader2, XCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import TransactionStatusBadge from './TransactionStatusBadge';
+
+export interface ToolStep {
+  id: string;
+  label: string;
+  status: 'running' | 'done' | 'failed';
+  detail?: string;
+  // Transaction steps: detail ki jagah live status badge (confirmations, reorgs) dikhta hai
+  hash?: string;
+}
+
+interface ToolStepListProps {
+  steps: ToolStep[];
+  className?: string;
+}
+
+const ToolStepList: React.FC<ToolStepListProps> = ({ steps, className }) => {
+  return (
+    <ul className={cn('mb-2 space-y-1 text-xs text-muted-foreground', className)}>
+      {steps.map((step) => (
+        <li key={step.id} className="flex items-start gap-1.5">
+          {step.status === 'running' && <Loader2 size={14} className="mt-0.5 shrink-0 animate-spin" />}
+          {step.status === 'done' && <CheckCircle2 size={14} className="mt-0.5 shrink-0 text-green-600" />}
+          {step.status === 'failed' && <XCircle size={14} className="mt-0.5 shrink-0 text-destructive" />}
+          <span className="break-all">
+            {step.label}
+            {step.hash ? (
+              <TransactionStatusBadge hash={step.hash} className="ml-1.5" />
+            ) : (
+              step.detail && <span className="opacity-70"> · {step.detail}</span>
+            )}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ToolStepList;
@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { fetchTransactionStatus, TransactionStatus } from '@/utils/arbitrumAgent';
+
+// Backend ka watcher bhi itni hi der mein check karta hai
+const POLL_INTERVAL_MS = 5000;
+
+const LABELS: Record<TransactionStatus['status'], string> = {
+  pending: 'pending',
+  mined: 'mined',
+  confirmed: 'confirmed',
+  failed: 'reverted',
+  replaced: 'replaced',
+  dropped: 'dropped',
+};
+
+interface TransactionStatusBadgeProps {
+  hash: string;
+  className?: string;
+}
+
+const TransactionStatusBadge: React.FC<TransactionStatusBadgeProps> = ({ hash, className }) => {
+  const [status, setStatus] = useState<TransactionStatus | null>(null);
+  const settled = status !== null && status.status !== 'pending' && status.status !== 'mined';
+
+  useEffect(() => {
+    if (settled) return;
+    let active = true;
+    const check = () =>
+      fetchTransactionStatus(hash)
+        .then((next) => active && setStatus(next))
+        .catch((error) => console.error('Error checking transaction status:', error));
+    check();
+    const timer = setInterval(check, POLL_INTERVAL_MS);
+    return () => {
+      active = false;
+      clearInterval(timer);
+    };
+  }, [hash, settled]);
+
+  if (!status) return null;
+  const confirmations =
+    status.status === 'mined' ? ` ${status.confirmations}/${status.requiredConfirmations}` : '';
+  const reorgs = status.reorgs > 0 ? ` · ${status.reorgs} reorg${status.reorgs > 1 ? 's' : ''}` : '';
+  return (
+    <Badge
+      variant={status.status === 'failed' || status.status === 'dropped' ? 'destructive' : status.status === 'confirmed' ? 'default' : 'secondary'}
+      title={status.outcome ?? status.replacedBy ?? status.description}
+      className={cn('px-1.5 py-0 text-[10px] font-medium', className)}
+    >
+      {LABELS[status.status]}
+      {confirmations}
+      {reorgs}
+    </Badge>
+  );
+};
+
+export default TransactionStatusBadge;
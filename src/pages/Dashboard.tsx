@@ -1,13 +1,69 @@
 import React from 'react';
 import MainLayout from '../layouts/MainLayout';
 import ChatInterface from '../components/ChatInterface';
-import { usePrivy } from '@privy-io/react-auth';
+import { usePrivy, useWallets } from '@privy-io/react-auth';
 import { toast } from '@/hooks/use-toast';
 import { useNavigate } from 'react-router-dom';
+import { reserveNonce, setWalletSigner, SigningRequest, SigningResult } from '@/utils/arbitrumAgent';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 
 const Dashboard: React.FC = () => {
-  const { authenticated, logout } = usePrivy();
+  const { authenticated, logout, signMessage } = usePrivy();
+  const { wallets } = useWallets();
   const navigate = useNavigate();
+  // Agent ke requests Privy embedded wallet se sign hote hain, private key kabhi backend tak nahi jaati
+  const embeddedWallet = wallets.find((wallet) => wallet.walletClientType === 'privy');
+  // Dry run: transactions simulate hote hain (gas, fees, balance changes), broadcast nahi
+  const [simulationMode, setSimulationMode] = React.useState(false);
+
+  // Backend session isi wallet ke signature se bind hota hai (sign-in challenge), sirf address bhejna kaafi nahi
+  React.useEffect(() => {
+    const address = embeddedWallet?.address;
+    setWalletSigner(
+      address
+        ? {
+            address,
+            signMessage: (message) =>
+              signMessage(message, {
+                title: 'Sign in to Averix',
+                description: 'Proves this wallet is yours. No transaction is sent.',
+              }),
+          }
+        : undefined
+    );
+    return () => setWalletSigner(undefined);
+  }, [embeddedWallet?.address, signMessage]);
+
+  const handleSigningRequest = async (request: SigningRequest): Promise<SigningResult> => {
+    if (request.kind === 'signMessage' && request.message) {
+      const signature = await signMessage(request.message, { description: request.description });
+      return { signature };
+    }
+    if (!request.transaction) {
+      return { error: 'Request has nothing to sign' };
+    }
+    if (!embeddedWallet) {
+      return { error: 'No wallet connected' };
+    }
+    // Nonce backend deta hai (dusre tab ya held requests ke saath takraav na ho)
+    const nonce = await reserveNonce(request.id);
+    // eth_sendTransaction broadcast hote hi hash deta hai (Privy ka sendTransaction mining tak rukta hai);
+    // confirmations backend ka watcher follow karta hai
+    await embeddedWallet.switchChain(request.transaction.chainId);
+    const provider = await embeddedWallet.getEthereumProvider();
+    const hash: string = await provider.request({
+      method: 'eth_sendTransaction',
+      params: [
+        {
+          ...request.transaction,
+          chainId: `0x${request.transaction.chainId.toString(16)}`,
+          nonce: `0x${nonce.toString(16)}`,
+        },
+      ],
+    });
+    return { hash };
+  };
  
   React.useEffect(() => {
     if (!authenticated) {
@@ -31,8 +87,16 @@ const Dashboard: React.FC = () => {
             </p>
           </div>
           <div className="mx-auto w-full max-w-4xl">
+            <div className="mb-3 flex items-center justify-end gap-2">
+              <Switch id="simulation-mode" checked={simulationMode} onCheckedChange={setSimulationMode} />
+              <Label htmlFor="simulation-mode">Simulation mode</Label>
+            </div>
             <div className="h-[70vh] max-h-[700px] rounded-2xl overflow-hidden shadow-lg bg-white/5 backdrop-blur-sm border border-white/10">
-              <ChatInterface />
+              <ChatInterface
+                walletAddress={embeddedWallet?.address}
+                onSigningRequest={handleSigningRequest}
+                simulationMode={simulationMode}
+              />
             </div>
           </div>
         </div>
@@ -26,15 +26,15 @@ const Documentation: React.FC = () => {
       content: [
         {
           subtitle: 'Wallet Management',
-          text: 'Set your wallet with "setWallet [PRIVATE_KEY]". Check your ETH and token balances (e.g., MTK) with "getBalance". View your wallet address with "getWalletAddress". Disconnect your wallet with "disconnectWallet".'
+          text: 'Log in with your wallet on the dashboard; transactions are signed in your wallet, never with a pasted private key. Check your ETH and token balances (e.g., MTK) with "getBalance". View your wallet address with "getWalletAddress". Disconnect your wallet with "disconnectWallet".'
         },
         {
           subtitle: 'Token Creation',
-          text: 'Create a new ERC-20 token with "createToken [NAME] [SYMBOL] [SUPPLY]". For example: "createToken MyToken MTK 1000" creates 1000 MTK tokens.'
+          text: 'Create a new ERC-20 token with "createToken [NAME] [SYMBOL] [SUPPLY] [DECIMALS]". For example: "createToken MyToken MTK 1000" creates 1000 MTK tokens with 18 decimals. Balances and transfer amounts always use whole token units, so "0.5 MTK" works as expected. Add an existing token with "importToken [ADDRESS]". Your tokens are saved per wallet and stay available across sessions.'
         },
         {
           subtitle: 'Transactions',
-          text: 'Transfer ETH or tokens with "batchMixedTransfer [TYPE] [TO] [AMOUNT] [TOKEN_NAME]". For example: "batchMixedTransfer TOKEN 0xa1196778c1ADF48689D72E4B370518dbb2E9c01F 5 MTK" sends 5 MTK. Transfer ETH with "transferTokens [TO] [AMOUNT]". Sign a message with "signMessage [MESSAGE]".'
+          text: 'Transfer ETH or tokens with "batchMixedTransfer [TYPE] [TO] [AMOUNT] [TOKEN_NAME]". For example: "batchMixedTransfer TOKEN 0xa1196778c1ADF48689D72E4B370518dbb2E9c01F 5 MTK" sends 5 MTK. Add "mode atomic" to send all transfers in one transaction that either fully succeeds or fully reverts; the first time, the agent deploys a small batch contract on the network, and the confirmation card compares the gas with sending them one by one. Transfer ETH with "transferTokens [TO] [AMOUNT]". Sign a message with "signMessage [MESSAGE]".'
         }
       ]
     },
@@ -48,11 +48,63 @@ const Documentation: React.FC = () => {
         },
         {
           subtitle: 'Gas Optimization',
-          text: 'Check current gas prices with "getGasPrice" to optimize transaction costs.'
+          text: 'Check current gas prices with "getGasPrice" to optimize transaction costs. On Arbitrum a fee has two parts: L2 execution and posting the transaction data to Ethereum (L1), which is often the larger one. "getGasPrice" shows the L2 base fee, the L1 base fee and the price per calldata byte, plus what an ETH transfer, a token transfer and a token deployment cost right now in ETH and USD.'
+        },
+        {
+          subtitle: 'Fee Policy',
+          text: 'Choose how your transactions are priced with "setFeePolicy": "slow", "normal" (default) or "fast", an optional cap like "maxFeeGwei 0.5", or "waitBelowGwei 0.02" to hold transactions until gas is cheaper. Held transactions go to your wallet automatically once gas drops. Every prepared transaction tells you the fee it uses and the most it can cost, and the confirmation shows what you actually paid.'
+        },
+        {
+          subtitle: 'Transaction Status',
+          text: 'Once your wallet sends a transaction, Averix answers right away with a tracking ID instead of waiting for the block. The transaction in the chat gets a live badge (pending, mined with its confirmations, confirmed, reverted, replaced or dropped), and "getTransactionStatus [TRACKING_ID]" tells you the same plus what happened afterwards, like the address of a deployed token.'
+        },
+        {
+          subtitle: 'Stuck Transactions',
+          text: 'If a transaction stays pending, "getPendingTransactions" lists it with its nonce and fee. "speedUpTransaction [HASH]" resends it with the same nonce and higher fees, and "cancelTransaction [HASH]" replaces it with a 0 ETH transfer to yourself. Averix notices when a replacement is mined and tells you which transaction went through.'
+        },
+        {
+          subtitle: 'Failure Reasons',
+          text: 'When a transaction would fail or fails, Averix explains why in plain words and suggests what to do next, instead of showing raw error codes. It recognises missing ETH for gas, nonce problems, fees that are too low and the error messages of its own contracts, such as "Insufficient balance" (check "getBalance") or "Insufficient allowance" (use "approveToken" first). A transaction that reverts after it is mined is replayed to find the reason.'
+        },
+        {
+          subtitle: 'Token Templates',
+          text: 'Besides the default fixed-supply token, "createToken" can deploy a mintable, capped, pausable or transfer-tax token. Ask for a template by name, e.g. "createToken MyToken MTK 1000 template capped cap 5000"; "getTokenTemplates" lists every template and its parameters. As the owner you can then "mintToken [TOKEN] [AMOUNT]", "pauseToken [TOKEN]" (or unpause) and "transferOwnership [TOKEN] [NEW_OWNER]", on templates that support them.'
+        },
+        {
+          subtitle: 'Contract Verification',
+          text: 'Add "verify" to "createToken" and Averix publishes the source code of the token on Arbiscan once it is deployed, so anyone can read the contract. Use "verifyToken [TOKEN]" to verify a token you created earlier or to check how verification went.'
+        },
+        {
+          subtitle: 'NFT Collections',
+          text: 'Create your own ERC-721 collection with "createNftCollection [NAME] [SYMBOL] [BASE_URI] [MAX_SUPPLY]" (leave out the max supply for an unlimited collection). Mint the next NFT with "mintNft [COLLECTION] [TO]", send one with "transferNft [COLLECTION] [TOKEN_ID] [TO]" and list what you hold with "getNfts". Your NFTs also show up in "getBalance", and collections are saved with your tokens.'
+        },
+        {
+          subtitle: 'Burning Tokens',
+          text: 'Permanently destroy some of your tokens with "burnToken [TOKEN] [AMOUNT]". Once the transaction is mined, Averix reports the new total supply and your balance. "getTokenSupply [TOKEN]" compares the initial and current supply and shows how much has been burned.'
+        },
+        {
+          subtitle: 'Token Allowances',
+          text: 'Let another address spend your tokens with "approveToken [TOKEN] [SPENDER] [AMOUNT]" (use "unlimited" for no cap), check it with "getAllowance [TOKEN] [SPENDER]" and remove it with "revokeAllowance [TOKEN] [SPENDER]". "getAllowances" lists every approval you have granted, and the "Token allowances" panel under the chat lets you revoke one with a click. If someone approved your wallet, move their tokens with "transferFromToken [TOKEN] [FROM] [TO] [AMOUNT]".'
+        },
+        {
+          subtitle: 'Airdrops',
+          text: 'Send ETH or tokens to many addresses by uploading a CSV or JSON file of "type, to, amount, token" rows in the "Airdrop import" panel under the chat. Every row is checked (address and checksum, known token, amount, duplicate recipients) and the preview table shows what is wrong with each invalid row and whether your balance covers the rest. "Start airdrop" sends the rows in chunks, each confirmed in chat and signed row by row in your wallet. Progress is saved, so you can continue later, and "Report" downloads the result of every row as CSV.'
+        },
+        {
+          subtitle: 'Simulation Mode',
+          text: 'Try any transfer, deployment or contract call without sending it: say "simulate" in your request, or switch on "Simulation mode" above the chat to simulate every write action. Averix reports whether the transaction would succeed (or why it would revert), the gas it needs, the L2 execution fee and the L1 data fee, and how each balance would change. Nothing reaches your wallet.'
+        },
+        {
+          subtitle: 'Any Contract',
+          text: 'Work with contracts Averix did not deploy: register one with "registerContract [NAME] [ADDRESS] [ABI]" (a JSON ABI or signatures like "function balanceOf(address owner) view returns (uint256)"), read it with "readContract [NAME] [FUNCTION] [ARGS]" and send transactions with "writeContract [NAME] [FUNCTION] [ARGS]". Arguments are checked against the ABI, write calls show a gas estimate and wait for your confirmation, and if a call would fail Averix tells you the revert reason before anything reaches your wallet.'
+        },
+        {
+          subtitle: 'Networks',
+          text: 'Averix starts on Arbitrum Sepolia and can also work on Arbitrum One, Arbitrum Nova and a local devnode. Check the current network with "getNetwork" and change it with "switchNetwork [NETWORK]", e.g. "switchNetwork arbitrum-one". Tokens and explorer links follow the selected network, and every confirmation card shows which network the transaction will use.'
         },
         {
           subtitle: 'Transaction History',
-          text: 'View recent transactions with "getTransactionHistory [COUNT]". For example: "getTransactionHistory 5" shows the last 5 transactions with Arbiscan links.'
+          text: 'View ETH and token transfers in and out of your wallet with "getTransactionHistory [PAGE]". Each row shows the direction, counterparty, token, amount, time and an Arbiscan link; ask for the next page to go further back.'
         }
       ]
     },
@@ -1,28 +1,396 @@
 // src/utils/monadAgent.ts
-export const sendMessageToAgent = async (input: string, privateKey?: string): Promise<{ response: string }> => {
+const SESSION_STORAGE_KEY = 'averix_session_id';
+
+// Unsigned request prepared by the agent; the dashboard signs it with the Privy wallet
+export interface SigningRequest {
+  id: string;
+  kind:
+    | 'transferTokens'
+    | 'createToken'
+    | 'batchMixedTransfer'
+    | 'signMessage'
+    | 'approveToken'
+    | 'revokeAllowance'
+    | 'transferFromToken'
+    | 'burnToken'
+    | 'mintToken'
+    | 'pauseToken'
+    | 'transferOwnership'
+    | 'createNftCollection'
+    | 'mintNft'
+    | 'transferNft'
+    | 'writeContract'
+    | 'deployDisperse'
+    | 'airdropTransfer'
+    | 'cancelTransaction';
+  description: string;
+  transaction?: {
+    from: string;
+    to?: string;
+    data?: string;
+    value?: string;
+    chainId: number;
+    // Speed-up/cancel mein purane transaction ka nonce; baaki sab sign se pehle reserveNonce se lete hain
+    nonce?: number;
+    // Session ki fee policy se (slow/normal/fast, max fee cap)
+    maxFeePerGas?: string;
+    maxPriorityFeePerGas?: string;
+  };
+  message?: string;
+  airdrop?: { id: string; row: number };
+}
+
+// State-changing action the agent is paused on until the user confirms or cancels it
+export interface PendingAction {
+  toolCallId: string;
+  tool: string;
+  summary: string;
+  network?: string;
+  recipient?: string;
+  amount?: string;
+  token?: string;
+  estimatedGas?: string;
+  estimatedFee?: string;
+  totalCost?: string;
+  // Dusre mode (jaise atomic vs sequential batch) ka gas comparison
+  comparison?: string;
+  // Preview ke waqt simulation mode; approve hone ke baad action usi mode mein chalta hai
+  simulationMode: boolean;
+}
+
+// Arbitrum network the backend session is using (badalne ke liye "switchNetwork" bolo)
+export interface AgentNetwork {
+  key: string;
+  name: string;
+  chainId: number;
+}
+
+export interface AgentResponse {
+  response: string;
+  threadId?: string;
+  requests?: SigningRequest[];
+  // Kam gas ka intezaar kar rahe requests; GET /agent/requests se aate hain
+  heldRequests?: number;
+  pendingActions?: PendingAction[];
+  network?: AgentNetwork;
+}
+
+// Events streamed by the agent while a turn runs
+export type AgentEvent =
+  | { type: 'token'; content: string }
+  | { type: 'tool_start'; id: string; name: string; input: unknown }
+  | { type: 'tool_end'; id: string; name: string; output: string }
+  | {
+      type: 'transaction';
+      requestId: string;
+      hash: string;
+      status: 'submitted' | 'confirmed' | 'failed';
+      blockNumber?: number;
+    }
+  | { type: 'done'; result: AgentResponse }
+  | { type: 'error'; error: string };
+
+// Broadcast transaction jise backend background mein follow karta hai (status badge ke liye)
+export interface TransactionStatus {
+  hash: string;
+  description: string;
+  // mined: block mein hai par abhi requiredConfirmations tak nahi pahuncha
+  status: 'pending' | 'mined' | 'confirmed' | 'failed' | 'replaced' | 'dropped';
+  confirmations: number;
+  requiredConfirmations: number;
+  blockNumber?: number;
+  reorgs: number;
+  replacedBy?: string;
+  // Settle hone ke baad kya hua, jaise deployed token ka address
+  outcome?: string;
+}
+
+// Spender approval on one of the wallet's tokens (allowance overview)
+export interface TokenAllowance {
+  symbol: string;
+  tokenAddress: string;
+  spender: string;
+  amount: string;
+  unlimited: boolean;
+}
+
+// Allowances ki list; partial tab jab backend poori chain search nahi kar paya (fromBlock se pehle ke approvals missing ho sakte hain)
+export interface AllowanceScan {
+  allowances: TokenAllowance[];
+  partial: boolean;
+  fromBlock?: number;
+}
+
+// Airdrop file ki ek row aur uska status (backend ka airdrop.ts dekho)
+export interface AirdropRow {
+  row: number;
+  type: string;
+  to: string;
+  amount: string;
+  token?: string;
+  status: 'invalid' | 'pending' | 'queued' | 'sent' | 'confirmed' | 'failed' | 'unknown';
+  error?: string;
+  txHash?: string;
+}
+
+// Imported airdrop; problems = baaki rows ke liye balance kam hai
+export interface Airdrop {
+  id: string;
+  fileName: string;
+  rows: AirdropRow[];
+  problems: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Result of a signing request, reported back so the agent can continue the conversation; hash is reported at broadcast,
+// not after mining
+export type SigningResult = { hash: string } | { signature: string } | { error: string };
+
+// Server-Sent Events stream padho, har event callback ko do aur final result return karo
+const readEventStream = async (response: Response, onEvent: (event: AgentEvent) => void): Promise<AgentResponse> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: AgentResponse | undefined;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() ?? '';
+    for (const frame of frames) {
+      const data = frame
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trim())
+        .join('\n');
+      if (!data) continue;
+
+      const event = JSON.parse(data) as AgentEvent;
+      if (event.type === 'error') throw new Error(event.error);
+      if (event.type === 'done') result = event.result;
+      onEvent(event);
+    }
+  }
+
+  if (!result) {
+    throw new Error('Agent stream ended without a result');
+  }
+  return result;
+};
+
+const getApiEndpoint = (): string => {
   const API_ENDPOINT = import.meta.env.VITE_API_ENDPOINT; // .env se URL fetch karo
 
   if (!API_ENDPOINT) {
     throw new Error('API endpoint not configured. Please set VITE_API_ENDPOINT in .env file.');
   }
+  return API_ENDPOINT;
+};
 
-  try {
-    const response = await fetch(API_ENDPOINT, {
+// Backend har browser ko apna session deta hai (wallet, tokens, conversation)
+const sessionHeaders = (): Record<string, string> => {
+  const sessionId = localStorage.getItem(SESSION_STORAGE_KEY);
+  return sessionId ? { 'X-Session-Id': sessionId } : {};
+};
+
+const rememberSession = (response: Response) => {
+  const returnedSessionId = response.headers.get('X-Session-Id');
+  if (returnedSessionId) {
+    localStorage.setItem(SESSION_STORAGE_KEY, returnedSessionId);
+  }
+};
+
+// Wallet jisse backend session bind hota hai; uske bina body ka walletAddress backend nahi maanta
+export interface WalletSigner {
+  address: string;
+  signMessage: (message: string) => Promise<string>;
+}
+
+let walletSigner: WalletSigner | undefined;
+
+// Dashboard login/logout par set karta hai
+export const setWalletSigner = (signer: WalletSigner | undefined) => {
+  walletSigner = signer;
+};
+
+// Backend ka challenge wallet se sign karo, isse session us wallet se bind hota hai
+const signInWallet = async (signer: WalletSigner) => {
+  const post = (path: string, body: object) =>
+    fetch(`${getApiEndpoint()}/auth${path}`, {
       method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ input, privateKey }),
+      headers: { 'Content-Type': 'application/json', ...sessionHeaders() },
+      credentials: 'include',
+      body: JSON.stringify(body),
     });
+  const challengeResponse = await post('/challenge', { walletAddress: signer.address });
+  rememberSession(challengeResponse);
+  const { message, error } = await challengeResponse.json();
+  if (!challengeResponse.ok) {
+    throw new Error(error ?? `HTTP error! status: ${challengeResponse.status}`);
+  }
+  const signInResponse = await post('', { signature: await signer.signMessage(message) });
+  if (!signInResponse.ok) {
+    const data = await signInResponse.json();
+    throw new Error(data.error ?? `HTTP error! status: ${signInResponse.status}`);
+  }
+};
+
+// 401 ka matlab session abhi wallet se bind nahi hai (naya session ya expire ho gaya): sign in karke ek baar dobara try
+const fetchSignedIn = async (send: () => Promise<Response>): Promise<Response> => {
+  const response = await send();
+  rememberSession(response);
+  if (response.status !== 401 || !walletSigner) return response;
+  await signInWallet(walletSigner);
+  const retried = await send();
+  rememberSession(retried);
+  return retried;
+};
+
+const postToAgent = async (
+  path: string,
+  body: object,
+  onEvent?: (event: AgentEvent) => void
+): Promise<AgentResponse> => {
+  const API_ENDPOINT = getApiEndpoint();
+
+  try {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: onEvent ? 'text/event-stream' : 'application/json',
+    };
+
+    const response = await fetchSignedIn(() =>
+      fetch(`${API_ENDPOINT}${path}`, {
+        method: 'POST',
+        // Session ID har baar naya padho, sign-in ke baad wahi session chahiye
+        headers: { ...headers, ...sessionHeaders() },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      })
+    );
 
     if (!response.ok) {
       throw new Error(`HTTP error! status: ${response.status}`);
     }
 
+    if (onEvent && response.headers.get('Content-Type')?.startsWith('text/event-stream')) {
+      return await readEventStream(response, onEvent);
+    }
+
     const data = await response.json();
-    return data; // { response: "..." }
+    return data; // { response: "...", requests: [...] }
   } catch (error) {
     console.error('Error sending message to agent:', error);
     throw error; // ChatInterface mein error handle hoga
   }
-};
\ No newline at end of file
+};
+
+export const sendMessageToAgent = async (
+  input: string,
+  walletAddress?: string,
+  onEvent?: (event: AgentEvent) => void,
+  // On ho to write tools sirf simulate hote hain, wallet tak kuch nahi jaata
+  simulationMode?: boolean
+): Promise<AgentResponse> => {
+  return postToAgent('', { input, walletAddress, simulationMode }, onEvent);
+};
+
+export const confirmPendingAction = async (
+  approved: boolean,
+  onEvent?: (event: AgentEvent) => void
+): Promise<AgentResponse> => {
+  return postToAgent('/confirm', { approved }, onEvent);
+};
+
+export const reportSigningResult = async (
+  requestId: string,
+  result: SigningResult,
+  onEvent?: (event: AgentEvent) => void
+): Promise<AgentResponse> => {
+  return postToAgent(`/requests/${encodeURIComponent(requestId)}`, result, onEvent);
+};
+
+// Sign karne se theek pehle backend se nonce lo, taaki ek wallet ke overlapping requests same nonce na lein
+export const reserveNonce = async (requestId: string): Promise<number> => {
+  const response = await fetch(`${getApiEndpoint()}/requests/${encodeURIComponent(requestId)}/nonce`, {
+    method: 'POST',
+    headers: sessionHeaders(),
+    credentials: 'include',
+  });
+  rememberSession(response);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error ?? `HTTP error! status: ${response.status}`);
+  }
+  return data.nonce;
+};
+
+// Wallet ke tokens pe diye gaye saare approvals (revoke chat ke through hota hai)
+export const fetchAllowances = async (): Promise<AllowanceScan> => {
+  const response = await fetch(`${getApiEndpoint()}/allowances`, {
+    headers: sessionHeaders(),
+    credentials: 'include',
+  });
+  rememberSession(response);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+};
+
+const getFromAgent = async (path: string): Promise<Response> => {
+  const response = await fetch(`${getApiEndpoint()}${path}`, {
+    headers: sessionHeaders(),
+    credentials: 'include',
+  });
+  rememberSession(response);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response;
+};
+
+// Held requests jo ab wallet mein ja sakte hain (gas limit se neeche aa gaya)
+export const fetchHeldRequests = async (): Promise<{ requests: SigningRequest[]; heldRequests: number }> => {
+  const response = await getFromAgent('/requests');
+  return response.json();
+};
+
+export const fetchTransactionStatus = async (hash: string): Promise<TransactionStatus> => {
+  const response = await getFromAgent(`/transactions/${encodeURIComponent(hash)}`);
+  const data = await response.json();
+  return data.transaction;
+};
+
+// CSV/JSON airdrop file upload karo; backend har row validate karke preview deta hai
+export const importAirdrop = async (content: string, fileName: string, walletAddress?: string): Promise<Airdrop> => {
+  const response = await fetchSignedIn(() =>
+    fetch(`${getApiEndpoint()}/airdrops`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...sessionHeaders() },
+      credentials: 'include',
+      body: JSON.stringify({ content, fileName, walletAddress }),
+    })
+  );
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error ?? `HTTP error! status: ${response.status}`);
+  }
+  return data.airdrop;
+};
+
+export const fetchAirdrop = async (id: string): Promise<Airdrop> => {
+  const response = await getFromAgent(`/airdrops/${encodeURIComponent(id)}`);
+  const data = await response.json();
+  return data.airdrop;
+};
+
+// Har row ka result CSV report ke roop mein
+export const fetchAirdropReport = async (id: string): Promise<Blob> => {
+  const response = await getFromAgent(`/airdrops/${encodeURIComponent(id)}/report`);
+  return response.blob();
+};